@@ -1,29 +1,51 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AppState, AnalysisResult, Segment, GenerationPipelineState, ChromaKeySettings, ImageGenerationProgress, OverlayTransform } from './types';
+import { AppState, AnalysisResult, Segment, Track, GenerationPipelineState, ChromaKeySettings, ImageGenerationProgress, OverlayTransform, OverlayKeyframe, SegmentTransition, TransitionEdge, TakeKind, TimeRange, AnalysisSettings, CaptionCue, CaptionTrack, TextOverlay, TextOverlayKind } from './types';
 import PromptSelector from './components/PromptSelector';
 import VeoGenerator from './components/VeoGenerator';
 import TimelineEditor from './components/TimelineEditor';
-import { fileToBase64, extractFrameFromVideo, getClosestAspectRatio, formatTime } from './utils/videoUtils';
-import { analyzeVideoContent, generateImageAsset, generateVeoAnimation, checkApiKey, promptApiKey } from './services/geminiService';
+import ProjectBrowser from './components/ProjectBrowser';
+import { fileToBase64, extractFrameFromVideo, getClosestAspectRatio, formatTime, createThumbnail, getVideoDuration } from './utils/videoUtils';
+import { checkApiKey, promptApiKey } from './services/geminiService';
+import { getActiveProvider, getActiveProviderId, getProvider, setActiveProvider, DEFAULT_PROVIDER_ID } from './services/providerRegistry';
+import { generationQueue, JOB_PRIORITY } from './services/generationQueue';
+import { AnalysisVideo, UploadedVideo } from './services/generationProvider';
+import { analyzeVideoInWindows } from './services/chunkedAnalysis';
+import { editHistory, applyHistoryEntry } from './services/editHistory';
+import { GenerationError } from './services/apiErrors';
 import { detectDominantGreenFromDataUrl } from './utils/chromaKey';
-import { DEFAULT_CHROMA_KEY_SETTINGS } from './types';
+import { getTracks, getSegmentTrack, createTrack } from './utils/tracks';
+import { createTake, createVariantTakes, addTakes, getTakes, selectTake, deleteTake, withCurrentMediaAsTakes, UPLOAD_MODEL, LIBRARY_MODEL } from './utils/takes';
+import { withProjectStyle } from './utils/analysisPrompts';
+import { replaceTranscriptRange } from './utils/transcript';
+import { createCaptionCues } from './utils/captions';
+import { MIN_SEGMENT_DURATION, createSegment, createTextSegment, splitSegment, mergeSegments, canSplitAt, getNextSegmentOnTrack, replaceSegmentsInRange } from './utils/segments';
+import { exportProjectBundle, importProjectBundle, BundleSourceVideo } from './services/bundleService';
+import { LibraryAsset, listAssets, addAssetFromSegment, updateAsset, deleteAsset, loadAssetMedia } from './services/assetLibrary';
+import { ProjectSummary, listProjects, createProject, saveProject, saveProjectWithMedia, saveSourceVideo, restoreProject, loadStoredProject, releaseProjectMedia, loadProject, renameProject, duplicateProject, deleteProject } from './services/autosaveService';
+import { DEFAULT_CHROMA_KEY_SETTINGS, DEFAULT_ANALYSIS_SETTINGS, DEFAULT_CAPTION_STYLE } from './types';
+import { MAX_INLINE_VIDEO_MB, MIN_CAPTION_SEC, TEXT_OVERLAY_KIND_LABELS } from './constants';
 import { Zap, AlertTriangle, Film } from 'lucide-react';
 import { logger } from './utils/logger';
 
+const AUTOSAVE_DELAY_MS = 1000;
+
 const App: React.FC = () => {
-  const [state, setState] = useState<AppState>(AppState.IDLE);
+  const [state, setState] = useState<AppState>(() => listProjects().length > 0 ? AppState.PROJECTS : AppState.IDLE);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
 
   const [videoAspectRatio, setVideoAspectRatio] = useState<string>("16:9");
+  // Kept when switching projects, so a new project starts from the last settings used
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(DEFAULT_ANALYSIS_SETTINGS);
 
-  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [analysis, setAnalysisState] = useState<AnalysisResult | null>(null);
   const [activeSegment, setActiveSegment] = useState<Segment | null>(null);
 
   const [statusMessage, setStatusMessage] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [hasKey, setHasKey] = useState(false);
+  const [providerId, setProviderId] = useState<string>(() => getActiveProviderId());
 
   // Generation pipeline state
   const [pipelineState, setPipelineState] = useState<GenerationPipelineState>({
@@ -33,6 +55,28 @@ const App: React.FC = () => {
     progress: { promptsGenerated: 0, imagesGenerated: 0, videosGenerated: 0, totalSegments: 0 }
   });
   const stopGenerationRef = useRef(false);
+  const pauseGenerationRef = useRef(false);
+  // In-flight Veo requests per segment, so each can be cancelled on its own
+  const videoAbortControllersRef = useRef(new Map<string, AbortController>());
+  // Latest analysis for long-running async loops that outlive a render's closure
+  const analysisRef = useRef<AnalysisResult | null>(null);
+  // Every change goes through here, so analysisRef is current as soon as a change is made rather
+  // than after React's next render
+  const setAnalysis = (update: React.SetStateAction<AnalysisResult | null>) => {
+    const next = typeof update === 'function' ? update(analysisRef.current) : update;
+    analysisRef.current = next;
+    setAnalysisState(next);
+  };
+  // The source video as uploaded to a provider, reused by range re-analysis until it expires
+  const uploadedVideoRef = useRef<{ file: File; providerId: string; video: UploadedVideo } | null>(null);
+
+  // Projects: the id of the open project (null until a video is uploaded or a project opened)
+  const projectIdRef = useRef<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>(() => listProjects());
+  // Shared by every project, so it is not cleared when switching projects
+  const [assets, setAssets] = useState<LibraryAsset[]>(() => listAssets());
+  // Set when the open project's source video is not stored locally and must be re-linked
+  const [missingSourceVideo, setMissingSourceVideo] = useState<Pick<BundleSourceVideo, 'fileName' | 'size'> | null>(null);
 
   useEffect(() => {
     checkApiKey().then(setHasKey);
@@ -41,6 +85,167 @@ const App: React.FC = () => {
     };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  const saveCurrentProject = () => {
+    if (!projectIdRef.current || !analysis || !videoFile) return Promise.resolve();
+    return saveProjectWithMedia({
+      id: projectIdRef.current,
+      videoFileName: videoFile.name,
+      videoFileType: videoFile.type,
+      videoAspectRatio,
+      analysisSettings,
+      analysis,
+      pipelineState,
+      appState: state === AppState.TIMELINE_EDITOR ? AppState.TIMELINE_EDITOR : AppState.IDLE
+    });
+  };
+
+  // Autosave on every analysis/segment change (debounced so drags don't hammer storage)
+  useEffect(() => {
+    if (!analysis || !videoFile) return;
+    const timeout = setTimeout(saveCurrentProject, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [analysis, videoAspectRatio, analysisSettings]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const refreshProjects = () => setProjects(listProjects());
+  const refreshAssets = () => setAssets(listAssets());
+
+  // Clear all per-project state so another project can be opened or created
+  const closeCurrentProject = async () => {
+    await saveCurrentProject();
+    stopGenerationRef.current = true;
+    // Queued jobs belong to the project being closed. Veo polling stops too, but the
+    // pending operations stay saved on their segments and resume when the project reopens.
+    generationQueue.cancelAll();
+    videoAbortControllersRef.current.forEach(controller => controller.abort());
+    if (videoUrl) URL.revokeObjectURL(videoUrl);
+    setVideoUrl(null);
+    setVideoFile(null);
+    uploadedVideoRef.current = null;
+    setAnalysis(null);
+    editHistory.clear();
+    setActiveSegment(null);
+    setError(null);
+    setMissingSourceVideo(null);
+    setPipelineState({
+      isRunning: false,
+      isPaused: false,
+      currentPhase: 'idle',
+      progress: { promptsGenerated: 0, imagesGenerated: 0, videosGenerated: 0, totalSegments: 0 }
+    });
+    if (projectIdRef.current) releaseProjectMedia(projectIdRef.current);
+    projectIdRef.current = null;
+  };
+
+  const handleShowProjects = async () => {
+    logger.ui.buttonClick('showProjects');
+    await saveCurrentProject();
+    refreshProjects();
+    logger.ui.stateChange(state, AppState.PROJECTS);
+    setState(AppState.PROJECTS);
+  };
+
+  const handleCreateProject = async () => {
+    logger.ui.buttonClick('createProject');
+    await closeCurrentProject();
+    logger.ui.stateChange(state, AppState.IDLE);
+    setState(AppState.IDLE);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    logger.ui.buttonClick(`openProject-${id}`);
+    if (id === projectIdRef.current) {
+      logger.ui.stateChange(state, AppState.IDLE);
+      setState(AppState.IDLE);
+      return;
+    }
+
+    await closeCurrentProject();
+    try {
+      const { project, sourceVideo } = await restoreProject(id);
+      projectIdRef.current = project.id;
+      stopGenerationRef.current = false;
+
+      if (sourceVideo) {
+        setVideoFile(sourceVideo);
+        setVideoUrl(URL.createObjectURL(sourceVideo));
+      } else {
+        console.warn('[Autosave] Stored project has no source video');
+        setMissingSourceVideo({ fileName: project.videoFileName, size: null });
+      }
+
+      setVideoAspectRatio(project.videoAspectRatio);
+      setAnalysisSettings(project.analysisSettings || DEFAULT_ANALYSIS_SETTINGS);
+      setAnalysis(project.analysis);
+      editHistory.clear();
+      if (project.analysis) {
+        logger.state.analysisUpdate(project.analysis.segments.length);
+        resumePendingVideos(project.analysis.segments);
+      }
+      setPipelineState({ ...project.pipelineState, isRunning: false, isPaused: false });
+
+      const restoredState = project.appState === AppState.TIMELINE_EDITOR ? AppState.TIMELINE_EDITOR : AppState.IDLE;
+      logger.ui.stateChange(state, restoredState);
+      setState(restoredState);
+    } catch (err: any) {
+      console.error(err);
+      logger.api.error('restoreProject', err);
+      setError(err.message || "Failed to open project.");
+      setState(AppState.ERROR);
+    }
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    renameProject(id, name);
+    refreshProjects();
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    logger.ui.buttonClick(`duplicateProject-${id}`);
+    if (id === projectIdRef.current) await saveCurrentProject();
+    await duplicateProject(id);
+    refreshProjects();
+  };
+
+  const handleExportProject = async (id: string, includeSourceVideo: boolean) => {
+    logger.ui.buttonClick(`exportProject-${id}`);
+    if (id === projectIdRef.current) await saveCurrentProject();
+    const { project, sourceVideo } = await loadStoredProject(id);
+    const blob = await exportProjectBundle(project, sourceVideo, includeSourceVideo);
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${project.name.replace(/[^\w\- ]+/g, '_') || 'project'}.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  const handleImportProject = async (file: File) => {
+    logger.ui.buttonClick('importProject');
+    const { project, missingSourceVideo: missing } = await importProjectBundle(file);
+    refreshProjects();
+    await handleOpenProject(project.id);
+    if (missing) setMissingSourceVideo({ fileName: missing.fileName, size: missing.size });
+  };
+
+  // Attach a source video to a project whose bundle did not embed one
+  const handleRelinkSourceVideo = (file: File) => {
+    if (!projectIdRef.current) return;
+    logger.ui.fileSelected(file.name, file.size, file.type);
+    setVideoFile(file);
+    setVideoUrl(URL.createObjectURL(file));
+    saveSourceVideo(projectIdRef.current, file);
+    saveProject({ id: projectIdRef.current, videoFileName: file.name, videoFileType: file.type });
+    setMissingSourceVideo(null);
+  };
+
+  const handleDeleteProject = (id: string) => {
+    logger.ui.buttonClick(`deleteProject-${id}`);
+    if (id === projectIdRef.current) return;
+    deleteProject(id);
+    refreshProjects();
+  };
+
   const handleConnectKey = async () => {
     logger.ui.buttonClick('connectKey');
     try {
@@ -52,10 +257,103 @@ const App: React.FC = () => {
     }
   };
 
+  // Local providers (like the mock) run without an API key
+  const ensureApiKey = async (): Promise<boolean> => {
+    if (!getActiveProvider().requiresApiKey) return true;
+    if (await checkApiKey()) return true;
+    return promptApiKey();
+  };
+
+  // Small videos go inline with the analysis request. Larger ones are uploaded in chunks (so
+  // they never sit in memory as base64) and the upload is reused while the provider keeps it.
+  const prepareAnalysisVideo = async (file: File): Promise<AnalysisVideo> => {
+    if (file.size <= MAX_INLINE_VIDEO_MB * 1024 * 1024) {
+      logger.api.request('fileToBase64', { fileName: file.name });
+      const base64 = await fileToBase64(file);
+      logger.api.response('fileToBase64', `${base64.length} chars`);
+      return { base64, mimeType: file.type };
+    }
+
+    const provider = getActiveProvider();
+    const cached = uploadedVideoRef.current;
+    const stillStored = (video: UploadedVideo) => !video.expiresAt || video.expiresAt - Date.now() > 10 * 60 * 1000;
+    if (cached && cached.file === file && cached.providerId === provider.id && stillStored(cached.video)) {
+      return cached.video;
+    }
+
+    setStatusMessage('Uploading video... 0%');
+    const video = await provider.uploadVideo(file, {
+      onProgress: (sent, total) => setStatusMessage(`Uploading video... ${Math.round((sent / total) * 100)}%`),
+      onProcessing: () => setStatusMessage(`${provider.name} is processing the uploaded video...`)
+    });
+    uploadedVideoRef.current = { file, providerId: provider.id, video };
+    return video;
+  };
+
+  // Apply a user edit to the analysis and record it for undo/redo. Edits sharing a coalesceKey
+  // in quick succession (drags, slider scrubs) become a single history entry.
+  const applyEdit = (label: string, update: (prev: AnalysisResult) => AnalysisResult, coalesceKey?: string) => {
+    const editId = crypto.randomUUID();
+    setAnalysis(prev => {
+      if (!prev) return null;
+      const next = update(prev);
+      editHistory.record(editId, label, prev, next, coalesceKey);
+      return next;
+    });
+  };
+
+  const handleUndo = () => {
+    const entry = editHistory.undo();
+    if (!entry) return;
+    logger.state.history('undo', entry.label);
+    setAnalysis(prev => prev ? applyHistoryEntry(prev, entry, 'undo') : null);
+  };
+
+  const handleRedo = () => {
+    const entry = editHistory.redo();
+    if (!entry) return;
+    logger.state.history('redo', entry.label);
+    setAnalysis(prev => prev ? applyHistoryEntry(prev, entry, 'redo') : null);
+  };
+
+  // Jump to a point in the history panel (null: before the first recorded edit)
+  const handleTravelHistory = (entryId: string | null) => {
+    const { direction, entries } = editHistory.travelTo(entryId);
+    if (entries.length === 0) return;
+    logger.state.history(direction, `${entries.length} entries`);
+    setAnalysis(prev => prev ? entries.reduce((acc, entry) => applyHistoryEntry(acc, entry, direction), prev) : null);
+  };
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo. Text fields keep their own undo.
+  useEffect(() => {
+    if (!analysis) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [!!analysis]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleProviderChange = (id: string) => {
+    logger.ui.buttonClick(`provider-${id}`);
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
   const handleFileSelect = async (file: File) => {
     logger.ui.fileSelected(file.name, file.size, file.type);
 
-    if (!hasKey) {
+    if (!hasKey && getActiveProvider().requiresApiKey) {
         await handleConnectKey();
         const keyNow = await checkApiKey();
         if(!keyNow) return;
@@ -65,6 +363,16 @@ const App: React.FC = () => {
     const url = URL.createObjectURL(file);
     setVideoUrl(url);
 
+    // Each upload starts a new project
+    const project = createProject({
+      name: file.name.replace(/\.[^.]+$/, ''),
+      videoFileName: file.name,
+      videoFileType: file.type,
+      analysisSettings
+    });
+    projectIdRef.current = project.id;
+    saveSourceVideo(project.id, file);
+
     const prevState = state;
     setState(AppState.ANALYZING);
     logger.ui.stateChange(prevState, AppState.ANALYZING);
@@ -75,20 +383,28 @@ const App: React.FC = () => {
     try {
       // 1. Get Aspect Ratio from initial frame (0s)
       logger.api.request('extractFrameFromVideo', { timestamp: 0 });
-      const { width, height } = await extractFrameFromVideo(url, 0);
+      const { base64: firstFrame, width, height } = await extractFrameFromVideo(url, 0);
       const aspectRatio = getClosestAspectRatio(width, height);
       setVideoAspectRatio(aspectRatio);
       logger.api.response('extractFrameFromVideo', `${width}x${height}, aspect: ${aspectRatio}`);
 
-      // 2. Prepare Base64 for Gemini
-      logger.api.request('fileToBase64', { fileName: file.name });
-      const base64Video = await fileToBase64(file);
-      logger.api.response('fileToBase64', `${base64Video.length} chars`);
+      // Project browser thumbnail from the first frame
+      createThumbnail(`data:image/png;base64,${firstFrame}`)
+        .then(thumbnail => saveProject({ id: project.id, thumbnail, videoAspectRatio: aspectRatio }))
+        .catch(err => console.error('[Autosave] Failed to create thumbnail:', err));
+
+      // 2. Send the video inline or upload it
+      const analysisVideo = await prepareAnalysisVideo(file);
 
-      // 3. Analyze
-      setStatusMessage("Gemini is analyzing the timeline for topics...");
-      const result = await analyzeVideoContent(base64Video, file.type);
+      // 3. Analyze, in overlapping windows when the video is long
+      const provider = getActiveProvider();
+      const duration = await getVideoDuration(url);
+      setStatusMessage(`${provider.name} is analyzing the timeline for topics...`);
+      const result = await analyzeVideoInWindows(provider, analysisVideo, duration, { settings: analysisSettings }, (index, total) => {
+        if (total > 1) setStatusMessage(`${provider.name} is analyzing part ${index + 1} of ${total}...`);
+      });
       setAnalysis(result);
+      editHistory.clear();
       logger.state.analysisUpdate(result.segments.length);
       setState(AppState.IDLE); // Stay on timeline landing
       logger.ui.stateChange(AppState.ANALYZING, AppState.IDLE);
@@ -110,24 +426,25 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerateSegmentImage = async (segment: Segment): Promise<string | null> => {
+  const handleGenerateSegmentImage = async (
+    segment: Segment,
+    priority: number = JOB_PRIORITY.USER,
+    variants: number = 1
+  ): Promise<string | null> => {
     logger.ui.buttonClick(`generateImage-${segment.id}`);
     logger.imageGen.start(segment.id, segment.prompt);
 
     if (!analysis || !videoUrl) return null;
 
     // Check key
-    if (!await checkApiKey()) {
-        const success = await promptApiKey();
-        if(!success) return null;
-    }
+    if (!await ensureApiKey()) return null;
 
     // Update Segment Status with initial progress
-    const initialProgress: ImageGenerationProgress = { step: 1, message: 'Starting image generation...' };
+    const initialProgress: ImageGenerationProgress = { step: 1, message: 'Waiting in queue...' };
     logger.state.segmentStatusChange(segment.id, segment.status, 'generating-image');
     setAnalysis(prev => prev ? ({
         ...prev,
-        segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: 'generating-image', generationProgress: initialProgress } : s)
+        segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: 'generating-image', generationProgress: initialProgress, error: undefined, errorKind: undefined } : s)
     }) : null);
 
     // Also update active segment if in detail view
@@ -136,11 +453,13 @@ const App: React.FC = () => {
     }
 
     try {
-        const { base64 } = await extractFrameFromVideo(videoUrl, segment.timestamp);
-
         // Progress callback to update segment with step info and intermediate image
-        const onProgress = (step: 1 | 2, message: string, intermediateImageUrl?: string) => {
-          const progress: ImageGenerationProgress = { step, message, intermediateImageUrl };
+        const onProgress = (variantIndex: number) => (step: 1 | 2, message: string, intermediateImageUrl?: string) => {
+          const progress: ImageGenerationProgress = {
+            step,
+            message: variants > 1 ? `Variant ${variantIndex + 1}/${variants} · ${message}` : message,
+            intermediateImageUrl
+          };
           setAnalysis(prev => prev ? ({
               ...prev,
               segments: prev.segments.map(s => s.id === segment.id ? { ...s, generationProgress: progress } : s)
@@ -151,7 +470,26 @@ const App: React.FC = () => {
           }
         };
 
-        const result = await generateImageAsset(segment.prompt, base64, videoAspectRatio, onProgress, segment.id);
+        // Each variant is its own queue job, so variants run in parallel up to the model's limit
+        const provider = getActiveProvider();
+        const settled = await Promise.allSettled(Array.from({ length: variants }, (_, variantIndex) =>
+          generationQueue.enqueue({
+            kind: 'image',
+            model: provider.models.image,
+            label: variants > 1 ? `${segment.topic} (${variantIndex + 1}/${variants})` : segment.topic,
+            segmentId: segment.id,
+            priority,
+            run: async () => {
+              const { base64 } = await extractFrameFromVideo(videoUrl, segment.timestamp);
+              const prompt = withProjectStyle(segment.prompt, analysisSettings);
+              return provider.generateImage(prompt, base64, videoAspectRatio, onProgress(variantIndex), segment.id, variantIndex);
+            }
+          })
+        ));
+        // Keep whichever variants succeeded; fail only if none did
+        const results = settled.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+        if (results.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+        const result = results[0];
 
         // Detect dominant green color for chroma key
         const dominantGreen = await detectDominantGreenFromDataUrl(result.finalImageUrl);
@@ -166,25 +504,25 @@ const App: React.FC = () => {
           message: 'Complete!',
           intermediateImageUrl: result.intermediateImageUrl
         };
+        const takes = createVariantTakes(results.map(r => r.finalImageUrl), segment.prompt, provider.models.image);
 
         logger.state.segmentStatusChange(segment.id, 'generating-image', 'image-success');
-        setAnalysis(prev => prev ? ({
+        // Recorded in history so a regeneration can be undone back to the previous image
+        applyEdit(`Generate image: ${segment.topic}`, prev => ({
             ...prev,
             segments: prev.segments.map(s => s.id === segment.id ? {
-              ...s,
+              ...addTakes(s, 'image', takes),
               status: 'image-success',
-              imageUrl: result.finalImageUrl,
               chromaKey,
               generationProgress: finalProgress
             } : s)
-        }) : null);
+        }));
 
         // If this was triggered from Detail view, update active segment
         if (activeSegment && activeSegment.id === segment.id) {
             setActiveSegment(prev => prev ? ({
-              ...prev,
+              ...addTakes(prev, 'image', takes),
               status: 'image-success',
-              imageUrl: result.finalImageUrl,
               chromaKey,
               generationProgress: finalProgress
             }) : null);
@@ -193,21 +531,39 @@ const App: React.FC = () => {
         return result.finalImageUrl;
 
     } catch (err: any) {
+        // Cancelled from the queue before it started: put the segment back as it was
+        if (err?.name === 'AbortError') {
+          logger.state.segmentStatusChange(segment.id, 'generating-image', segment.status);
+          setAnalysis(prev => prev ? ({
+              ...prev,
+              segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: segment.status, generationProgress: undefined } : s)
+          }) : null);
+          if (activeSegment && activeSegment.id === segment.id) {
+              setActiveSegment(prev => prev ? ({ ...prev, status: segment.status, generationProgress: undefined }) : null);
+          }
+          return null;
+        }
         console.error(err);
         logger.imageGen.error(segment.id, err);
         logger.state.segmentStatusChange(segment.id, 'generating-image', 'error');
+        const errorKind = err instanceof GenerationError ? err.kind : 'unknown';
         setAnalysis(prev => prev ? ({
             ...prev,
-            segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: 'error', error: err.message, generationProgress: undefined } : s)
+            segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: 'error', error: err.message, errorKind, generationProgress: undefined } : s)
         }) : null);
         if (activeSegment && activeSegment.id === segment.id) {
-            setActiveSegment(prev => prev ? ({ ...prev, status: 'error', error: err.message, generationProgress: undefined }) : null);
+            setActiveSegment(prev => prev ? ({ ...prev, status: 'error', error: err.message, errorKind, generationProgress: undefined }) : null);
         }
         return null;
     }
   };
 
-  const handleGenerateSegmentVideo = async (segment: Segment, overrideImageUrl?: string): Promise<string | null> => {
+  const handleGenerateSegmentVideo = async (
+    segment: Segment,
+    overrideImageUrl?: string,
+    priority: number = JOB_PRIORITY.USER,
+    variants: number = 1
+  ): Promise<string | null> => {
     logger.ui.buttonClick(`generateVideo-${segment.id}`);
     logger.videoGen.start(segment.id, segment.animationPrompt);
 
@@ -220,16 +576,13 @@ const App: React.FC = () => {
     }
 
     // Check key
-    if (!await checkApiKey()) {
-        const success = await promptApiKey();
-        if(!success) return null;
-    }
+    if (!await ensureApiKey()) return null;
 
     // Update Status
     logger.state.segmentStatusChange(segment.id, segment.status, 'generating-video');
     setAnalysis(prev => prev ? ({
         ...prev,
-        segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: 'generating-video' } : s)
+        segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: 'generating-video', error: undefined, errorKind: undefined } : s)
     }) : null);
 
     // Also update active segment if we are in detail view
@@ -237,35 +590,146 @@ const App: React.FC = () => {
         setActiveSegment(prev => prev ? ({...prev, status: 'generating-video'}) : null);
     }
 
-    try {
-        // Extract base64 data from the imageUrl (data URI)
-        const base64Data = imageUrl.split(',')[1];
-        const mimeType = imageUrl.split(':')[1].split(';')[0]; // likely image/png
+    // Extract base64 data from the imageUrl (data URI)
+    const base64Data = imageUrl.split(',')[1];
+    const mimeType = imageUrl.split(':')[1].split(';')[0]; // likely image/png
 
-        // Pass videoAspectRatio to respect input dimensions
-        const videoUri = await generateVeoAnimation(segment.animationPrompt, base64Data, mimeType, videoAspectRatio, segment.id);
+    const controller = new AbortController();
+    videoAbortControllersRef.current.set(segment.id, controller);
 
-        logger.state.segmentStatusChange(segment.id, 'generating-video', 'video-success');
-        setAnalysis(prev => prev ? ({
+    const provider = getActiveProvider();
+
+    // Remember the Veo operation on the segment so polling can resume after a reload
+    const onOperationStarted = (name: string) => {
+      const pendingVideoOperation = { name, startedAt: Date.now(), providerId: provider.id };
+      setAnalysis(prev => prev ? ({
+          ...prev,
+          segments: prev.segments.map(s => s.id === segment.id ? { ...s, pendingVideoOperation } : s)
+      }) : null);
+    };
+
+    // Pass videoAspectRatio to respect input dimensions
+    const request = generationQueue.enqueue({
+      kind: 'video',
+      model: provider.models.video,
+      label: variants > 1 ? `${segment.topic} (×${variants})` : segment.topic,
+      segmentId: segment.id,
+      priority,
+      run: () => provider.animate(segment.animationPrompt, base64Data, mimeType, videoAspectRatio, segment.id, {
+        signal: controller.signal,
+        onOperationStarted,
+        numberOfVideos: variants
+      })
+    });
+
+    const takeSource = { prompt: segment.animationPrompt, model: provider.models.video, sourceImageUrl: imageUrl };
+    return settleSegmentVideo(segment.id, segment.status, controller, request, takeSource);
+  };
+
+  // Apply the outcome of a Veo request (new or resumed) to the segment
+  const settleSegmentVideo = async (
+    segmentId: string,
+    previousStatus: Segment['status'],
+    controller: AbortController,
+    request: Promise<string[]>,
+    takeSource: { prompt: string; model: string; sourceImageUrl?: string }
+  ): Promise<string | null> => {
+    try {
+        const videoUris = await request;
+        const videoUri = videoUris[0];
+        const takes = createVariantTakes(videoUris, takeSource.prompt, takeSource.model);
+        // Pair the clips with the image take they were animated from, looked up when applied
+        // since a freshly generated image take may not have been in the caller's segment
+        const addVideoTake = (s: Segment): Segment => {
+          const sourceImageTakeId = getTakes(s, 'image').find(t => t.url === takeSource.sourceImageUrl)?.id;
+          return addTakes(s, 'video', takes.map(take => ({ ...take, sourceImageTakeId })));
+        };
+
+        logger.state.segmentStatusChange(segmentId, 'generating-video', 'video-success');
+        const topic = analysisRef.current?.segments.find(s => s.id === segmentId)?.topic || segmentId;
+        applyEdit(`Generate video: ${topic}`, prev => ({
             ...prev,
-            segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: 'video-success', videoUrl: videoUri } : s)
-        }) : null);
+            segments: prev.segments.map(s => s.id === segmentId ? { ...addVideoTake(s), status: 'video-success', pendingVideoOperation: undefined } : s)
+        }));
 
-        if (activeSegment && activeSegment.id === segment.id) {
-            setActiveSegment(prev => prev ? ({...prev, status: 'video-success', videoUrl: videoUri}) : null);
+        if (activeSegment && activeSegment.id === segmentId) {
+            setActiveSegment(prev => prev ? ({ ...addVideoTake(prev), status: 'video-success', pendingVideoOperation: undefined }) : null);
         }
 
         return videoUri;
 
     } catch (err: any) {
+        // Cancelled while queued or polling: put the segment back as it was
+        if (err?.name === 'AbortError') {
+          logger.state.segmentStatusChange(segmentId, 'generating-video', previousStatus);
+          setAnalysis(prev => prev ? ({
+              ...prev,
+              segments: prev.segments.map(s => s.id === segmentId ? { ...s, status: previousStatus, pendingVideoOperation: undefined } : s)
+          }) : null);
+          if (activeSegment && activeSegment.id === segmentId) {
+              setActiveSegment(prev => prev ? ({ ...prev, status: previousStatus, pendingVideoOperation: undefined }) : null);
+          }
+          return null;
+        }
         console.error(err);
-        logger.videoGen.error(segment.id, err);
-        logger.state.segmentStatusChange(segment.id, 'generating-video', 'error');
+        logger.videoGen.error(segmentId, err);
+        logger.state.segmentStatusChange(segmentId, 'generating-video', 'error');
+        const errorKind = err instanceof GenerationError ? err.kind : 'unknown';
         setAnalysis(prev => prev ? ({
             ...prev,
-            segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: 'error', error: err.message } : s)
+            segments: prev.segments.map(s => s.id === segmentId ? { ...s, status: 'error', error: err.message, errorKind, pendingVideoOperation: undefined } : s)
         }) : null);
+        if (activeSegment && activeSegment.id === segmentId) {
+            setActiveSegment(prev => prev ? ({ ...prev, status: 'error', error: err.message, errorKind, pendingVideoOperation: undefined }) : null);
+        }
         return null;
+    } finally {
+        if (videoAbortControllersRef.current.get(segmentId) === controller) {
+          videoAbortControllersRef.current.delete(segmentId);
+        }
+    }
+  };
+
+  // Stop waiting for a segment's clip, whether it is still queued or already polling Veo
+  const handleCancelSegmentVideo = (segment: Segment) => {
+    logger.ui.buttonClick(`cancelVideo-${segment.id}`);
+    logger.videoGen.cancelled(segment.id);
+    generationQueue.cancelSegment(segment.id);
+    videoAbortControllersRef.current.get(segment.id)?.abort();
+  };
+
+  // Veo operations that were still running when the project was last open
+  const resumePendingVideos = (segments: Segment[]) => {
+    segments.forEach(segment => {
+      if (!segment.pendingVideoOperation) return;
+      const { name, startedAt, providerId: operationProviderId } = segment.pendingVideoOperation;
+      const previousStatus = segment.imageUrl ? 'image-success' : 'idle';
+      const provider = getProvider(operationProviderId || DEFAULT_PROVIDER_ID);
+
+      if (!provider?.resumeAnimation) {
+        console.warn('[Provider] Cannot resume video operation', name);
+        setAnalysis(prev => prev ? ({
+          ...prev,
+          segments: prev.segments.map(s => s.id === segment.id ? { ...s, status: previousStatus, pendingVideoOperation: undefined } : s)
+        }) : null);
+        return;
+      }
+
+      const controller = new AbortController();
+      videoAbortControllersRef.current.set(segment.id, controller);
+      const takeSource = { prompt: segment.animationPrompt, model: provider.models.video, sourceImageUrl: segment.imageUrl };
+      settleSegmentVideo(segment.id, previousStatus, controller, provider.resumeAnimation(name, startedAt, segment.id, { signal: controller.signal }), takeSource);
+    });
+  };
+
+  // Re-run whichever step failed: the animation if the segment already has an image, otherwise the image
+  const handleRetrySegment = async (segment: Segment) => {
+    logger.ui.buttonClick(`retry-${segment.id}`);
+    const latestSegment = analysis?.segments.find(s => s.id === segment.id) || segment;
+    if (latestSegment.imageUrl) {
+      await handleGenerateSegmentVideo(latestSegment);
+    } else {
+      await handleGenerateSegmentImage(latestSegment);
     }
   };
 
@@ -277,6 +741,110 @@ const App: React.FC = () => {
     logger.ui.stateChange(prevState, AppState.DETAIL_VIEW);
   };
 
+  // Batch "generate all" pipeline
+  // ------------------------------------------------------------
+
+  // Text segments are drawn rather than generated, so the pipeline leaves them out
+  const getGeneratedSegments = (segments: Segment[]) => segments.filter(s => !s.textOverlay);
+
+  const getPipelineProgress = (allSegments: Segment[]): GenerationPipelineState['progress'] => {
+    const segments = getGeneratedSegments(allSegments);
+    return {
+      promptsGenerated: segments.filter(s => !!s.prompt).length,
+      imagesGenerated: segments.filter(s => !!s.imageUrl).length,
+      videosGenerated: segments.filter(s => !!s.videoUrl).length,
+      totalSegments: segments.length
+    };
+  };
+
+  // Blocks while paused; returns false once the pipeline has been stopped
+  const waitWhilePaused = async (): Promise<boolean> => {
+    while (pauseGenerationRef.current && !stopGenerationRef.current) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+    return !stopGenerationRef.current;
+  };
+
+  const runPipelinePhase = async (phase: 'images' | 'videos', segmentIds: string[]): Promise<boolean> => {
+    logger.pipeline.phaseChange(phase);
+    setPipelineState(prev => ({ ...prev, currentPhase: phase }));
+
+    for (const segmentId of segmentIds) {
+      if (!await waitWhilePaused()) return false;
+
+      // Re-read the segment: earlier steps (or the user) may have changed it
+      const segment = analysisRef.current?.segments.find(s => s.id === segmentId);
+      if (!segment || segment.status === 'generating-image' || segment.status === 'generating-video') continue;
+
+      if (phase === 'images') {
+        if (segment.imageUrl || segment.status === 'image-success' || segment.status === 'video-success') continue;
+        await handleGenerateSegmentImage(segment, JOB_PRIORITY.BATCH);
+      } else {
+        if (!segment.imageUrl || segment.videoUrl || segment.status === 'video-success') continue;
+        await handleGenerateSegmentVideo(segment, undefined, JOB_PRIORITY.BATCH);
+      }
+
+      const progress = getPipelineProgress(analysisRef.current?.segments || []);
+      logger.pipeline.progress(progress);
+      setPipelineState(prev => ({ ...prev, progress }));
+    }
+    return !stopGenerationRef.current;
+  };
+
+  const handleRunPipeline = async () => {
+    logger.ui.buttonClick('runPipeline');
+    if (!analysis || pipelineState.isRunning) return;
+
+    if (!await ensureApiKey()) return;
+
+    stopGenerationRef.current = false;
+    pauseGenerationRef.current = false;
+    const segmentIds = getGeneratedSegments(analysis.segments).map(s => s.id);
+    logger.pipeline.start(segmentIds.length);
+    setPipelineState({
+      isRunning: true,
+      isPaused: false,
+      currentPhase: 'images',
+      progress: getPipelineProgress(analysis.segments)
+    });
+
+    const completed = await runPipelinePhase('images', segmentIds) && await runPipelinePhase('videos', segmentIds);
+
+    const progress = getPipelineProgress(analysisRef.current?.segments || []);
+    if (completed) {
+      logger.pipeline.complete();
+    } else {
+      logger.pipeline.stopped();
+    }
+    setPipelineState({
+      isRunning: false,
+      isPaused: false,
+      currentPhase: completed ? 'complete' : 'idle',
+      progress
+    });
+  };
+
+  const handlePausePipeline = () => {
+    logger.ui.buttonClick('pausePipeline');
+    pauseGenerationRef.current = true;
+    logger.pipeline.paused();
+    setPipelineState(prev => ({ ...prev, isPaused: true }));
+  };
+
+  const handleResumePipeline = () => {
+    logger.ui.buttonClick('resumePipeline');
+    pauseGenerationRef.current = false;
+    logger.pipeline.resumed();
+    setPipelineState(prev => ({ ...prev, isPaused: false }));
+  };
+
+  // Stops after the in-flight generation finishes
+  const handleStopPipeline = () => {
+    logger.ui.buttonClick('stopPipeline');
+    stopGenerationRef.current = true;
+    pauseGenerationRef.current = false;
+  };
+
   const handleBackToTimeline = () => {
     logger.ui.buttonClick('backToTimeline');
     setActiveSegment(null);
@@ -303,12 +871,12 @@ const App: React.FC = () => {
 
   const handleUpdateSegmentPrompts = (segmentId: string, prompt: string, animationPrompt: string) => {
     logger.prompt.updated(segmentId, prompt, animationPrompt);
-    setAnalysis(prev => prev ? ({
+    applyEdit('Edit prompts', prev => ({
       ...prev,
       segments: prev.segments.map(s =>
         s.id === segmentId ? { ...s, prompt, animationPrompt } : s
       )
-    }) : null);
+    }), `prompts-${segmentId}`);
 
     // Also update active segment if viewing it
     if (activeSegment && activeSegment.id === segmentId) {
@@ -316,83 +884,150 @@ const App: React.FC = () => {
     }
   };
 
-  const handleRegenerateImage = async (segment: Segment) => {
+  const handleRegenerateImage = async (segment: Segment, variants: number = 1) => {
     logger.ui.buttonClick(`regenerateImage-${segment.id}`);
     // Get the latest segment data from analysis (in case prompts were just updated)
     const latestSegment = analysis?.segments.find(s => s.id === segment.id);
     if (!latestSegment) return;
 
-    // Clear existing image/video and regenerate
+    // Clear existing image/video and regenerate. The current results stay available as takes.
+    const { imageTakes, videoTakes } = withCurrentMediaAsTakes(latestSegment);
     logger.state.segmentStatusChange(segment.id, segment.status, 'idle');
-    setAnalysis(prev => prev ? ({
+    applyEdit(`Regenerate image: ${segment.topic}`, prev => ({
       ...prev,
       segments: prev.segments.map(s =>
-        s.id === segment.id ? { ...s, imageUrl: undefined, videoUrl: undefined, status: 'idle' } : s
+        s.id === segment.id ? { ...s, imageTakes, videoTakes, imageUrl: undefined, videoUrl: undefined, status: 'idle' } : s
       )
-    }) : null);
+    }));
 
     if (activeSegment && activeSegment.id === segment.id) {
-      setActiveSegment(prev => prev ? ({ ...prev, imageUrl: undefined, videoUrl: undefined, status: 'idle' }) : null);
+      setActiveSegment(prev => prev ? ({ ...prev, imageTakes, videoTakes, imageUrl: undefined, videoUrl: undefined, status: 'idle' }) : null);
     }
 
     // Generate new image
-    await handleGenerateSegmentImage({ ...latestSegment, status: 'idle', imageUrl: undefined, videoUrl: undefined });
+    await handleGenerateSegmentImage({ ...latestSegment, imageTakes, videoTakes, status: 'idle', imageUrl: undefined, videoUrl: undefined }, JOB_PRIORITY.USER, variants);
   };
 
-  const handleRegenerateVideo = async (segment: Segment) => {
+  const handleRegenerateVideo = async (segment: Segment, variants: number = 1) => {
     logger.ui.buttonClick(`regenerateVideo-${segment.id}`);
     // Get the latest segment data from analysis
     const latestSegment = analysis?.segments.find(s => s.id === segment.id);
     if (!latestSegment || !latestSegment.imageUrl) return;
 
-    // Clear existing video and regenerate (keep the image)
+    // Clear existing video and regenerate (keep the image). The current clip stays available as a take.
+    const { imageTakes, videoTakes } = withCurrentMediaAsTakes(latestSegment);
     logger.state.segmentStatusChange(segment.id, segment.status, 'image-success');
-    setAnalysis(prev => prev ? ({
+    applyEdit(`Regenerate video: ${segment.topic}`, prev => ({
       ...prev,
       segments: prev.segments.map(s =>
-        s.id === segment.id ? { ...s, videoUrl: undefined, status: 'image-success' } : s
+        s.id === segment.id ? { ...s, imageTakes, videoTakes, videoUrl: undefined, status: 'image-success' } : s
       )
-    }) : null);
+    }));
 
     if (activeSegment && activeSegment.id === segment.id) {
-      setActiveSegment(prev => prev ? ({ ...prev, videoUrl: undefined, status: 'image-success' }) : null);
+      setActiveSegment(prev => prev ? ({ ...prev, imageTakes, videoTakes, videoUrl: undefined, status: 'image-success' }) : null);
     }
 
     // Generate new video
-    await handleGenerateSegmentVideo({ ...latestSegment, videoUrl: undefined, status: 'image-success' });
+    await handleGenerateSegmentVideo({ ...latestSegment, imageTakes, videoTakes, videoUrl: undefined, status: 'image-success' }, undefined, JOB_PRIORITY.USER, variants);
+  };
+
+  // Use a file the designer already has (a logo, a chart, a green-screen clip) as the segment's overlay.
+  // It becomes a take like a generated result, so the previous media stays one click away.
+  const handleUploadSegmentMedia = async (segment: Segment, file: File): Promise<void> => {
+    logger.ui.fileSelected(file.name, file.size, file.type);
+    const isVideo = file.type.startsWith('video/');
+
+    // A clip is paired with its first frame as the image take, which also keys it and serves as its thumbnail
+    let imageUrl: string;
+    let clipUrl: string | undefined;
+    if (isVideo) {
+      clipUrl = URL.createObjectURL(file);
+      try {
+        const { base64 } = await extractFrameFromVideo(clipUrl, 0);
+        imageUrl = `data:image/png;base64,${base64}`;
+      } catch (err) {
+        URL.revokeObjectURL(clipUrl);
+        throw err;
+      }
+    } else {
+      imageUrl = `data:${file.type};base64,${await fileToBase64(file)}`;
+    }
+
+    const dominantGreen = await detectDominantGreenFromDataUrl(imageUrl);
+    logger.imageGen.chromaDetected(segment.id, dominantGreen);
+    const chromaKey = {
+      ...DEFAULT_CHROMA_KEY_SETTINGS,
+      keyColor: dominantGreen
+    };
+
+    const prompt = `Uploaded: ${file.name}`;
+    const imageTake = createTake(imageUrl, prompt, UPLOAD_MODEL);
+    const videoTake = clipUrl ? createTake(clipUrl, prompt, UPLOAD_MODEL, imageTake.id) : undefined;
+    const status: Segment['status'] = videoTake ? 'video-success' : 'image-success';
+    // An uploaded image replaces the clip too, since that clip was animated from the old image
+    const withUpload = (s: Segment): Segment => {
+      const updated = addTakes(withCurrentMediaAsTakes(s), 'image', [imageTake]);
+      return {
+        ...(videoTake ? addTakes(updated, 'video', [videoTake]) : { ...updated, videoUrl: undefined }),
+        status,
+        chromaKey,
+        error: undefined,
+        errorKind: undefined,
+        generationProgress: undefined
+      };
+    };
+
+    logger.state.segmentStatusChange(segment.id, segment.status, status);
+    applyEdit(`Upload ${isVideo ? 'clip' : 'image'}: ${segment.topic}`, prev => ({
+      ...prev,
+      segments: prev.segments.map(s => s.id === segment.id ? withUpload(s) : s)
+    }));
+
+    if (activeSegment && activeSegment.id === segment.id) {
+      setActiveSegment(prev => prev ? withUpload(prev) : null);
+    }
   };
 
   const handleUpdateSegmentDuration = (segmentId: string, newDuration: number) => {
     logger.state.segmentStatusChange(segmentId, 'duration', `${newDuration}s`);
-    setAnalysis(prev => prev ? ({
+    applyEdit('Change duration', prev => ({
       ...prev,
       segments: prev.segments.map(s =>
         s.id === segmentId ? { ...s, duration: newDuration } : s
       )
-    }) : null);
+    }), `timing-${segmentId}`);
   };
 
   const handleUpdateSegmentTimestamp = (segmentId: string, newTimestamp: number) => {
     logger.state.segmentStatusChange(segmentId, 'timestamp', `${newTimestamp}s`);
-    setAnalysis(prev => {
-      if (!prev) return null;
+    applyEdit('Move segment', prev => {
       const updatedSegments = prev.segments.map(s =>
         s.id === segmentId ? { ...s, timestamp: newTimestamp, formattedTime: formatTime(newTimestamp) } : s
       );
       // Sort segments by timestamp after update
       updatedSegments.sort((a, b) => a.timestamp - b.timestamp);
       return { ...prev, segments: updatedSegments };
-    });
+    }, `timing-${segmentId}`);
   };
 
   const handleUpdateChromaKey = (segmentId: string, settings: ChromaKeySettings) => {
     logger.state.chromaKeyUpdate(segmentId, settings);
-    setAnalysis(prev => prev ? ({
-      ...prev,
-      segments: prev.segments.map(s =>
-        s.id === segmentId ? { ...s, chromaKey: settings } : s
-      )
-    }) : null);
+    const editId = crypto.randomUUID();
+    setAnalysis(prev => {
+      if (!prev) return null;
+      const next = {
+        ...prev,
+        segments: prev.segments.map(s =>
+          s.id === segmentId ? { ...s, chromaKey: settings } : s
+        )
+      };
+      // Filling in defaults for a segment that never had settings isn't a user edit
+      if (prev.segments.find(s => s.id === segmentId)?.chromaKey) {
+        editHistory.record(editId, 'Chroma key', prev, next, `chroma-${segmentId}`);
+      }
+      return next;
+    });
 
     // Also update active segment if viewing it
     if (activeSegment && activeSegment.id === segmentId) {
@@ -401,12 +1036,12 @@ const App: React.FC = () => {
   };
 
   const handleUpdateOverlayTransform = (segmentId: string, transform: OverlayTransform) => {
-    setAnalysis(prev => prev ? ({
+    applyEdit('Move overlay', prev => ({
       ...prev,
       segments: prev.segments.map(s =>
         s.id === segmentId ? { ...s, overlayTransform: transform } : s
       )
-    }) : null);
+    }), `transform-${segmentId}`);
 
     // Also update active segment if viewing it
     if (activeSegment && activeSegment.id === segmentId) {
@@ -414,6 +1049,337 @@ const App: React.FC = () => {
     }
   };
 
+  const handleUpdateKeyframes = (segmentId: string, keyframes: OverlayKeyframe[]) => {
+    logger.state.keyframesUpdate(segmentId, keyframes.length);
+    applyEdit('Edit keyframes', prev => ({
+      ...prev,
+      segments: prev.segments.map(s =>
+        s.id === segmentId ? { ...s, keyframes: keyframes.length > 0 ? keyframes : undefined } : s
+      )
+    }), `keyframes-${segmentId}`);
+  };
+
+  const handleUpdateTransition = (segmentId: string, edge: TransitionEdge, transition: SegmentTransition) => {
+    logger.state.segmentStatusChange(segmentId, `transition-${edge}`, `${transition.type} ${transition.duration}s`);
+    const key = edge === 'in' ? 'transitionIn' : 'transitionOut';
+    applyEdit(`Change ${edge} transition`, prev => ({
+      ...prev,
+      segments: prev.segments.map(s =>
+        s.id === segmentId ? { ...s, [key]: transition } : s
+      )
+    }), `transition-${edge}-${segmentId}`);
+  };
+
+  // Overlay tracks. Projects without tracks start from the default one the first time they're edited.
+  const handleAddTrack = () => {
+    logger.ui.buttonClick('addTrack');
+    applyEdit('Add track', prev => {
+      const tracks = getTracks(prev.tracks);
+      return { ...prev, tracks: [...tracks, createTrack(tracks)] };
+    });
+  };
+
+  const handleUpdateTrack = (trackId: string, updates: Partial<Track>) => {
+    logger.state.trackUpdate(trackId, JSON.stringify(updates));
+    const label = updates.visible !== undefined ? (updates.visible ? 'Show track' : 'Hide track')
+      : updates.locked !== undefined ? (updates.locked ? 'Lock track' : 'Unlock track')
+      : updates.solo !== undefined ? (updates.solo ? 'Solo track' : 'Unsolo track')
+      : 'Change track';
+    applyEdit(label, prev => ({
+      ...prev,
+      tracks: getTracks(prev.tracks).map(t => t.id === trackId ? { ...t, ...updates } : t)
+    }));
+  };
+
+  // direction 1 moves the track up (drawn over the next track), -1 moves it down
+  const handleMoveTrack = (trackId: string, direction: 1 | -1) => {
+    logger.state.trackUpdate(trackId, direction === 1 ? 'moved up' : 'moved down');
+    applyEdit('Reorder tracks', prev => {
+      const tracks = [...getTracks(prev.tracks)];
+      const index = tracks.findIndex(t => t.id === trackId);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= tracks.length) return prev;
+      [tracks[index], tracks[target]] = [tracks[target], tracks[index]];
+      // Pin segments to their track so the bottom-track fallback doesn't move them along
+      const segments = prev.segments.map(s => s.trackId ? s : { ...s, trackId: getSegmentTrack(s, getTracks(prev.tracks)).id });
+      return { ...prev, tracks, segments };
+    });
+  };
+
+  const handleDeleteTrack = (trackId: string) => {
+    logger.state.trackUpdate(trackId, 'deleted');
+    applyEdit('Delete track', prev => {
+      const tracks = getTracks(prev.tracks);
+      const remaining = tracks.filter(t => t.id !== trackId);
+      if (remaining.length === 0) return prev;
+      // Segments on the deleted track move to the bottom remaining track
+      const segments = prev.segments.map(s =>
+        getSegmentTrack(s, tracks).id === trackId ? { ...s, trackId: remaining[0].id } : s
+      );
+      return { ...prev, tracks: remaining, segments };
+    });
+  };
+
+  const handleUpdateSegmentTrack = (segmentId: string, trackId: string) => {
+    logger.state.trackUpdate(trackId, `segment ${segmentId} moved in`);
+    applyEdit('Move segment to track', prev => ({
+      ...prev,
+      segments: prev.segments.map(s =>
+        s.id === segmentId ? { ...s, trackId } : s
+      )
+    }));
+  };
+
+  // Without a time, the new segment goes right after the last one
+  const handleAddSegment = (time?: number, trackId?: string) => {
+    const segments = analysisRef.current?.segments || [];
+    const lastEnd = Math.max(0, ...segments.map(s => s.timestamp + (s.duration || 5)));
+    const segment = createSegment(time ?? lastEnd, trackId);
+    logger.state.segmentEdit('add', segment.id);
+    applyEdit('Add segment', prev => ({
+      ...prev,
+      segments: [...prev.segments, segment].sort((a, b) => a.timestamp - b.timestamp)
+    }));
+  };
+
+  // A segment spanning a phrase picked in the transcript, titled with what is said
+  const handleCreateSegmentFromPhrase = (start: number, end: number, text: string, trackId?: string) => {
+    const words = text.split(/\s+/);
+    const segment: Segment = {
+      ...createSegment(start, trackId),
+      topic: words.length > 6 ? `${words.slice(0, 6).join(' ')}…` : text,
+      description: `"${text}"`,
+      duration: Math.max(MIN_SEGMENT_DURATION, Math.round((end - start) * 100) / 100)
+    };
+    logger.state.segmentEdit('add', segment.id);
+    applyEdit('Add segment from transcript', prev => ({
+      ...prev,
+      segments: [...prev.segments, segment].sort((a, b) => a.timestamp - b.timestamp)
+    }));
+  };
+
+  const handleAddTextSegment = (kind: TextOverlayKind, time: number, trackId?: string) => {
+    const segment = createTextSegment(kind, time, trackId);
+    logger.state.segmentEdit('add', segment.id);
+    applyEdit(`Add ${TEXT_OVERLAY_KIND_LABELS[kind].toLowerCase()}`, prev => ({
+      ...prev,
+      segments: [...prev.segments, segment].sort((a, b) => a.timestamp - b.timestamp)
+    }));
+  };
+
+  // Asset library. Placing an asset creates a segment pre-filled with its media, prompts and look.
+  const handleSaveSegmentToLibrary = async (segment: Segment): Promise<void> => {
+    logger.ui.buttonClick(`saveToLibrary-${segment.id}`);
+    const asset = await addAssetFromSegment(segment);
+    logger.state.assetLibraryUpdate(`added ${asset.id} from segment ${segment.id}`);
+    refreshAssets();
+  };
+
+  const handleUpdateAsset = (assetId: string, changes: Partial<Pick<LibraryAsset, 'name' | 'tags'>>) => {
+    updateAsset(assetId, changes);
+    refreshAssets();
+  };
+
+  const handleDeleteAsset = (assetId: string) => {
+    logger.state.assetLibraryUpdate(`deleted ${assetId}`);
+    deleteAsset(assetId);
+    refreshAssets();
+  };
+
+  const handleAddSegmentFromAsset = async (asset: LibraryAsset, time: number, trackId?: string): Promise<void> => {
+    const { imageUrl, videoUrl } = await loadAssetMedia(asset);
+    const imageTake = createTake(imageUrl, asset.prompt, LIBRARY_MODEL);
+    const videoTake = videoUrl ? createTake(videoUrl, asset.animationPrompt, LIBRARY_MODEL, imageTake.id) : undefined;
+    const placed = createSegment(time, trackId);
+    const segment: Segment = {
+      ...placed,
+      topic: asset.name,
+      prompt: asset.prompt,
+      animationPrompt: asset.animationPrompt,
+      imageUrl,
+      videoUrl,
+      imageTakes: [imageTake],
+      videoTakes: videoTake ? [videoTake] : undefined,
+      status: videoTake ? 'video-success' : 'image-success',
+      chromaKey: asset.chromaKey || { ...DEFAULT_CHROMA_KEY_SETTINGS },
+      overlayTransform: asset.overlayTransform,
+      duration: asset.duration || placed.duration
+    };
+    logger.state.segmentEdit('add', segment.id);
+    logger.state.assetLibraryUpdate(`placed ${asset.id} as segment ${segment.id}`);
+    applyEdit(`Add from library: ${asset.name}`, prev => ({
+      ...prev,
+      segments: [...prev.segments, segment].sort((a, b) => a.timestamp - b.timestamp)
+    }));
+  };
+
+  // The segment's topic follows its text so the timeline and segment list stay readable
+  const handleUpdateTextOverlay = (segmentId: string, changes: Partial<TextOverlay>) => {
+    applyEdit('Edit text', prev => ({
+      ...prev,
+      segments: prev.segments.map(s => {
+        if (s.id !== segmentId || !s.textOverlay) return s;
+        const textOverlay = { ...s.textOverlay, ...changes };
+        return { ...s, textOverlay, topic: textOverlay.text.trim() || TEXT_OVERLAY_KIND_LABELS[textOverlay.kind] };
+      })
+    }), `text-${segmentId}`);
+  };
+
+  // Captions. Creating them again from the transcript keeps the track's style.
+  const handleCreateCaptions = () => {
+    const cues = createCaptionCues(analysisRef.current?.transcript || []);
+    logger.state.captionsUpdate(`created ${cues.length} cues`);
+    applyEdit('Create captions', prev => ({
+      ...prev,
+      captions: { cues, style: prev.captions?.style || { ...DEFAULT_CAPTION_STYLE }, visible: true }
+    }));
+  };
+
+  const handleAddCaptionCue = (time: number) => {
+    const cue: CaptionCue = { id: crypto.randomUUID(), start: time, end: time + 2, text: '' };
+    applyEdit('Add caption', prev => prev.captions ? ({
+      ...prev,
+      captions: { ...prev.captions, cues: [...prev.captions.cues, cue].sort((a, b) => a.start - b.start) }
+    }) : prev);
+  };
+
+  // A cue always stays at least MIN_CAPTION_SEC long: moving its start pushes the end along
+  const handleUpdateCaptionCue = (cueId: string, changes: Partial<Omit<CaptionCue, 'id'>>) => {
+    const label = changes.text !== undefined ? 'Edit caption text' : 'Change caption timing';
+    applyEdit(label, prev => {
+      if (!prev.captions) return prev;
+      const cues = prev.captions.cues.map(cue => {
+        if (cue.id !== cueId) return cue;
+        const start = Math.max(0, changes.start ?? cue.start);
+        const end = Math.max(start + MIN_CAPTION_SEC, changes.end ?? cue.end);
+        return { ...cue, ...changes, start, end };
+      });
+      cues.sort((a, b) => a.start - b.start);
+      return { ...prev, captions: { ...prev.captions, cues } };
+    }, `caption-${changes.text !== undefined ? 'text' : 'timing'}-${cueId}`);
+  };
+
+  const handleDeleteCaptionCue = (cueId: string) => {
+    applyEdit('Delete caption', prev => prev.captions ? ({
+      ...prev,
+      captions: { ...prev.captions, cues: prev.captions.cues.filter(cue => cue.id !== cueId) }
+    }) : prev);
+  };
+
+  const handleUpdateCaptions = (changes: Partial<Omit<CaptionTrack, 'cues'>>) => {
+    logger.state.captionsUpdate(JSON.stringify(changes));
+    const label = changes.visible !== undefined ? (changes.visible ? 'Show captions' : 'Hide captions') : 'Caption style';
+    applyEdit(label, prev => prev.captions ? ({
+      ...prev,
+      captions: { ...prev.captions, ...changes }
+    }) : prev, changes.style ? 'caption-style' : undefined);
+  };
+
+  const handleDeleteSegment = (segmentId: string) => {
+    logger.state.segmentEdit('delete', segmentId);
+    // Stop any generation for it; an image request already running finishes and is discarded
+    generationQueue.cancelSegment(segmentId);
+    videoAbortControllersRef.current.get(segmentId)?.abort();
+    applyEdit('Delete segment', prev => ({
+      ...prev,
+      segments: prev.segments.filter(s => s.id !== segmentId)
+    }));
+  };
+
+  // Without a time, the segment is split in the middle
+  const handleSplitSegment = (segmentId: string, time?: number) => {
+    const segment = analysisRef.current?.segments.find(s => s.id === segmentId);
+    if (!segment) return;
+    const splitTime = time ?? segment.timestamp + (segment.duration || 5) / 2;
+    if (!canSplitAt(segment, splitTime)) return;
+    const [first, second] = splitSegment(segment, splitTime);
+    logger.state.segmentEdit('split', segmentId);
+    applyEdit('Split segment', prev => ({
+      ...prev,
+      segments: prev.segments
+        .flatMap(s => s.id === segmentId ? [first, second] : [s])
+        .sort((a, b) => a.timestamp - b.timestamp)
+    }));
+  };
+
+  // Merge a segment with the next one on its track
+  const handleMergeSegment = (segmentId: string) => {
+    const current = analysisRef.current;
+    const segment = current?.segments.find(s => s.id === segmentId);
+    if (!current || !segment) return;
+    const next = getNextSegmentOnTrack(current.segments, segment, getTracks(current.tracks));
+    if (!next) return;
+    logger.state.segmentEdit('merge', segmentId);
+    generationQueue.cancelSegment(next.id);
+    videoAbortControllersRef.current.get(next.id)?.abort();
+    applyEdit('Merge segments', prev => ({
+      ...prev,
+      segments: prev.segments
+        .filter(s => s.id !== next.id)
+        .map(s => s.id === segmentId ? mergeSegments(s, next) : s)
+    }));
+  };
+
+  // Re-run analysis on part of the video and merge the new segments in. Errors are left
+  // for the caller to show next to the range controls.
+  const handleReanalyzeRange = async (range: TimeRange, instructions: string): Promise<void> => {
+    logger.ui.buttonClick('reanalyzeRange');
+    if (!videoFile || !analysisRef.current) return;
+    if (!await ensureApiKey()) return;
+
+    const analysisVideo = await prepareAnalysisVideo(videoFile);
+    const duration = videoUrl ? await getVideoDuration(videoUrl) : 0;
+    const result = await analyzeVideoInWindows(getActiveProvider(), analysisVideo, duration, {
+      range,
+      instructions: instructions.trim() || undefined,
+      settings: analysisSettings
+    });
+    // Model-assigned ids ("1", "2"...) would collide with the segments already on the timeline
+    const incoming = result.segments.map(s => ({ ...s, id: crypto.randomUUID() }));
+    logger.state.rangeAnalysis(range.start, range.end, incoming.length);
+
+    applyEdit(`Re-analyze ${formatTime(range.start)}–${formatTime(range.end)}`, prev => ({
+      ...prev,
+      segments: replaceSegmentsInRange(prev.segments, incoming, range, getTracks(prev.tracks)),
+      transcript: replaceTranscriptRange(prev.transcript, result.transcript, range)
+    }));
+  };
+
+  const handleUpdateAnalysisSettings = (settings: AnalysisSettings) => {
+    logger.state.analysisSettingsUpdate(settings);
+    setAnalysisSettings(settings);
+    // Before the first analysis autosave doesn't run yet, so store the settings now
+    if (projectIdRef.current && !analysisRef.current) saveProject({ id: projectIdRef.current, analysisSettings: settings });
+  };
+
+  const handleSelectTake = (segmentId: string, kind: TakeKind, takeId: string) => {
+    logger.state.takeSelected(segmentId, kind, takeId);
+    applyEdit(`Use ${kind} take`, prev => ({
+      ...prev,
+      segments: prev.segments.map(s =>
+        s.id === segmentId ? selectTake(s, kind, takeId) : s
+      )
+    }));
+
+    if (activeSegment && activeSegment.id === segmentId) {
+      setActiveSegment(prev => prev ? selectTake(prev, kind, takeId) : null);
+    }
+  };
+
+  const handleDeleteTake = (segmentId: string, kind: TakeKind, takeId: string) => {
+    logger.ui.buttonClick(`deleteTake-${takeId}`);
+    applyEdit(`Delete ${kind} take`, prev => ({
+      ...prev,
+      segments: prev.segments.map(s =>
+        s.id === segmentId ? deleteTake(s, kind, takeId) : s
+      )
+    }));
+
+    if (activeSegment && activeSegment.id === segmentId) {
+      setActiveSegment(prev => prev ? deleteTake(prev, kind, takeId) : null);
+    }
+  };
+
   const handleReset = () => {
     logger.ui.buttonClick('reset');
     logger.ui.stateChange(state, AppState.IDLE);
@@ -422,10 +1388,19 @@ const App: React.FC = () => {
     setState(AppState.IDLE);
     setVideoFile(null);
     setAnalysis(null);
+    editHistory.clear();
     setActiveSegment(null);
     setError(null);
-    setIsBatchProcessing(false);
     stopGenerationRef.current = true;
+    pauseGenerationRef.current = false;
+    generationQueue.cancelAll();
+    videoAbortControllersRef.current.forEach(controller => controller.abort());
+    // Keep analyzed projects in the browser; drop ones that never got past upload
+    if (projectIdRef.current && !loadProject(projectIdRef.current)?.analysis) {
+      deleteProject(projectIdRef.current);
+    }
+    projectIdRef.current = null;
+    refreshProjects();
     setPipelineState({
       isRunning: false,
       isPaused: false,
@@ -450,10 +1425,69 @@ const App: React.FC = () => {
         onUpdateSegmentTimestamp={handleUpdateSegmentTimestamp}
         onUpdateChromaKey={handleUpdateChromaKey}
         onUpdateOverlayTransform={handleUpdateOverlayTransform}
-        hasKey={hasKey}
+        onUpdateKeyframes={handleUpdateKeyframes}
+        onUpdateTransition={handleUpdateTransition}
+        onAddTrack={handleAddTrack}
+        onUpdateTrack={handleUpdateTrack}
+        onMoveTrack={handleMoveTrack}
+        onDeleteTrack={handleDeleteTrack}
+        onUpdateSegmentTrack={handleUpdateSegmentTrack}
+        hasKey={hasKey || !getProvider(providerId)?.requiresApiKey}
+        providerId={providerId}
+        onProviderChange={handleProviderChange}
         onConnectKey={handleConnectKey}
         onGenerateSegmentImage={handleGenerateSegmentImage}
         onGenerateSegmentVideo={handleGenerateSegmentVideo}
+        onShowProjects={handleShowProjects}
+        onRetrySegment={handleRetrySegment}
+        onCancelSegmentVideo={handleCancelSegmentVideo}
+        onRunPipeline={handleRunPipeline}
+        onPausePipeline={handlePausePipeline}
+        onResumePipeline={handleResumePipeline}
+        onStopPipeline={handleStopPipeline}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onTravelHistory={handleTravelHistory}
+        onAddSegment={handleAddSegment}
+        onDeleteSegment={handleDeleteSegment}
+        onSplitSegment={handleSplitSegment}
+        onMergeSegment={handleMergeSegment}
+        onReanalyzeRange={videoFile ? handleReanalyzeRange : undefined}
+        onCreateSegmentFromPhrase={handleCreateSegmentFromPhrase}
+        onCreateCaptions={handleCreateCaptions}
+        onAddCaptionCue={handleAddCaptionCue}
+        onUpdateCaptionCue={handleUpdateCaptionCue}
+        onDeleteCaptionCue={handleDeleteCaptionCue}
+        onUpdateCaptions={handleUpdateCaptions}
+        onAddTextSegment={handleAddTextSegment}
+        onUpdateTextOverlay={handleUpdateTextOverlay}
+        onUploadSegmentMedia={handleUploadSegmentMedia}
+        assets={assets}
+        onSaveSegmentToLibrary={handleSaveSegmentToLibrary}
+        onUpdateAsset={handleUpdateAsset}
+        onDeleteAsset={handleDeleteAsset}
+        onAddSegmentFromAsset={handleAddSegmentFromAsset}
+        analysisSettings={analysisSettings}
+        onUpdateAnalysisSettings={handleUpdateAnalysisSettings}
+        missingSourceVideo={missingSourceVideo}
+        onRelinkVideo={handleRelinkSourceVideo}
+      />
+    );
+  }
+
+  if (state === AppState.PROJECTS) {
+    return (
+      <ProjectBrowser
+        projects={projects}
+        currentProjectId={projectIdRef.current}
+        onOpenProject={handleOpenProject}
+        onCreateProject={handleCreateProject}
+        onRenameProject={handleRenameProject}
+        onDuplicateProject={handleDuplicateProject}
+        onDeleteProject={handleDeleteProject}
+        onExportProject={handleExportProject}
+        onImportProject={handleImportProject}
+        onBack={projectIdRef.current ? () => handleOpenProject(projectIdRef.current!) : undefined}
       />
     );
   }
@@ -507,6 +1541,14 @@ const App: React.FC = () => {
                 onViewSegment={handleViewSegment}
                 onUpdateSegmentPrompts={handleUpdateSegmentPrompts}
                 onRegenerateImage={handleRegenerateImage}
+                onRetrySegment={handleRetrySegment}
+                onCancelSegmentVideo={handleCancelSegmentVideo}
+                onUploadSegmentMedia={handleUploadSegmentMedia}
+                onAddSegment={() => handleAddSegment()}
+                onDeleteSegment={handleDeleteSegment}
+                onSplitSegment={(segmentId) => handleSplitSegment(segmentId)}
+                onMergeSegment={handleMergeSegment}
+                isBatchProcessing={pipelineState.isRunning}
              />
           </div>
         )}
@@ -516,12 +1558,14 @@ const App: React.FC = () => {
                 segment={activeSegment}
                 originalVideoUrl={videoUrl}
                 onBack={handleBackToTimeline}
-                onAnimate={(seg) => handleGenerateSegmentVideo(seg)}
+                onAnimate={(seg, variants) => handleGenerateSegmentVideo(seg, undefined, JOB_PRIORITY.USER, variants)}
                 onRegenerateImage={handleRegenerateImage}
                 onRegenerateVideo={handleRegenerateVideo}
                 onUpdateSegmentPrompts={handleUpdateSegmentPrompts}
-                onGenerateImage={handleGenerateSegmentImage}
+                onGenerateImage={(seg, variants) => handleGenerateSegmentImage(seg, JOB_PRIORITY.USER, variants)}
                 onUpdateChromaKey={handleUpdateChromaKey}
+                onSelectTake={handleSelectTake}
+                onDeleteTake={handleDeleteTake}
              />
         )}
 
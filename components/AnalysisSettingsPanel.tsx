@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { AnalysisSettings, OverlayStyle, SegmentCountMode } from '../types';
+import { MAX_ANALYSIS_SEGMENTS, OVERLAY_STYLE_LABELS, SEGMENT_COUNT_MODE_LABELS } from '../constants';
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+  disabled?: boolean;
+}
+
+const fieldClass = 'w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 placeholder-zinc-600 focus:outline-none focus:border-purple-500';
+const labelClass = 'block text-[10px] text-zinc-500 uppercase tracking-wider mb-1';
+
+/**
+ * Header dropdown for the project's analysis settings: how many segments to look for, the overlay
+ * style, output language and a brand style guide. Changes apply to the next analysis and to
+ * every image generated from then on.
+ */
+const AnalysisSettingsPanel: React.FC<AnalysisSettingsPanelProps> = ({ settings, onChange, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const update = (changes: Partial<AnalysisSettings>) => onChange({ ...settings, ...changes });
+  const updateNumber = (key: 'segmentCount' | 'secondsPerSegment', value: string, max: number) => {
+    const parsed = parseInt(value, 10);
+    if (!isNaN(parsed)) update({ [key]: Math.max(1, Math.min(max, parsed)) });
+  };
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs transition-colors ${
+          isOpen ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+        }`}
+        title="Analysis and overlay style settings"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+        Style
+      </button>
+
+      {isOpen && (
+        <fieldset
+          disabled={disabled}
+          className="absolute right-0 top-full mt-2 w-80 bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl z-50 p-3 space-y-3 disabled:opacity-60"
+        >
+          <div>
+            <label className={labelClass}>Segments</label>
+            <div className="flex items-center gap-2">
+              <select
+                value={settings.countMode}
+                onChange={(e) => update({ countMode: e.target.value as SegmentCountMode })}
+                className={`${fieldClass} flex-1`}
+              >
+                {(Object.keys(SEGMENT_COUNT_MODE_LABELS) as SegmentCountMode[]).map(mode => (
+                  <option key={mode} value={mode}>{SEGMENT_COUNT_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              {settings.countMode === 'count' && (
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_ANALYSIS_SEGMENTS}
+                  value={settings.segmentCount}
+                  onChange={(e) => updateNumber('segmentCount', e.target.value, MAX_ANALYSIS_SEGMENTS)}
+                  className={`${fieldClass} w-16 font-mono`}
+                  title="Number of segments"
+                />
+              )}
+              {settings.countMode === 'density' && (
+                <input
+                  type="number"
+                  min={1}
+                  max={600}
+                  value={settings.secondsPerSegment}
+                  onChange={(e) => updateNumber('secondsPerSegment', e.target.value, 600)}
+                  className={`${fieldClass} w-16 font-mono`}
+                  title="Seconds per segment"
+                />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Overlay style</label>
+            <div className="grid grid-cols-2 gap-1">
+              {(Object.keys(OVERLAY_STYLE_LABELS) as OverlayStyle[]).map(style => (
+                <button
+                  key={style}
+                  onClick={() => update({ overlayStyle: style })}
+                  className={`px-2 py-1 rounded text-xs transition-colors ${
+                    settings.overlayStyle === style ? 'bg-purple-500/20 text-purple-300 border border-purple-500/50' : 'bg-zinc-800 text-zinc-400 border border-zinc-700 hover:text-white'
+                  }`}
+                >
+                  {OVERLAY_STYLE_LABELS[style]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Language</label>
+            <input
+              type="text"
+              value={settings.language}
+              onChange={(e) => update({ language: e.target.value })}
+              placeholder="Same as the video"
+              className={fieldClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Brand style guide</label>
+            <textarea
+              value={settings.styleGuide}
+              onChange={(e) => update({ styleGuide: e.target.value })}
+              placeholder="e.g. Navy #1B2A4A and coral #FF6F61, rounded sans-serif type, no drop shadows"
+              rows={4}
+              className={`${fieldClass} resize-none`}
+            />
+            <p className="mt-1 text-[10px] text-zinc-600">Added to the analysis prompt and every image prompt.</p>
+          </div>
+        </fieldset>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisSettingsPanel;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Library, Search, Plus, Trash2, Film, Image as ImageIcon, Loader2 } from 'lucide-react';
+import { LibraryAsset, matchesAssetSearch } from '../services/assetLibrary';
+import { ASSET_DRAG_TYPE } from '../constants';
+import { formatTime } from '../utils/videoUtils';
+
+interface AssetLibraryPanelProps {
+  assets: LibraryAsset[];
+  currentTime: number;
+  canPlace: boolean; // False when every track is locked
+  onPlace: (asset: LibraryAsset, time: number) => Promise<void>;
+  onUpdate: (assetId: string, changes: Partial<Pick<LibraryAsset, 'name' | 'tags'>>) => void;
+  onDelete: (assetId: string) => void;
+}
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded px-1.5 py-0.5 text-[10px] text-zinc-300 focus:outline-none focus:border-purple-500';
+
+const parseTags = (value: string) => Array.from(new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+// Inline AssetCard component
+interface AssetCardProps {
+  asset: LibraryAsset;
+  currentTime: number;
+  canPlace: boolean;
+  onPlace: () => Promise<void>;
+  onUpdate: (changes: Partial<Pick<LibraryAsset, 'name' | 'tags'>>) => void;
+  onDelete: () => void;
+}
+
+const AssetCard: React.FC<AssetCardProps> = ({ asset, currentTime, canPlace, onPlace, onUpdate, onDelete }) => {
+  // Name and tags are committed on blur so typing doesn't rewrite the library on every key
+  const [name, setName] = useState(asset.name);
+  const [tags, setTags] = useState(asset.tags.join(', '));
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setName(asset.name), [asset.name]);
+  useEffect(() => setTags(asset.tags.join(', ')), [asset.tags]);
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== asset.name) onUpdate({ name: trimmed });
+    else setName(asset.name);
+  };
+
+  const commitTags = () => {
+    const parsed = parseTags(tags);
+    if (parsed.join(',') !== asset.tags.join(',')) onUpdate({ tags: parsed });
+    setTags(parsed.join(', '));
+  };
+
+  const place = async () => {
+    setError(null);
+    setIsPlacing(true);
+    try {
+      await onPlace();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || 'Could not place this asset.');
+    } finally {
+      setIsPlacing(false);
+    }
+  };
+
+  return (
+    <div className="p-2 rounded border border-zinc-800 hover:border-zinc-700 bg-zinc-900/50 flex gap-2">
+      <div
+        draggable={canPlace}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(ASSET_DRAG_TYPE, asset.id);
+          e.dataTransfer.effectAllowed = 'copy';
+        }}
+        className={`relative w-20 shrink-0 aspect-video bg-black rounded overflow-hidden border border-zinc-700 ${canPlace ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        title={canPlace ? 'Drag onto a track to place it there' : undefined}
+      >
+        {asset.thumbnail
+          ? <img src={asset.thumbnail} alt={asset.name} className="w-full h-full object-contain pointer-events-none" />
+          : <div className="w-full h-full flex items-center justify-center"><ImageIcon className="w-4 h-4 text-zinc-600" /></div>}
+        <span className="absolute bottom-0.5 right-0.5 p-0.5 rounded bg-black/60" title={asset.hasVideo ? 'Animated clip' : 'Still image'}>
+          {asset.hasVideo ? <Film className="w-2.5 h-2.5 text-green-400" /> : <ImageIcon className="w-2.5 h-2.5 text-blue-400" />}
+        </span>
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-1">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            className={`${inputClass} text-xs font-medium`}
+            title={asset.prompt || asset.name}
+          />
+          <button
+            onClick={place}
+            disabled={!canPlace || isPlacing}
+            className="p-0.5 rounded text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+            title={`Add at ${formatTime(currentTime)}`}
+          >
+            {isPlacing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Plus className="w-3 h-3" />}
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-0.5 rounded text-zinc-500 hover:text-red-400"
+            title="Remove from the library (segments already placed keep their media)"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onBlur={commitTags}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          placeholder="Tags, comma separated"
+          className={inputClass}
+        />
+        {error && <p className="text-[10px] text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Overlays saved for reuse across projects, with their prompts, chroma key and placement.
+ * An asset is dragged onto a track (or added at the playhead) to create a segment from it.
+ */
+const AssetLibraryPanel: React.FC<AssetLibraryPanelProps> = ({ assets, currentTime, canPlace, onPlace, onUpdate, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const visibleAssets = query.trim() ? assets.filter(asset => matchesAssetSearch(asset, query)) : assets;
+
+  if (assets.length === 0) {
+    return (
+      <div className="p-4 flex flex-col items-center gap-3 text-center">
+        <Library className="w-6 h-6 text-zinc-600" />
+        <p className="text-xs text-zinc-500">
+          Save a segment's overlay to the library to reuse it in any project. Use the library button on a segment in the segment list.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="p-2 border-b border-zinc-800">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-zinc-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name, tag or prompt"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded pl-6 pr-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-purple-500"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {visibleAssets.map(asset => (
+          <AssetCard
+            key={asset.id}
+            asset={asset}
+            currentTime={currentTime}
+            canPlace={canPlace}
+            onPlace={() => onPlace(asset, currentTime)}
+            onUpdate={(changes) => onUpdate(asset.id, changes)}
+            onDelete={() => onDelete(asset.id)}
+          />
+        ))}
+        {visibleAssets.length === 0 && (
+          <p className="p-4 text-center text-xs text-zinc-500">No assets match "{query}".</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssetLibraryPanel;
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CaptionTrack } from '../types';
+import { drawCaption, findCaptionAt } from '../utils/captions';
+
+interface CaptionLayerProps {
+  captions: CaptionTrack;
+  currentTime: number;
+  isPlaying: boolean;
+  // Read every frame during playback so captions change on the word, not at timeupdate rate
+  baseVideoRef: React.RefObject<HTMLVideoElement | null>;
+}
+
+/**
+ * The caption under the playhead, drawn on a canvas the size of the source video with the same
+ * drawing code as the renderer, so the preview matches the exported file.
+ */
+const CaptionLayer: React.FC<CaptionLayerProps> = ({ captions, currentTime, isPlaying, baseVideoRef }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [playbackTime, setPlaybackTime] = useState(currentTime);
+
+  useEffect(() => {
+    const baseVideo = baseVideoRef.current;
+    if (!isPlaying || !baseVideo) return;
+    let frameHandle = 0;
+    const tick = () => {
+      setPlaybackTime(baseVideo.currentTime);
+      frameHandle = requestAnimationFrame(tick);
+    };
+    frameHandle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameHandle);
+  }, [isPlaying, baseVideoRef]);
+
+  const time = isPlaying ? playbackTime : currentTime;
+  const text = findCaptionAt(captions.cues, time)?.text || '';
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = baseVideoRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const width = video?.videoWidth || 1280;
+    const height = video?.videoHeight || 720;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    ctx.clearRect(0, 0, width, height);
+    if (text) drawCaption(ctx, text, captions.style);
+  }, [text, captions.style, baseVideoRef]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full object-contain pointer-events-none" />;
+};
+
+export default CaptionLayer;
@@ -0,0 +1,264 @@
+import React, { useEffect, useRef } from 'react';
+import { Captions, Download, Eye, EyeOff, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { CaptionCue, CaptionTrack, CaptionStyle, TextFont, CaptionBackground, CaptionPosition, CaptionPreset } from '../types';
+import { CAPTION_PRESETS, TEXT_FONT_LABELS, CAPTION_BACKGROUND_LABELS, CAPTION_POSITION_LABELS } from '../constants';
+import { formatTime } from '../utils/videoUtils';
+import { findCaptionAt, toSrt, toWebVtt } from '../utils/captions';
+
+interface CaptionsPanelProps {
+  captions?: CaptionTrack;
+  hasTranscript: boolean;
+  currentTime: number;
+  isPlaying: boolean;
+  selectedCueId: string | null;
+  onSelectCue: (cue: CaptionCue) => void;
+  onCreate: () => void;
+  onAddCue: (time: number) => void;
+  onUpdateCue: (cueId: string, changes: Partial<Omit<CaptionCue, 'id'>>) => void;
+  onDeleteCue: (cueId: string) => void;
+  onUpdateCaptions: (changes: Partial<Omit<CaptionTrack, 'cues'>>) => void;
+}
+
+const selectClass = 'bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 focus:outline-none focus:border-purple-500';
+const timeInputClass = 'w-14 bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 font-mono focus:outline-none focus:border-purple-500';
+const labelClass = 'text-[10px] text-zinc-500 w-14 shrink-0';
+
+const downloadText = (text: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
+
+const isSameStyle = (a: CaptionStyle, b: CaptionStyle) =>
+  a.font === b.font && a.size === b.size && a.color.toLowerCase() === b.color.toLowerCase() &&
+  a.background === b.background && a.position === b.position;
+
+/**
+ * Caption track editor: styling presets and controls, SRT/WebVTT export, and every cue with
+ * its text and timing. Captions start from the transcript and are edited independently of it.
+ */
+const CaptionsPanel: React.FC<CaptionsPanelProps> = ({
+  captions,
+  hasTranscript,
+  currentTime,
+  isPlaying,
+  selectedCueId,
+  onSelectCue,
+  onCreate,
+  onAddCue,
+  onUpdateCue,
+  onDeleteCue,
+  onUpdateCaptions
+}) => {
+  const cueRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const activeCueId = captions ? findCaptionAt(captions.cues, currentTime)?.id : undefined;
+  const scrollToId = isPlaying ? activeCueId : selectedCueId;
+
+  // Keep the caption being spoken (or the one picked on the timeline) in view
+  useEffect(() => {
+    if (scrollToId) cueRefs.current.get(scrollToId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [scrollToId]);
+
+  if (!captions) {
+    return (
+      <div className="p-4 flex flex-col items-center gap-3 text-center">
+        <Captions className="w-6 h-6 text-zinc-600" />
+        <p className="text-xs text-zinc-500">
+          {hasTranscript
+            ? 'Create a caption track from the transcript, then edit and style it.'
+            : 'Captions are made from the transcript. Re-analyze the video to get one.'}
+        </p>
+        <button
+          onClick={onCreate}
+          disabled={!hasTranscript}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-purple-600 hover:bg-purple-500 disabled:bg-zinc-700 disabled:text-zinc-500 text-xs text-white font-medium"
+        >
+          <Plus className="w-3 h-3" />
+          Create captions
+        </button>
+      </div>
+    );
+  }
+
+  const { style } = captions;
+  const updateStyle = (changes: Partial<CaptionStyle>) => onUpdateCaptions({ style: { ...style, ...changes } });
+  const activePreset = (Object.keys(CAPTION_PRESETS) as CaptionPreset[]).find(p => isSameStyle(CAPTION_PRESETS[p].style, style));
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="p-3 border-b border-zinc-800 space-y-2">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onUpdateCaptions({ visible: !captions.visible })}
+            className={`p-1 rounded ${captions.visible ? 'text-zinc-300 hover:text-white' : 'text-zinc-600 hover:text-zinc-400'}`}
+            title={captions.visible ? 'Hide captions in the preview and export' : 'Show captions'}
+          >
+            {captions.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+          </button>
+          <span className="flex-1 text-[10px] text-zinc-500">{captions.cues.length} caption{captions.cues.length === 1 ? '' : 's'}</span>
+          <button
+            onClick={() => downloadText(toSrt(captions.cues), 'captions.srt', 'application/x-subrip')}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] text-zinc-400 hover:text-white hover:bg-zinc-800"
+            title="Download as SubRip (.srt)"
+          >
+            <Download className="w-3 h-3" />
+            SRT
+          </button>
+          <button
+            onClick={() => downloadText(toWebVtt(captions.cues), 'captions.vtt', 'text/vtt')}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] text-zinc-400 hover:text-white hover:bg-zinc-800"
+            title="Download as WebVTT (.vtt)"
+          >
+            <Download className="w-3 h-3" />
+            VTT
+          </button>
+          {hasTranscript && (
+            <button
+              onClick={onCreate}
+              className="p-1 rounded text-zinc-500 hover:text-white"
+              title="Recreate captions from the transcript (replaces edits to the text and timing)"
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-4 gap-1">
+          {(Object.keys(CAPTION_PRESETS) as CaptionPreset[]).map(preset => (
+            <button
+              key={preset}
+              onClick={() => onUpdateCaptions({ style: { ...CAPTION_PRESETS[preset].style } })}
+              className={`px-1 py-1 rounded text-[10px] transition-colors ${
+                activePreset === preset ? 'bg-purple-500/20 text-purple-300 border border-purple-500/50' : 'bg-zinc-800 text-zinc-400 border border-zinc-700 hover:text-white'
+              }`}
+            >
+              {CAPTION_PRESETS[preset].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <span className={labelClass}>Font</span>
+          <select value={style.font} onChange={(e) => updateStyle({ font: e.target.value as TextFont })} className={`${selectClass} flex-1 min-w-0`}>
+            {(Object.keys(TEXT_FONT_LABELS) as TextFont[]).map(font => (
+              <option key={font} value={font}>{TEXT_FONT_LABELS[font]}</option>
+            ))}
+          </select>
+          <input
+            type="color"
+            value={style.color}
+            onChange={(e) => updateStyle({ color: e.target.value.toUpperCase() })}
+            className="w-6 h-5 bg-transparent border border-zinc-700 rounded cursor-pointer"
+            title="Text color"
+          />
+        </div>
+        <div className="flex items-center gap-1.5">
+          <span className={labelClass}>Size</span>
+          <input
+            type="range"
+            min={2}
+            max={12}
+            step={0.5}
+            value={style.size}
+            onChange={(e) => updateStyle({ size: parseFloat(e.target.value) })}
+            className="flex-1 accent-purple-500"
+          />
+          <span className="text-[10px] text-zinc-400 font-mono w-8 text-right">{style.size}%</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <span className={labelClass}>Background</span>
+          <select value={style.background} onChange={(e) => updateStyle({ background: e.target.value as CaptionBackground })} className={`${selectClass} flex-1 min-w-0`}>
+            {(Object.keys(CAPTION_BACKGROUND_LABELS) as CaptionBackground[]).map(background => (
+              <option key={background} value={background}>{CAPTION_BACKGROUND_LABELS[background]}</option>
+            ))}
+          </select>
+          <select value={style.position} onChange={(e) => updateStyle({ position: e.target.value as CaptionPosition })} className={`${selectClass} flex-1 min-w-0`} title="Position">
+            {(Object.keys(CAPTION_POSITION_LABELS) as CaptionPosition[]).map(position => (
+              <option key={position} value={position}>{CAPTION_POSITION_LABELS[position]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {captions.cues.map(cue => {
+          const isActive = cue.id === activeCueId;
+          const isSelected = cue.id === selectedCueId;
+          return (
+            <div
+              key={cue.id}
+              ref={(el) => { if (el) cueRefs.current.set(cue.id, el); else cueRefs.current.delete(cue.id); }}
+              className={`p-2 rounded border space-y-1 ${
+                isSelected ? 'border-purple-500/60 bg-purple-900/20' : isActive ? 'border-zinc-700 bg-zinc-800/60' : 'border-transparent hover:bg-zinc-800/30'
+              }`}
+            >
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onSelectCue(cue)}
+                  className="font-mono text-[10px] text-zinc-500 hover:text-white mr-auto"
+                  title="Jump to this caption"
+                >
+                  {formatTime(cue.start)}
+                </button>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={Math.round(cue.start * 100) / 100}
+                  onChange={(e) => {
+                    const start = parseFloat(e.target.value);
+                    if (!isNaN(start)) onUpdateCue(cue.id, { start });
+                  }}
+                  className={timeInputClass}
+                  title="Start (seconds)"
+                />
+                <span className="text-[10px] text-zinc-600">–</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={Math.round(cue.end * 100) / 100}
+                  onChange={(e) => {
+                    const end = parseFloat(e.target.value);
+                    if (!isNaN(end)) onUpdateCue(cue.id, { end });
+                  }}
+                  className={timeInputClass}
+                  title="End (seconds)"
+                />
+                <button
+                  onClick={() => onDeleteCue(cue.id)}
+                  className="p-0.5 rounded text-zinc-500 hover:text-red-400"
+                  title="Delete caption"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <textarea
+                value={cue.text}
+                onChange={(e) => onUpdateCue(cue.id, { text: e.target.value })}
+                onFocus={() => onSelectCue(cue)}
+                rows={2}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded px-1.5 py-1 text-xs text-zinc-200 resize-none focus:outline-none focus:border-purple-500"
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-2 border-t border-zinc-800">
+        <button
+          onClick={() => onAddCue(currentTime)}
+          className="w-full flex items-center justify-center gap-1 py-1 rounded border border-dashed border-zinc-700 text-[10px] text-zinc-400 hover:text-white hover:border-zinc-500"
+        >
+          <Plus className="w-3 h-3" />
+          Add caption at {formatTime(currentTime)}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CaptionsPanel;
@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { Download, Loader2, X } from 'lucide-react';
+import { Segment, Track, CaptionTrack } from '../types';
+import { renderTimelineVideo, getSupportedRecorderMimeType } from '../utils/timelineRenderer';
+import { logger } from '../utils/logger';
+
+interface ExportControlsProps {
+  videoUrl: string;
+  segments: Segment[];
+  tracks?: Track[];
+  captions?: CaptionTrack;
+  disabled?: boolean;
+}
+
+const ExportControls: React.FC<ExportControlsProps> = ({ videoUrl, segments, tracks, captions, disabled = false }) => {
+  const [isRendering, setIsRendering] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isSupported = !!getSupportedRecorderMimeType();
+
+  const handleExport = async () => {
+    logger.ui.buttonClick('exportTimeline');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRendering(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const result = await renderTimelineVideo(videoUrl, segments, {
+        signal: controller.signal,
+        tracks,
+        captions,
+        onProgress: (p) => setProgress(p.percent)
+      });
+
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `timeline-export.${result.extension}`;
+      link.click();
+      // Give the browser a moment to start the download before releasing the blob
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') {
+        console.error(err);
+        setError(err.message || 'Export failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRendering(false);
+    }
+  };
+
+  const handleCancel = () => {
+    logger.ui.buttonClick('cancelExport');
+    abortRef.current?.abort();
+  };
+
+  if (isRendering) {
+    return (
+      <div className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800 rounded-full text-xs text-zinc-300">
+        <Loader2 className="w-3 h-3 animate-spin text-purple-400" />
+        <span>Rendering {Math.round(progress)}%</span>
+        <div className="w-20 h-1 bg-zinc-700 rounded-full overflow-hidden">
+          <div className="h-full bg-purple-500 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+        <button onClick={handleCancel} className="text-zinc-500 hover:text-white" title="Cancel export">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-400 max-w-[200px] truncate" title={error}>{error}</span>}
+      <button
+        onClick={handleExport}
+        disabled={disabled || !isSupported}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white hover:bg-zinc-200 disabled:bg-zinc-700 disabled:text-zinc-500 text-black text-xs font-bold transition-colors"
+        title={isSupported ? 'Render the composited timeline to a video file' : 'Video recording is not supported in this browser'}
+      >
+        <Download className="w-3 h-3" />
+        Export Video
+      </button>
+    </div>
+  );
+};
+
+export default ExportControls;
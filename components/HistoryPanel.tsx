@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, Undo2, Redo2, Circle, CheckCircle2 } from 'lucide-react';
+import { editHistory, EditHistorySnapshot, HistoryEntry } from '../services/editHistory';
+
+interface HistoryPanelProps {
+  onUndo: () => void;
+  onRedo: () => void;
+  onTravel: (entryId: string | null) => void; // null: back to before the first edit
+}
+
+const formatTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+};
+
+// Inline EntryRow component
+const EntryRow: React.FC<{ label: string; timestamp?: number; isCurrent: boolean; isUndone: boolean; onClick: () => void }> = ({
+  label,
+  timestamp,
+  isCurrent,
+  isUndone,
+  onClick
+}) => (
+  <button
+    onClick={onClick}
+    className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left transition-colors ${
+      isCurrent ? 'bg-purple-500/10' : 'hover:bg-zinc-800/50'
+    }`}
+  >
+    {isCurrent
+      ? <CheckCircle2 className="w-3 h-3 text-purple-400 shrink-0" />
+      : <Circle className={`w-3 h-3 shrink-0 ${isUndone ? 'text-zinc-700' : 'text-zinc-500'}`} />}
+    <span className={`flex-1 min-w-0 text-xs truncate ${isUndone ? 'text-zinc-600 italic' : 'text-zinc-300'}`}>{label}</span>
+    {timestamp !== undefined && (
+      <span className="text-[10px] text-zinc-500 font-mono shrink-0">{formatTime(timestamp)}</span>
+    )}
+  </button>
+);
+
+/**
+ * Header undo/redo buttons plus a dropdown of the edit history; clicking an entry jumps to it.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onUndo, onRedo, onTravel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [snapshot, setSnapshot] = useState<EditHistorySnapshot>(() => editHistory.getSnapshot());
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => editHistory.subscribe(setSnapshot), []);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const { past, future } = snapshot;
+  const current: HistoryEntry | undefined = past[past.length - 1];
+  const buttonClass = 'p-1 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div ref={panelRef} className="relative flex items-center gap-0.5">
+      <button
+        onClick={onUndo}
+        disabled={past.length === 0}
+        className={buttonClass}
+        title={current ? `Undo ${current.label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={future.length === 0}
+        className={buttonClass}
+        title={future[0] ? `Redo ${future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs transition-colors ${
+          isOpen ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+        }`}
+        title="Edit history"
+      >
+        <History className="w-4 h-4" />
+        History
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-72 bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+          <div className="max-h-80 overflow-y-auto p-2">
+            <EntryRow
+              label="Initial state"
+              isCurrent={past.length === 0}
+              isUndone={false}
+              onClick={() => onTravel(null)}
+            />
+            {past.map(entry => (
+              <EntryRow
+                key={entry.id}
+                label={entry.label}
+                timestamp={entry.timestamp}
+                isCurrent={entry === current}
+                isUndone={false}
+                onClick={() => onTravel(entry.id)}
+              />
+            ))}
+            {future.map(entry => (
+              <EntryRow
+                key={entry.id}
+                label={entry.label}
+                timestamp={entry.timestamp}
+                isCurrent={false}
+                isUndone
+                onClick={() => onTravel(entry.id)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ImageUp, Loader2 } from 'lucide-react';
+import { MAX_OVERLAY_UPLOAD_MB } from '../constants';
+
+interface MediaDropZoneProps {
+  onUpload?: (file: File) => Promise<void>; // Without it the preview is shown as-is
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Wraps a segment's preview so an image or clip can be dropped onto it (or picked with the
+ * upload button) and used as the segment's overlay instead of a generated one.
+ */
+const MediaDropZone: React.FC<MediaDropZoneProps> = ({ onUpload, disabled = false, className = '', children }) => {
+  const [dragActive, setDragActive] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isBlocked = disabled || isUploading;
+
+  const upload = async (file: File) => {
+    if (!file.type.startsWith('image/') && !file.type.startsWith('video/')) {
+      setError('Please use an image or video file.');
+      return;
+    }
+    const sizeMB = file.size / (1024 * 1024);
+    if (sizeMB > MAX_OVERLAY_UPLOAD_MB) {
+      setError(`File too large (${sizeMB.toFixed(1)}MB). Max size is ${MAX_OVERLAY_UPLOAD_MB}MB.`);
+      return;
+    }
+    setError(null);
+    setIsUploading(true);
+    try {
+      await onUpload!(file);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || 'Could not read that file.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (!onUpload) return <div className={`relative ${className}`}>{children}</div>;
+
+  const handleDrag = (e: React.DragEvent) => {
+    // Only files are accepted; other drags (text, timeline items) pass through untouched
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === 'dragleave') {
+      // Moving over a child fires dragleave on the wrapper too
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
+    } else if (!isBlocked) {
+      setDragActive(true);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file && !isBlocked) upload(file);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so picking the same file again still fires a change
+    e.target.value = '';
+    if (file) upload(file);
+  };
+
+  return (
+    <div
+      className={`relative ${className}`}
+      onDragEnter={handleDrag}
+      onDragOver={handleDrag}
+      onDragLeave={handleDrag}
+      onDrop={handleDrop}
+    >
+      {children}
+
+      {(dragActive || isUploading) && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-purple-500/20 border-2 border-dashed border-purple-500 rounded-lg pointer-events-none">
+          {isUploading ? <Loader2 className="w-5 h-5 text-purple-300 animate-spin" /> : <ImageUp className="w-5 h-5 text-purple-300" />}
+          <span className="text-xs text-purple-200">{isUploading ? 'Reading file...' : 'Drop to use as overlay'}</span>
+        </div>
+      )}
+
+      {!isUploading && (
+        <label
+          className={`absolute bottom-1.5 left-1.5 flex items-center gap-1 px-1.5 py-0.5 rounded bg-black/60 text-[10px] text-zinc-300 ${
+            disabled ? 'opacity-50 cursor-not-allowed' : 'hover:text-white cursor-pointer'
+          }`}
+          title="Upload an image or clip to use as this segment's overlay"
+        >
+          <ImageUp className="w-3 h-3" />
+          Upload
+          <input type="file" className="hidden" accept="image/*,video/*" onChange={handleChange} disabled={disabled} />
+        </label>
+      )}
+
+      {error && (
+        <p className="absolute top-1.5 inset-x-1.5 px-1.5 py-0.5 rounded bg-red-950/90 text-[10px] text-red-300" onClick={() => setError(null)}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MediaDropZone;
@@ -0,0 +1,187 @@
+import React, { useRef, useEffect, useCallback, useState } from 'react';
+import { Segment, DEFAULT_CHROMA_KEY_SETTINGS } from '../types';
+import { createChromaKeyCanvas } from '../utils/chromaKey';
+import { getTransformAtTime, toCssTransform } from '../utils/keyframes';
+import { getTransitionEffect, hasTransitions, toCssClipPath } from '../utils/transitions';
+import { isTextOverlayAnimated, renderTextOverlay } from '../utils/textOverlays';
+
+type OverlayElement = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+interface OverlayLayerProps {
+  segment: Segment;
+  currentTime: number; // Base video time, used to keep the overlay clip in sync
+  isPlaying: boolean;
+  // Read every frame during playback so keyframes and transitions don't step at timeupdate rate
+  baseVideoRef?: React.RefObject<HTMLVideoElement | null>;
+  isPickingColor: boolean;
+  isDragging: boolean;
+  isLocked: boolean;
+  onClick: (e: React.MouseEvent<OverlayElement>, segment: Segment) => void;
+  onDragStart: (e: React.MouseEvent, segment: Segment) => void;
+}
+
+/**
+ * One segment's overlay in the preview composite: its clip (or still image when not yet
+ * animated), chroma keyed onto a canvas when keying is enabled. Text segments are drawn onto
+ * a canvas the size of the base video.
+ */
+const OverlayLayer: React.FC<OverlayLayerProps> = ({
+  segment,
+  currentTime,
+  isPlaying,
+  baseVideoRef,
+  isPickingColor,
+  isDragging,
+  isLocked,
+  onClick,
+  onDragStart
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const textOverlay = segment.textOverlay;
+  const chromaEnabled = !textOverlay && !!segment.chromaKey?.enabled;
+  const isAnimated = !!segment.keyframes?.length || hasTransitions(segment) || isTextOverlayAnimated(textOverlay);
+  const [playbackTime, setPlaybackTime] = useState(currentTime);
+
+  useEffect(() => {
+    const baseVideo = baseVideoRef?.current;
+    if (!isPlaying || !isAnimated || !baseVideo) return;
+    let frameHandle = 0;
+    const tick = () => {
+      setPlaybackTime(baseVideo.currentTime);
+      frameHandle = requestAnimationFrame(tick);
+    };
+    frameHandle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameHandle);
+  }, [isPlaying, isAnimated, baseVideoRef]);
+
+  const time = isPlaying && isAnimated ? playbackTime : currentTime;
+  const transform = getTransformAtTime(segment, time - segment.timestamp);
+  const effect = getTransitionEffect(segment, time - segment.timestamp);
+
+  // Redraw the chroma keyed canvas from the current video frame or image
+  const updateChromaCanvas = useCallback(() => {
+    if (!canvasRef.current) return;
+
+    const settings = segment.chromaKey || DEFAULT_CHROMA_KEY_SETTINGS;
+    if (!settings.enabled) return;
+
+    const source = segment.videoUrl ? videoRef.current : imageRef.current;
+    if (!source) return;
+
+    const canvas = createChromaKeyCanvas(source, settings);
+    const ctx = canvasRef.current.getContext('2d');
+    if (ctx) {
+      canvasRef.current.width = canvas.width;
+      canvasRef.current.height = canvas.height;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(canvas, 0, 0);
+    }
+  }, [segment.chromaKey, segment.videoUrl]);
+
+  // Trigger chroma canvas update when settings change
+  useEffect(() => {
+    if (chromaEnabled) updateChromaCanvas();
+  }, [chromaEnabled, updateChromaCanvas]);
+
+  // Redraw text segments at the current time, at the base video's resolution
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!textOverlay || !canvas) return;
+    const width = baseVideoRef?.current?.videoWidth || 1280;
+    const height = baseVideoRef?.current?.videoHeight || 720;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    renderTextOverlay(canvas, textOverlay, time - segment.timestamp);
+  }, [textOverlay, time, segment.timestamp, baseVideoRef]);
+
+  // Keep the overlay clip in step with the base video
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const segmentTime = Math.max(0, currentTime - segment.timestamp);
+    if (Math.abs(video.currentTime - segmentTime) > 0.3) {
+      video.currentTime = segmentTime;
+    }
+    if (isPlaying && video.paused) {
+      video.play().catch(() => {});
+    } else if (!isPlaying && !video.paused) {
+      video.pause();
+    }
+  }, [currentTime, isPlaying, segment.timestamp]);
+
+  const cursor = isPickingColor ? 'crosshair' : isLocked ? 'default' : (isDragging ? 'grabbing' : 'grab');
+  // Transition offset and scale wrap the keyframed transform, matching drawOverlayFrame
+  const transformCss = `translate(${effect.offsetX}%, ${effect.offsetY}%) ${toCssTransform(transform)} scale(${effect.scale})`;
+  const opacity = transform.opacity * effect.opacity;
+  const clipPath = toCssClipPath(effect.clip);
+  const sourceStyle: React.CSSProperties = {
+    transform: transformCss,
+    opacity,
+    clipPath,
+    ...(chromaEnabled || textOverlay ? {} : { mixBlendMode: 'screen' as const }),
+    cursor
+  };
+  const handleClick = (e: React.MouseEvent<OverlayElement>) => onClick(e, segment);
+  const handleMouseDown = (e: React.MouseEvent) => onDragStart(e, segment);
+
+  if (textOverlay) {
+    return (
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full object-contain"
+        style={sourceStyle}
+        onClick={handleClick}
+        onMouseDown={handleMouseDown}
+      />
+    );
+  }
+
+  return (
+    <>
+      {segment.videoUrl ? (
+        <video
+          ref={videoRef}
+          src={segment.videoUrl}
+          className={`absolute inset-0 w-full h-full object-contain ${chromaEnabled ? 'hidden' : ''}`}
+          style={sourceStyle}
+          muted
+          loop
+          playsInline
+          onClick={handleClick}
+          onMouseDown={handleMouseDown}
+          onTimeUpdate={chromaEnabled ? updateChromaCanvas : undefined}
+        />
+      ) : (
+        <img
+          ref={imageRef}
+          src={segment.imageUrl}
+          alt="Overlay"
+          className={`absolute inset-0 w-full h-full object-contain ${chromaEnabled ? 'hidden' : ''}`}
+          style={sourceStyle}
+          onClick={handleClick}
+          onMouseDown={handleMouseDown}
+          onLoad={chromaEnabled ? updateChromaCanvas : undefined}
+          draggable={false}
+        />
+      )}
+      {/* Chroma keyed canvas overlay */}
+      {chromaEnabled && (
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 w-full h-full object-contain"
+          style={{ transform: transformCss, opacity, clipPath, cursor }}
+          onClick={handleClick}
+          onMouseDown={handleMouseDown}
+        />
+      )}
+    </>
+  );
+};
+
+export default OverlayLayer;
@@ -0,0 +1,294 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, Plus, Pencil, Copy, Trash2, Check, X, Film, Layers, Clock, ArrowLeft, Download, Upload, Loader2 } from 'lucide-react';
+import { ProjectSummary } from '../services/autosaveService';
+
+interface ProjectBrowserProps {
+  projects: ProjectSummary[];
+  currentProjectId?: string | null;
+  onOpenProject: (id: string) => void;
+  onCreateProject: () => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDuplicateProject: (id: string) => Promise<void>;
+  onDeleteProject: (id: string) => void;
+  onExportProject: (id: string, includeSourceVideo: boolean) => Promise<void>;
+  onImportProject: (file: File) => Promise<void>;
+  onBack?: () => void;
+}
+
+const formatUpdatedAt = (iso: string): string => {
+  const date = new Date(iso);
+  const diffMinutes = Math.round((Date.now() - date.getTime()) / 60000);
+  if (diffMinutes < 1) return 'just now';
+  if (diffMinutes < 60) return `${diffMinutes} min ago`;
+  const diffHours = Math.round(diffMinutes / 60);
+  if (diffHours < 24) return `${diffHours} h ago`;
+  return date.toLocaleDateString();
+};
+
+// Inline ProjectCard component with rename/duplicate/export/delete actions
+interface ProjectCardProps {
+  project: ProjectSummary;
+  isCurrent: boolean;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => Promise<void>;
+  onDelete: () => void;
+  onExport: (includeSourceVideo: boolean) => Promise<void>;
+}
+
+const ProjectCard: React.FC<ProjectCardProps> = ({ project, isCurrent, onOpen, onRename, onDuplicate, onDelete, onExport }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(project.name);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [chooseExport, setChooseExport] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleExport = async (includeSourceVideo: boolean) => {
+    setChooseExport(false);
+    setIsExporting(true);
+    setActionError(null);
+    try {
+      await onExport(includeSourceVideo);
+    } catch (err: any) {
+      console.error(err);
+      setActionError(err.message || 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDuplicate = async () => {
+    setIsDuplicating(true);
+    setActionError(null);
+    try {
+      await onDuplicate();
+    } catch (err: any) {
+      console.error(err);
+      setActionError(err.message || 'Duplicate failed');
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
+  const handleSaveName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== project.name) onRename(trimmed);
+    setIsRenaming(false);
+  };
+
+  const handleCancelRename = () => {
+    setName(project.name);
+    setIsRenaming(false);
+  };
+
+  return (
+    <div
+      className={`group rounded-xl border overflow-hidden transition-colors ${
+        isCurrent ? 'border-purple-500/50 bg-purple-900/10' : 'border-zinc-800 bg-zinc-900/50 hover:border-zinc-600'
+      }`}
+    >
+      {/* Thumbnail */}
+      <button onClick={onOpen} className="block w-full aspect-video bg-black relative">
+        {project.thumbnail ? (
+          <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-zinc-700">
+            <Film className="w-10 h-10" />
+          </div>
+        )}
+        {isCurrent && (
+          <span className="absolute top-2 left-2 px-2 py-0.5 bg-purple-500/90 text-white text-[10px] font-bold rounded-full">Open</span>
+        )}
+      </button>
+
+      {/* Details */}
+      <div className="p-3 space-y-2">
+        {isRenaming ? (
+          <div className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveName();
+                if (e.key === 'Escape') handleCancelRename();
+              }}
+              className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-purple-500"
+            />
+            <button onClick={handleSaveName} className="p-1 text-green-400 hover:text-green-300" title="Save name">
+              <Check className="w-4 h-4" />
+            </button>
+            <button onClick={handleCancelRename} className="p-1 text-zinc-500 hover:text-white" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <h3 className="text-sm font-bold text-white truncate" title={project.name}>{project.name}</h3>
+        )}
+
+        <div className="flex items-center gap-3 text-[11px] text-zinc-500">
+          <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{formatUpdatedAt(project.updatedAt)}</span>
+          <span className="flex items-center gap-1"><Layers className="w-3 h-3" />{project.segmentCount} segments</span>
+        </div>
+        {project.videoFileName && (
+          <p className="text-[11px] text-zinc-600 truncate" title={project.videoFileName}>{project.videoFileName}</p>
+        )}
+
+        {actionError && <p className="text-[11px] text-red-400 truncate" title={actionError}>{actionError}</p>}
+
+        {/* Actions */}
+        {chooseExport ? (
+          <div className="flex items-center justify-between gap-2 pt-1">
+            <span className="text-xs text-zinc-400">Include source video?</span>
+            <div className="flex items-center gap-1">
+              <button onClick={() => handleExport(false)} className="px-2 py-1 text-xs text-zinc-400 hover:text-white">No</button>
+              <button onClick={() => handleExport(true)} className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-white rounded">Yes</button>
+            </div>
+          </div>
+        ) : confirmDelete ? (
+          <div className="flex items-center justify-between gap-2 pt-1">
+            <span className="text-xs text-red-400">Delete this project?</span>
+            <div className="flex items-center gap-1">
+              <button onClick={() => setConfirmDelete(false)} className="px-2 py-1 text-xs text-zinc-400 hover:text-white">Cancel</button>
+              <button onClick={onDelete} className="px-2 py-1 text-xs bg-red-600 hover:bg-red-500 text-white rounded">Delete</button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1 pt-1">
+            <button
+              onClick={onOpen}
+              className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-medium transition-colors"
+            >
+              <FolderOpen className="w-3 h-3" />
+              Open
+            </button>
+            <button onClick={() => setIsRenaming(true)} className="p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800" title="Rename">
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button
+              onClick={handleDuplicate}
+              disabled={isDuplicating}
+              className="p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-50"
+              title="Duplicate"
+            >
+              {isDuplicating ? <Loader2 className="w-3 h-3 animate-spin" /> : <Copy className="w-3 h-3" />}
+            </button>
+            <button
+              onClick={() => setChooseExport(true)}
+              disabled={isExporting}
+              className="p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-50"
+              title="Export bundle (.zip)"
+            >
+              {isExporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+            </button>
+            <button
+              onClick={() => setConfirmDelete(true)}
+              disabled={isCurrent}
+              className="p-1.5 rounded-md text-zinc-500 hover:text-red-400 hover:bg-zinc-800 disabled:opacity-30 disabled:hover:text-zinc-500"
+              title={isCurrent ? 'Close the project before deleting it' : 'Delete'}
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  projects,
+  currentProjectId,
+  onOpenProject,
+  onCreateProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject,
+  onExportProject,
+  onImportProject,
+  onBack
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImportChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      await onImportProject(file);
+    } catch (err: any) {
+      console.error(err);
+      setImportError(err.message || 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="w-full min-h-screen flex flex-col bg-zinc-950">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800 bg-zinc-900/50">
+        <div className="flex items-center gap-3">
+          {onBack && (
+            <button onClick={onBack} className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white" title="Back to editor">
+              <ArrowLeft className="w-4 h-4" />
+            </button>
+          )}
+          <FolderOpen className="w-5 h-5 text-purple-400" />
+          <h1 className="text-lg font-bold text-white">Projects</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          {importError && <span className="text-xs text-red-400 max-w-[240px] truncate" title={importError}>{importError}</span>}
+          <input ref={importInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImportChange} />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-1.5 text-sm text-zinc-300 hover:text-white py-1.5 px-3 rounded-full border border-zinc-700 hover:border-zinc-500 disabled:opacity-50"
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import
+          </button>
+          <button
+            onClick={onCreateProject}
+            className="flex items-center gap-1.5 bg-white text-black text-sm font-bold py-1.5 px-4 rounded-full hover:bg-zinc-200"
+          >
+            <Plus className="w-4 h-4" />
+            New Project
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 p-6">
+        {projects.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center text-zinc-500 py-24">
+            <FolderOpen className="w-12 h-12 mb-4 opacity-30" />
+            <p className="text-sm">No projects yet. Create one to get started.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {projects.map(project => (
+              <ProjectCard
+                key={project.id}
+                project={project}
+                isCurrent={project.id === currentProjectId}
+                onOpen={() => onOpenProject(project.id)}
+                onRename={(name) => onRenameProject(project.id, name)}
+                onDuplicate={() => onDuplicateProject(project.id)}
+                onDelete={() => onDeleteProject(project.id)}
+                onExport={(includeSourceVideo) => onExportProject(project.id, includeSourceVideo)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectBrowser;
@@ -1,7 +1,11 @@
 
 import React, { useState } from 'react';
 import { AnalysisResult, Segment } from '../types';
-import { Sparkles, Film, Music, Layers, Clock, Loader2, Pencil, Check, X, RefreshCw, Download } from 'lucide-react';
+import { Sparkles, Film, Music, Layers, Clock, Loader2, Pencil, Check, X, RefreshCw, Download, Move, PlayCircle, AlertCircle, RotateCcw, Plus, Scissors, Merge, Trash2 } from 'lucide-react';
+import { ERROR_KIND_LABELS } from '../constants';
+import { getTracks } from '../utils/tracks';
+import { canSplitAt, getNextSegmentOnTrack } from '../utils/segments';
+import MediaDropZone from './MediaDropZone';
 
 // Inline SegmentCard component with full editing capabilities
 interface SegmentCardProps {
@@ -10,6 +14,13 @@ interface SegmentCardProps {
   onGenerateVideo: (segment: Segment) => Promise<string | null>;
   onUpdatePrompts: (segmentId: string, prompt: string, animationPrompt: string) => void;
   onRegenerateImage: (segment: Segment) => void;
+  onRetry?: (segment: Segment) => void;
+  onCancelVideo?: (segment: Segment) => void;
+  onUploadMedia?: (segment: Segment, file: File) => Promise<void>;
+  onSplit?: () => void;
+  onMerge?: () => void; // Undefined when there is no following segment to merge with
+  onDelete?: () => void;
+  disabled?: boolean;
 }
 
 const SegmentCard: React.FC<SegmentCardProps> = ({
@@ -18,6 +29,13 @@ const SegmentCard: React.FC<SegmentCardProps> = ({
   onGenerateVideo,
   onUpdatePrompts,
   onRegenerateImage,
+  onRetry,
+  onCancelVideo,
+  onUploadMedia,
+  onSplit,
+  onMerge,
+  onDelete,
+  disabled = false,
 }) => {
   // Default to edit mode if no image has been generated yet
   const [isEditing, setIsEditing] = useState(!segment.imageUrl);
@@ -89,6 +107,11 @@ const SegmentCard: React.FC<SegmentCardProps> = ({
             <div className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800 rounded-full text-xs text-zinc-300">
               <Loader2 className="w-3 h-3 animate-spin" />
               {segment.status === 'generating-image' ? 'Generating...' : 'Animating...'}
+              {segment.status === 'generating-video' && onCancelVideo && (
+                <button onClick={() => onCancelVideo(segment)} className="text-zinc-500 hover:text-red-400" title="Cancel video generation">
+                  <X className="w-3 h-3" />
+                </button>
+              )}
             </div>
           )}
           {segment.status === 'video-success' && (
@@ -98,11 +121,58 @@ const SegmentCard: React.FC<SegmentCardProps> = ({
             <span className="px-3 py-1.5 bg-yellow-500/20 text-yellow-400 rounded-full text-xs font-medium">Image Ready</span>
           )}
           {segment.status === 'error' && (
-            <span className="px-3 py-1.5 bg-red-500/20 text-red-400 rounded-full text-xs font-medium">Error</span>
+            <span className="px-3 py-1.5 bg-red-500/20 text-red-400 rounded-full text-xs font-medium">
+              {ERROR_KIND_LABELS[segment.errorKind || 'unknown']}
+            </span>
           )}
         </div>
+
+        {/* Segment editing */}
+        <div className="shrink-0 flex items-center gap-1">
+          <button
+            onClick={onSplit}
+            disabled={!onSplit || isGenerating}
+            className="p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            title="Split in half"
+          >
+            <Scissors className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onMerge}
+            disabled={!onMerge || isGenerating}
+            className="p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            title="Merge with the next segment"
+          >
+            <Merge className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onDelete}
+            disabled={!onDelete}
+            className="p-1.5 rounded-md text-zinc-500 hover:text-red-400 hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            title="Delete segment"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
       </div>
 
+      {/* Error details with retry */}
+      {segment.status === 'error' && (
+        <div className="flex items-center gap-3 px-4 py-3 bg-red-900/10 border-b border-red-900/30">
+          <AlertCircle className="w-4 h-4 text-red-400 shrink-0" />
+          <p className="flex-1 min-w-0 text-xs text-red-300/80 truncate" title={segment.error}>{segment.error || 'Generation failed.'}</p>
+          {onRetry && (
+            <button
+              onClick={() => onRetry(segment)}
+              disabled={disabled}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs bg-red-600 hover:bg-red-500 disabled:opacity-50 text-white rounded-full transition-colors"
+            >
+              <RotateCcw className="w-3 h-3" /> Retry {segment.imageUrl ? 'Animation' : 'Image'}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Main Content Area */}
       <div className="flex flex-col lg:flex-row">
         {/* Left: Prompts */}
@@ -175,7 +245,7 @@ const SegmentCard: React.FC<SegmentCardProps> = ({
               )}
               <button
                 onClick={handleSaveAndGenerate}
-                disabled={disabled || isBatchProcessing}
+                disabled={disabled}
                 className="flex items-center gap-1 px-3 py-1.5 text-xs bg-green-600 hover:bg-green-500 text-white rounded-full transition-colors disabled:opacity-50"
               >
                 {hasImage ? (
@@ -190,8 +260,12 @@ const SegmentCard: React.FC<SegmentCardProps> = ({
 
         {/* Right: Preview & Actions */}
         <div className="lg:w-80 p-4 border-t lg:border-t-0 lg:border-l border-zinc-800/50 flex flex-col gap-4">
-          {/* Preview Area */}
-          <div className="aspect-video bg-black rounded-lg overflow-hidden border border-zinc-700 relative">
+          {/* Preview Area - a dropped image or clip replaces the generated overlay */}
+          <MediaDropZone
+            onUpload={onUploadMedia && ((file) => onUploadMedia(segment, file))}
+            disabled={disabled || isGenerating}
+            className="aspect-video bg-black rounded-lg overflow-hidden border border-zinc-700"
+          >
             {hasVideo ? (
               <video
                 src={segment.videoUrl}
@@ -219,7 +293,7 @@ const SegmentCard: React.FC<SegmentCardProps> = ({
                 <PlayCircle className="w-5 h-5 text-white drop-shadow-lg" />
               </div>
             )}
-          </div>
+          </MediaDropZone>
 
           {/* Action Buttons */}
           <div className="flex flex-wrap gap-2">
@@ -279,6 +353,14 @@ interface PromptSelectorProps {
   onViewSegment: (segment: Segment) => void;
   onUpdateSegmentPrompts: (segmentId: string, prompt: string, animationPrompt: string) => void;
   onRegenerateImage: (segment: Segment) => void;
+  onRetrySegment?: (segment: Segment) => void;
+  onCancelSegmentVideo?: (segment: Segment) => void;
+  onUploadSegmentMedia?: (segment: Segment, file: File) => Promise<void>;
+  onAddSegment?: () => void;
+  onDeleteSegment?: (segmentId: string) => void;
+  onSplitSegment?: (segmentId: string) => void;
+  onMergeSegment?: (segmentId: string) => void;
+  isBatchProcessing?: boolean;
 }
 
 const PromptSelector: React.FC<PromptSelectorProps> = ({
@@ -288,7 +370,17 @@ const PromptSelector: React.FC<PromptSelectorProps> = ({
   onViewSegment,
   onUpdateSegmentPrompts,
   onRegenerateImage,
+  onRetrySegment,
+  onCancelSegmentVideo,
+  onUploadSegmentMedia,
+  onAddSegment,
+  onDeleteSegment,
+  onSplitSegment,
+  onMergeSegment,
+  isBatchProcessing = false,
 }) => {
+  const tracks = getTracks(analysis.tracks);
+
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
       
@@ -311,7 +403,8 @@ const PromptSelector: React.FC<PromptSelectorProps> = ({
       </div>
 
       <div>
-        <div className="mb-6">
+        <div className="mb-6 flex items-end justify-between gap-4">
+          <div>
             <h3 className="text-xl font-bold text-white flex items-center gap-2">
               <Layers className="w-5 h-5 text-green-400" />
               Detected Topics & Segments
@@ -319,19 +412,44 @@ const PromptSelector: React.FC<PromptSelectorProps> = ({
             <p className="text-zinc-400 text-sm mt-1">
               Generate Green Screen overlays for each topic, then animate them with Veo.
             </p>
+          </div>
+          {onAddSegment && (
+            <button
+              onClick={onAddSegment}
+              disabled={isBatchProcessing}
+              className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-xs bg-zinc-800 hover:bg-zinc-700 text-white rounded-full border border-zinc-700 transition-colors disabled:opacity-50"
+              title="Add a segment after the last one"
+            >
+              <Plus className="w-3 h-3" /> Add Segment
+            </button>
+          )}
         </div>
 
         <div className="space-y-4">
-          {analysis.segments.map((segment) => (
-            <SegmentCard
-              key={segment.id}
-              segment={segment}
-              onGenerateImage={onGenerateSegmentImage}
-              onGenerateVideo={onGenerateSegmentVideo}
-              onUpdatePrompts={onUpdateSegmentPrompts}
-              onRegenerateImage={onRegenerateImage}
-            />
-          ))}
+          {/* Text segments are edited in the timeline editor; there is nothing to generate for them */}
+          {analysis.segments.filter(segment => !segment.textOverlay).map((segment) => {
+            const next = getNextSegmentOnTrack(analysis.segments, segment, tracks);
+            const canMerge = !!next && next.status !== 'generating-image' && next.status !== 'generating-video';
+            return (
+              <SegmentCard
+                key={segment.id}
+                segment={segment}
+                onGenerateImage={onGenerateSegmentImage}
+                onGenerateVideo={onGenerateSegmentVideo}
+                onUpdatePrompts={onUpdateSegmentPrompts}
+                onRegenerateImage={onRegenerateImage}
+                onRetry={onRetrySegment}
+                onCancelVideo={onCancelSegmentVideo}
+                onUploadMedia={onUploadSegmentMedia}
+                onSplit={onSplitSegment && canSplitAt(segment, segment.timestamp + (segment.duration || 5) / 2)
+                  ? () => onSplitSegment(segment.id)
+                  : undefined}
+                onMerge={onMergeSegment && canMerge ? () => onMergeSegment(segment.id) : undefined}
+                onDelete={onDeleteSegment ? () => onDeleteSegment(segment.id) : undefined}
+                disabled={isBatchProcessing}
+              />
+            );
+          })}
         </div>
       </div>
     </div>
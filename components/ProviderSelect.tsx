@@ -0,0 +1,37 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { listProviders } from '../services/providerRegistry';
+
+interface ProviderSelectProps {
+  value: string;
+  onChange: (providerId: string) => void;
+  disabled?: boolean;
+}
+
+const ProviderSelect: React.FC<ProviderSelectProps> = ({ value, onChange, disabled = false }) => {
+  const providers = listProviders();
+  const active = providers.find(p => p.id === value);
+
+  return (
+    <label
+      className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs text-zinc-400 hover:bg-zinc-800 transition-colors"
+      title={active?.description || 'Generation provider'}
+    >
+      <Cpu className="w-4 h-4" />
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="bg-transparent text-zinc-300 focus:outline-none cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {providers.map(provider => (
+          <option key={provider.id} value={provider.id} className="bg-zinc-900">
+            {provider.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default ProviderSelect;
@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListOrdered, Loader2, Clock, CheckCircle2, AlertCircle, X, Image, Video, Plus, Minus, Trash2 } from 'lucide-react';
+import { generationQueue, GenerationJob, GenerationQueueSnapshot } from '../services/generationQueue';
+import { listProviders } from '../services/providerRegistry';
+import { logger } from '../utils/logger';
+
+const getModelLabel = (model: string): string => {
+  for (const provider of listProviders()) {
+    if (provider.models.image === model) return `${provider.name} · Image`;
+    if (provider.models.video === model) return `${provider.name} · Video`;
+  }
+  return model;
+};
+
+const formatElapsed = (from: number, to: number = Date.now()): string => {
+  const seconds = Math.max(0, Math.round((to - from) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// Inline JobRow component
+const JobRow: React.FC<{ job: GenerationJob; onCancel?: () => void }> = ({ job, onCancel }) => {
+  const KindIcon = job.kind === 'image' ? Image : Video;
+
+  let statusIcon: React.ReactNode;
+  let timing = '';
+  switch (job.status) {
+    case 'running':
+      statusIcon = <Loader2 className="w-3 h-3 text-purple-400 animate-spin" />;
+      timing = formatElapsed(job.startedAt ?? job.enqueuedAt);
+      break;
+    case 'queued':
+      statusIcon = <Clock className="w-3 h-3 text-zinc-500" />;
+      timing = `waiting ${formatElapsed(job.enqueuedAt)}`;
+      break;
+    case 'done':
+      statusIcon = <CheckCircle2 className="w-3 h-3 text-green-400" />;
+      timing = formatElapsed(job.startedAt ?? job.enqueuedAt, job.finishedAt);
+      break;
+    case 'error':
+      statusIcon = <AlertCircle className="w-3 h-3 text-red-400" />;
+      timing = 'failed';
+      break;
+    case 'cancelled':
+      statusIcon = <X className="w-3 h-3 text-zinc-600" />;
+      timing = 'cancelled';
+      break;
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-zinc-800/50" title={job.error}>
+      {statusIcon}
+      <KindIcon className="w-3 h-3 text-zinc-500 shrink-0" />
+      <span className="flex-1 min-w-0 text-xs text-zinc-300 truncate">{job.label}</span>
+      <span className="text-[10px] text-zinc-500 font-mono shrink-0">{timing}</span>
+      {onCancel && (
+        <button onClick={onCancel} className="text-zinc-500 hover:text-red-400" title="Remove from queue">
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Header button plus dropdown listing generation jobs that are waiting, running and done.
+ */
+const QueuePanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [snapshot, setSnapshot] = useState<GenerationQueueSnapshot>(() => generationQueue.getSnapshot());
+  const [, setTick] = useState(0);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => generationQueue.subscribe(setSnapshot), []);
+
+  const running = snapshot.jobs.filter(j => j.status === 'running');
+  const queued = snapshot.jobs
+    .filter(j => j.status === 'queued')
+    .sort((a, b) => b.priority - a.priority || a.enqueuedAt - b.enqueuedAt);
+  const finished = snapshot.jobs.filter(j => j.status !== 'running' && j.status !== 'queued').reverse();
+  const activeCount = running.length + queued.length;
+  // Models with a configured limit, plus any other model that has had jobs this session
+  const models = Array.from(new Set([...Object.keys(snapshot.concurrency), ...snapshot.jobs.map(j => j.model)]));
+  const getLimit = (model: string) => snapshot.concurrency[model] ?? generationQueue.getConcurrency(model);
+
+  // Refresh elapsed times while the panel is open and something is in progress
+  useEffect(() => {
+    if (!isOpen || activeCount === 0) return;
+    const interval = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, activeCount]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const handleCancel = (job: GenerationJob) => {
+    logger.ui.buttonClick(`cancelJob-${job.id}`);
+    generationQueue.cancel(job.id);
+  };
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs transition-colors ${
+          isOpen ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+        }`}
+        title="Generation queue"
+      >
+        {running.length > 0 ? <Loader2 className="w-4 h-4 animate-spin text-purple-400" /> : <ListOrdered className="w-4 h-4" />}
+        Queue
+        {activeCount > 0 && (
+          <span className="px-1.5 rounded-full bg-purple-500/20 text-purple-300 text-[10px] font-bold">{activeCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+          {/* Concurrency per model */}
+          <div className="p-3 border-b border-zinc-800 space-y-2">
+            <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Parallel requests</p>
+            {models.map(model => (
+              <div key={model} className="flex items-center justify-between">
+                <span className="text-xs text-zinc-300" title={model}>{getModelLabel(model)}</span>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => generationQueue.setConcurrency(model, getLimit(model) - 1)}
+                    disabled={getLimit(model) <= 1}
+                    className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30"
+                  >
+                    <Minus className="w-3 h-3" />
+                  </button>
+                  <span className="w-5 text-center text-xs font-mono text-white">{getLimit(model)}</span>
+                  <button
+                    onClick={() => generationQueue.setConcurrency(model, getLimit(model) + 1)}
+                    className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800"
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto p-2 space-y-3">
+            {snapshot.jobs.length === 0 && (
+              <p className="text-xs text-zinc-500 text-center py-4">No generation jobs yet.</p>
+            )}
+
+            {running.length > 0 && (
+              <div>
+                <p className="px-2 pb-1 text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Running</p>
+                {running.map(job => <JobRow key={job.id} job={job} />)}
+              </div>
+            )}
+
+            {queued.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between px-2 pb-1">
+                  <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Waiting</p>
+                  <button onClick={() => generationQueue.cancelAll()} className="text-[10px] text-zinc-500 hover:text-red-400">
+                    Cancel all
+                  </button>
+                </div>
+                {queued.map(job => <JobRow key={job.id} job={job} onCancel={() => handleCancel(job)} />)}
+              </div>
+            )}
+
+            {finished.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between px-2 pb-1">
+                  <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Done</p>
+                  <button
+                    onClick={() => generationQueue.clearFinished()}
+                    className="text-zinc-500 hover:text-white"
+                    title="Clear finished jobs"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                {finished.map(job => <JobRow key={job.id} job={job} />)}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueuePanel;
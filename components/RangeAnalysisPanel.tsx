@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { ScanSearch, Loader2, X } from 'lucide-react';
+import { TimeRange } from '../types';
+import { formatTime } from '../utils/videoUtils';
+
+interface RangeAnalysisPanelProps {
+  range: TimeRange;
+  duration: number;
+  currentTime: number;
+  onChangeRange: (range: TimeRange) => void;
+  onClose: () => void;
+  onReanalyze: (range: TimeRange, instructions: string) => Promise<void>;
+}
+
+// Shorter ranges don't leave the model enough video to find a moment in
+const MIN_RANGE_SECONDS = 1;
+
+const inputClass = 'w-16 bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 font-mono focus:outline-none focus:border-purple-500';
+const playheadButtonClass = 'text-[10px] text-zinc-500 hover:text-white';
+
+/**
+ * Re-run analysis on a selected part of the timeline, optionally with extra guidance.
+ * Segments that already have generated media are kept; the rest of the range is replaced.
+ */
+const RangeAnalysisPanel: React.FC<RangeAnalysisPanelProps> = ({
+  range,
+  duration,
+  currentTime,
+  onChangeRange,
+  onClose,
+  onReanalyze
+}) => {
+  const [instructions, setInstructions] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isValid = range.end - range.start >= MIN_RANGE_SECONDS;
+
+  const setStart = (start: number) => onChangeRange({ start: Math.max(0, Math.min(start, range.end)), end: range.end });
+  const setEnd = (end: number) => onChangeRange({ start: range.start, end: Math.min(duration, Math.max(end, range.start)) });
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      await onReanalyze(range, instructions);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || 'Failed to analyze the range.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="p-3 border-b border-zinc-800 bg-purple-900/10 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-purple-300 uppercase tracking-wider flex items-center gap-2">
+          <ScanSearch className="w-3 h-3" />
+          Re-analyze range
+        </h4>
+        <button onClick={onClose} className="p-0.5 rounded text-zinc-500 hover:text-white" title="Clear range">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <fieldset disabled={isRunning} className="space-y-2 disabled:opacity-50">
+        <div className="flex items-center gap-1.5 text-[10px] text-zinc-500">
+          <input
+            type="number"
+            min={0}
+            max={range.end}
+            step={0.1}
+            value={Math.round(range.start * 10) / 10}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value)) setStart(value);
+            }}
+            className={inputClass}
+            title="Range start in seconds"
+          />
+          <button onClick={() => setStart(currentTime)} className={playheadButtonClass} title="Start at playhead">
+            ⇤
+          </button>
+          <span>to</span>
+          <input
+            type="number"
+            min={range.start}
+            max={duration}
+            step={0.1}
+            value={Math.round(range.end * 10) / 10}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value)) setEnd(value);
+            }}
+            className={inputClass}
+            title="Range end in seconds"
+          />
+          <button onClick={() => setEnd(currentTime)} className={playheadButtonClass} title="End at playhead">
+            ⇥
+          </button>
+          <span className="ml-auto font-mono">{formatTime(range.end - range.start)}</span>
+        </div>
+
+        <textarea
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          placeholder="Optional guidance, e.g. focus on statistics mentioned"
+          rows={2}
+          className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 placeholder-zinc-600 resize-none focus:outline-none focus:border-purple-500"
+        />
+
+        <button
+          onClick={handleRun}
+          disabled={!isValid}
+          className="w-full flex items-center justify-center gap-1.5 px-2 py-1.5 rounded bg-purple-600 hover:bg-purple-500 text-xs text-white font-medium disabled:opacity-50 disabled:hover:bg-purple-600"
+        >
+          {isRunning ? <Loader2 className="w-3 h-3 animate-spin" /> : <ScanSearch className="w-3 h-3" />}
+          {isRunning ? 'Analyzing...' : `Analyze ${formatTime(range.start)} – ${formatTime(range.end)}`}
+        </button>
+      </fieldset>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+      <p className="text-[10px] text-zinc-600">
+        Shift-drag on the scrub bar to select. Segments with generated media are kept.
+      </p>
+    </div>
+  );
+};
+
+export default RangeAnalysisPanel;
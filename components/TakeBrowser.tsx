@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Columns2, Trash2, Check } from 'lucide-react';
+import { GenerationTake, TakeKind } from '../types';
+import { getTakeSourceLabel } from '../utils/takes';
+
+interface TakeBrowserProps {
+  kind: TakeKind;
+  takes: GenerationTake[];
+  activeTakeId?: string;
+  disabled?: boolean;
+  onSelect: (takeId: string) => void;
+  onDelete: (takeId: string) => void;
+}
+
+const formatTakeTime = (createdAt: number): string => {
+  return new Date(createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+// Inline TakeMedia component
+const TakeMedia: React.FC<{ kind: TakeKind; url: string; playing?: boolean }> = ({ kind, url, playing = false }) => (
+  kind === 'image'
+    ? <img src={url} alt="Take" className="w-full h-full object-contain" draggable={false} />
+    : <video src={url} className="w-full h-full object-contain" muted loop playsInline autoPlay={playing} preload="metadata" />
+);
+
+/**
+ * Every image or clip generated for a segment: pick the active take, or compare two side by side.
+ */
+const TakeBrowser: React.FC<TakeBrowserProps> = ({ kind, takes, activeTakeId, disabled = false, onSelect, onDelete }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Drop deleted takes from the comparison
+  const compared = compareIds
+    .map(id => takes.find(t => t.id === id))
+    .filter((t): t is GenerationTake => !!t);
+
+  const toggleCompare = (takeId: string) => {
+    setCompareIds(prev => prev.includes(takeId)
+      ? prev.filter(id => id !== takeId)
+      : [...prev, takeId].slice(-2));
+  };
+
+  const getTakeNumber = (take: GenerationTake) => takes.indexOf(take) + 1;
+
+  return (
+    <div className="p-3 rounded-lg bg-zinc-900/50 border border-zinc-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-wider">
+          {kind === 'image' ? 'Image' : 'Animation'} Takes ({takes.length})
+        </h4>
+        <span className="text-[10px] text-zinc-500">Click to use · <Columns2 className="w-3 h-3 inline" /> to compare</span>
+      </div>
+
+      {/* Side-by-side comparison */}
+      {compared.length === 2 && (
+        <div className="grid grid-cols-2 gap-3">
+          {compared.map(take => (
+            <div key={take.id} className="space-y-1.5">
+              <div className={`aspect-video bg-black rounded-lg overflow-hidden border ${take.id === activeTakeId ? 'border-green-500' : 'border-zinc-700'}`}>
+                <TakeMedia kind={kind} url={take.url} playing />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[10px] text-zinc-400 font-mono truncate">
+                  #{getTakeNumber(take)} · {getTakeSourceLabel(take)} · {formatTakeTime(take.createdAt)}
+                </span>
+                {take.id === activeTakeId ? (
+                  <span className="flex items-center gap-1 text-[10px] text-green-400 shrink-0"><Check className="w-3 h-3" /> Active</span>
+                ) : (
+                  <button
+                    onClick={() => onSelect(take.id)}
+                    disabled={disabled}
+                    className="text-[10px] px-2 py-0.5 rounded-full bg-green-600 hover:bg-green-500 text-white shrink-0 disabled:opacity-50"
+                  >
+                    Use this take
+                  </button>
+                )}
+              </div>
+              <p className="text-[11px] text-zinc-500 line-clamp-3" title={take.prompt}>{take.prompt}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Take strip */}
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {takes.map(take => {
+          const isActive = take.id === activeTakeId;
+          const isCompared = compareIds.includes(take.id);
+          return (
+            <div key={take.id} className="relative shrink-0 group">
+              <button
+                onClick={() => !isActive && onSelect(take.id)}
+                disabled={disabled}
+                className={`block w-28 aspect-video bg-black rounded-md overflow-hidden border-2 transition-colors ${
+                  isActive ? 'border-green-500' : isCompared ? 'border-purple-500' : 'border-zinc-800 hover:border-zinc-600'
+                }`}
+                title={`${take.prompt}\n${getTakeSourceLabel(take)} · ${formatTakeTime(take.createdAt)}`}
+              >
+                <TakeMedia kind={kind} url={take.url} />
+              </button>
+              <span className="absolute bottom-1 left-1 px-1 rounded bg-black/70 text-[9px] text-zinc-300 font-mono">
+                #{getTakeNumber(take)}
+              </span>
+              <div className="absolute top-1 right-1 flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => toggleCompare(take.id)}
+                  className={`p-0.5 rounded bg-black/70 ${isCompared ? 'text-purple-400' : 'text-zinc-300 hover:text-white'}`}
+                  title={isCompared ? 'Remove from comparison' : 'Compare'}
+                >
+                  <Columns2 className="w-3 h-3" />
+                </button>
+                {!isActive && (
+                  <button
+                    onClick={() => onDelete(take.id)}
+                    disabled={disabled}
+                    className="p-0.5 rounded bg-black/70 text-zinc-300 hover:text-red-400"
+                    title="Delete take"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TakeBrowser;
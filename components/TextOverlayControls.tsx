@@ -0,0 +1,133 @@
+import React from 'react';
+import { Type } from 'lucide-react';
+import { TextOverlay, TextOverlayKind, TextAnimation, TextFont } from '../types';
+import { TEXT_OVERLAY_KIND_LABELS, TEXT_ANIMATION_LABELS, TEXT_FONT_LABELS } from '../constants';
+
+interface TextOverlayControlsProps {
+  overlay: TextOverlay;
+  onChange: (changes: Partial<TextOverlay>) => void;
+  disabled?: boolean;
+}
+
+const fieldClass = 'bg-zinc-800 border border-zinc-700 rounded px-1.5 py-0.5 text-[10px] text-zinc-300 focus:outline-none focus:border-purple-500';
+const labelClass = 'text-[10px] text-zinc-500 w-12 shrink-0';
+
+/**
+ * Inline editor for a text segment: its kind, wording, look and build-in animation.
+ * Position, size on screen and enter/exit transitions use the regular overlay controls.
+ */
+const TextOverlayControls: React.FC<TextOverlayControlsProps> = ({ overlay, onChange, disabled = false }) => {
+  const isCounter = overlay.kind === 'counter';
+  const updateNumber = (key: 'countFrom' | 'countTo', value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) onChange({ [key]: parsed });
+  };
+
+  return (
+    <fieldset disabled={disabled} className="bg-zinc-800/50 rounded-lg p-2 space-y-2 disabled:opacity-50">
+      <div className="flex items-center gap-1.5">
+        <Type className="w-3 h-3 text-cyan-400" />
+        <span className="text-[10px] text-zinc-500 uppercase tracking-wider flex-1">Text</span>
+        <select
+          value={overlay.kind}
+          onChange={(e) => onChange({ kind: e.target.value as TextOverlayKind })}
+          className={fieldClass}
+        >
+          {(Object.keys(TEXT_OVERLAY_KIND_LABELS) as TextOverlayKind[]).map(kind => (
+            <option key={kind} value={kind}>{TEXT_OVERLAY_KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+      </div>
+
+      <textarea
+        value={overlay.text}
+        onChange={(e) => onChange({ text: e.target.value })}
+        rows={2}
+        placeholder={isCounter ? 'Label under the number' : 'Text'}
+        className={`${fieldClass} w-full text-xs resize-none`}
+      />
+      {isCounter ? (
+        <div className="flex items-center gap-1.5">
+          <span className={labelClass}>Count</span>
+          <input
+            type="number"
+            value={overlay.countFrom}
+            onChange={(e) => updateNumber('countFrom', e.target.value)}
+            className={`${fieldClass} w-0 flex-1 font-mono`}
+            title="From"
+          />
+          <span className="text-[10px] text-zinc-600">→</span>
+          <input
+            type="number"
+            value={overlay.countTo}
+            onChange={(e) => updateNumber('countTo', e.target.value)}
+            className={`${fieldClass} w-0 flex-1 font-mono`}
+            title="To"
+          />
+        </div>
+      ) : (
+        <input
+          type="text"
+          value={overlay.subtitle}
+          onChange={(e) => onChange({ subtitle: e.target.value })}
+          placeholder="Second line (optional)"
+          className={`${fieldClass} w-full`}
+        />
+      )}
+
+      <div className="flex items-center gap-1.5">
+        <span className={labelClass}>Font</span>
+        <select
+          value={overlay.font}
+          onChange={(e) => onChange({ font: e.target.value as TextFont })}
+          className={`${fieldClass} flex-1 min-w-0`}
+        >
+          {(Object.keys(TEXT_FONT_LABELS) as TextFont[]).map(font => (
+            <option key={font} value={font}>{TEXT_FONT_LABELS[font]}</option>
+          ))}
+        </select>
+        <input
+          type="color"
+          value={overlay.textColor}
+          onChange={(e) => onChange({ textColor: e.target.value.toUpperCase() })}
+          className="w-6 h-5 bg-transparent border border-zinc-700 rounded cursor-pointer"
+          title="Text color"
+        />
+        <input
+          type="color"
+          value={overlay.accentColor}
+          onChange={(e) => onChange({ accentColor: e.target.value.toUpperCase() })}
+          className="w-6 h-5 bg-transparent border border-zinc-700 rounded cursor-pointer"
+          title={isCounter ? 'Number color' : 'Accent color'}
+        />
+      </div>
+      <div className="flex items-center gap-1.5">
+        <span className={labelClass}>Size</span>
+        <input
+          type="range"
+          min={2}
+          max={25}
+          step={0.5}
+          value={overlay.size}
+          onChange={(e) => onChange({ size: parseFloat(e.target.value) })}
+          className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+        <span className="text-[10px] text-zinc-400 w-8 text-right">{overlay.size}%</span>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <span className={labelClass}>Build in</span>
+        <select
+          value={overlay.animationIn}
+          onChange={(e) => onChange({ animationIn: e.target.value as TextAnimation })}
+          className={`${fieldClass} flex-1 min-w-0`}
+        >
+          {(Object.keys(TEXT_ANIMATION_LABELS) as TextAnimation[]).map(animation => (
+            <option key={animation} value={animation}>{TEXT_ANIMATION_LABELS[animation]}</option>
+          ))}
+        </select>
+      </div>
+    </fieldset>
+  );
+};
+
+export default TextOverlayControls;
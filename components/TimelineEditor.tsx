@@ -1,17 +1,36 @@
 
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Play, Pause, SkipBack, SkipForward, Volume2, VolumeX,
   Layers, Film, Sparkles, Eye, EyeOff, Upload, Sliders,
   Diamond, Maximize2, ZoomIn, ZoomOut, Clock, GripVertical, GripHorizontal,
-  Plus, Minus, Loader2, StopCircle, CheckCircle2, Image, Video, Move, RotateCcw
+  Plus, Minus, Loader2, StopCircle, CheckCircle2, Image, Video, Move, RotateCcw, FolderOpen, Wand2, AlertCircle, X,
+  Lock, Unlock, ChevronUp, ChevronDown, Trash2, Scissors, Merge, ScanSearch, FileText, Captions, Type, Library
 } from 'lucide-react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
-import { AnalysisResult, Segment, GenerationPipelineState, ChromaKeySettings, DEFAULT_CHROMA_KEY_SETTINGS, OverlayTransform, DEFAULT_OVERLAY_TRANSFORM } from '../types';
+import { AnalysisResult, Segment, Track, GenerationPipelineState, ChromaKeySettings, DEFAULT_CHROMA_KEY_SETTINGS, OverlayTransform, DEFAULT_OVERLAY_TRANSFORM, OverlayKeyframe, KeyframeEasing, SegmentTransition, TransitionEdge, TimeRange, AnalysisSettings, CaptionCue, CaptionTrack, TextOverlay, TextOverlayKind } from '../types';
 import { formatTime } from '../utils/videoUtils';
-import { MAX_VIDEO_SIZE_MB } from '../constants';
+import { MAX_VIDEO_SIZE_MB, ERROR_KIND_LABELS, KEYFRAME_EASING_LABELS, MIN_CAPTION_SEC, TEXT_OVERLAY_KIND_LABELS, ASSET_DRAG_TYPE } from '../constants';
+import { LibraryAsset } from '../services/assetLibrary';
 import ChromaKeyControls from './ChromaKeyControls';
-import { createChromaKeyCanvas, sampleColorFromImage } from '../utils/chromaKey';
+import ExportControls from './ExportControls';
+import QueuePanel from './QueuePanel';
+import HistoryPanel from './HistoryPanel';
+import ProviderSelect from './ProviderSelect';
+import OverlayLayer from './OverlayLayer';
+import TransitionControls from './TransitionControls';
+import RangeAnalysisPanel from './RangeAnalysisPanel';
+import AnalysisSettingsPanel from './AnalysisSettingsPanel';
+import TranscriptPanel from './TranscriptPanel';
+import CaptionsPanel from './CaptionsPanel';
+import CaptionLayer from './CaptionLayer';
+import TextOverlayControls from './TextOverlayControls';
+import MediaDropZone from './MediaDropZone';
+import AssetLibraryPanel from './AssetLibraryPanel';
+import { sampleColorFromImage } from '../utils/chromaKey';
+import { getTracks, getSegmentTrack, isTrackShown, getCompositeSegments } from '../utils/tracks';
+import { getTransformAtTime, upsertKeyframe, findKeyframeAt, sortKeyframes } from '../utils/keyframes';
+import { canSplitAt, getNextSegmentOnTrack, hasOverlayContent } from '../utils/segments';
 
 interface TimelineEditorProps {
   videoUrl: string | null;
@@ -24,10 +43,52 @@ interface TimelineEditorProps {
   onUpdateSegmentTimestamp: (segmentId: string, newTimestamp: number) => void;
   onUpdateChromaKey: (segmentId: string, settings: ChromaKeySettings) => void;
   onUpdateOverlayTransform: (segmentId: string, transform: OverlayTransform) => void;
+  onUpdateKeyframes?: (segmentId: string, keyframes: OverlayKeyframe[]) => void;
+  onUpdateTransition?: (segmentId: string, edge: TransitionEdge, transition: SegmentTransition) => void;
+  onAddTrack?: () => void;
+  onUpdateTrack?: (trackId: string, updates: Partial<Track>) => void;
+  onMoveTrack?: (trackId: string, direction: 1 | -1) => void;
+  onDeleteTrack?: (trackId: string) => void;
+  onUpdateSegmentTrack?: (segmentId: string, trackId: string) => void;
   hasKey: boolean;
   onConnectKey: () => void;
   onGenerateSegmentImage?: (segment: Segment) => Promise<string | null>;
   onGenerateSegmentVideo?: (segment: Segment) => Promise<string | null>;
+  onShowProjects?: () => void;
+  missingSourceVideo?: { fileName: string | null; size: number | null } | null;
+  onRelinkVideo?: (file: File) => void;
+  onRetrySegment?: (segment: Segment) => void;
+  onCancelSegmentVideo?: (segment: Segment) => void;
+  providerId?: string;
+  onProviderChange?: (providerId: string) => void;
+  onRunPipeline?: () => void;
+  onPausePipeline?: () => void;
+  onResumePipeline?: () => void;
+  onStopPipeline?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onTravelHistory?: (entryId: string | null) => void;
+  onAddSegment?: (time?: number, trackId?: string) => void;
+  onDeleteSegment?: (segmentId: string) => void;
+  onSplitSegment?: (segmentId: string, time?: number) => void;
+  onMergeSegment?: (segmentId: string) => void;
+  onReanalyzeRange?: (range: TimeRange, instructions: string) => Promise<void>;
+  analysisSettings?: AnalysisSettings;
+  onUpdateAnalysisSettings?: (settings: AnalysisSettings) => void;
+  onCreateSegmentFromPhrase?: (start: number, end: number, text: string, trackId?: string) => void;
+  onCreateCaptions?: () => void;
+  onAddCaptionCue?: (time: number) => void;
+  onUpdateCaptionCue?: (cueId: string, changes: Partial<Omit<CaptionCue, 'id'>>) => void;
+  onDeleteCaptionCue?: (cueId: string) => void;
+  onUpdateCaptions?: (changes: Partial<Omit<CaptionTrack, 'cues'>>) => void;
+  onAddTextSegment?: (kind: TextOverlayKind, time: number, trackId?: string) => void;
+  onUpdateTextOverlay?: (segmentId: string, changes: Partial<TextOverlay>) => void;
+  onUploadSegmentMedia?: (segment: Segment, file: File) => Promise<void>;
+  assets?: LibraryAsset[];
+  onSaveSegmentToLibrary?: (segment: Segment) => Promise<void>;
+  onUpdateAsset?: (assetId: string, changes: Partial<Pick<LibraryAsset, 'name' | 'tags'>>) => void;
+  onDeleteAsset?: (assetId: string) => void;
+  onAddSegmentFromAsset?: (asset: LibraryAsset, time: number, trackId?: string) => Promise<void>;
 }
 
 interface LayerVisibility {
@@ -37,6 +98,16 @@ interface LayerVisibility {
 
 type SegmentDragMode = 'move' | 'resize-start' | 'resize-end' | null;
 
+type SidebarView = 'segments' | 'transcript' | 'captions' | 'library';
+
+interface CaptionDragState {
+  cueId: string;
+  mode: Exclude<SegmentDragMode, null>;
+  initialMouseX: number;
+  initialStart: number;
+  initialEnd: number;
+}
+
 interface SegmentDragState {
   segmentId: string;
   mode: SegmentDragMode;
@@ -56,15 +127,54 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
   onUpdateSegmentTimestamp,
   onUpdateChromaKey,
   onUpdateOverlayTransform,
+  onUpdateKeyframes,
+  onUpdateTransition,
+  onAddTrack,
+  onUpdateTrack,
+  onMoveTrack,
+  onDeleteTrack,
+  onUpdateSegmentTrack,
   hasKey,
   onConnectKey,
   onGenerateSegmentImage,
-  onGenerateSegmentVideo
+  onGenerateSegmentVideo,
+  onShowProjects,
+  missingSourceVideo,
+  onRelinkVideo,
+  onRetrySegment,
+  onCancelSegmentVideo,
+  providerId,
+  onProviderChange,
+  onRunPipeline,
+  onPausePipeline,
+  onResumePipeline,
+  onStopPipeline,
+  onUndo,
+  onRedo,
+  onTravelHistory,
+  onAddSegment,
+  onDeleteSegment,
+  onSplitSegment,
+  onMergeSegment,
+  onReanalyzeRange,
+  analysisSettings,
+  onUpdateAnalysisSettings,
+  onCreateSegmentFromPhrase,
+  onCreateCaptions,
+  onAddCaptionCue,
+  onUpdateCaptionCue,
+  onDeleteCaptionCue,
+  onUpdateCaptions,
+  onAddTextSegment,
+  onUpdateTextOverlay,
+  onUploadSegmentMedia,
+  assets,
+  onSaveSegmentToLibrary,
+  onUpdateAsset,
+  onDeleteAsset,
+  onAddSegmentFromAsset
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const overlayVideoRef = useRef<HTMLVideoElement>(null);
-  const overlayImageRef = useRef<HTMLImageElement>(null);
-  const chromaCanvasRef = useRef<HTMLCanvasElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
   const animationTrackRef = useRef<HTMLDivElement>(null);
   const previewContainerRef = useRef<HTMLDivElement>(null);
@@ -81,15 +191,68 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
     animation: true
   });
   const [segmentDrag, setSegmentDrag] = useState<SegmentDragState | null>(null);
+  // Part of the timeline picked for re-analysis, and where a shift-drag selecting it started
+  const [selectedRange, setSelectedRange] = useState<TimeRange | null>(null);
+  const [rangeDragAnchor, setRangeDragAnchor] = useState<number | null>(null);
+  const [sidebarView, setSidebarView] = useState<SidebarView>('segments');
+  // Caption picked on the timeline lane or in the captions panel
+  const [selectedCaptionId, setSelectedCaptionId] = useState<string | null>(null);
+  const [captionDrag, setCaptionDrag] = useState<CaptionDragState | null>(null);
+  // Track lane a library asset is being dragged over
+  const [assetDropTrackId, setAssetDropTrackId] = useState<string | null>(null);
+  const [librarySave, setLibrarySave] = useState<{ segmentId: string; status: 'saving' | 'saved' | 'error'; message?: string } | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [fileError, setFileError] = useState<string | null>(null);
+  // File picked for re-linking that doesn't match the project's original source video
+  const [relinkMismatchFile, setRelinkMismatchFile] = useState<File | null>(null);
 
   // Chroma key state
   const [isPickingColor, setIsPickingColor] = useState(false);
 
   // Overlay drag state
   const [isOverlayDragging, setIsOverlayDragging] = useState(false);
-  const [overlayDragStart, setOverlayDragStart] = useState<{ x: number; y: number; initialTransform: OverlayTransform } | null>(null);
+  const [overlayDragStart, setOverlayDragStart] = useState<{ segmentId: string; x: number; y: number; initialTransform: OverlayTransform } | null>(null);
+
+  // Tracks bottom to top; the track lanes list them top to bottom like the composite stacks them
+  const tracks = useMemo(() => getTracks(analysis?.tracks), [analysis?.tracks]);
+  const displayTracks = useMemo(() => [...tracks].reverse(), [tracks]);
+
+  // Every overlay to composite at the playhead, bottom-most first
+  const activeSegments = useMemo(
+    () => analysis ? getCompositeSegments(analysis.segments, tracks, currentTime) : [],
+    [analysis, tracks, currentTime]
+  );
+
+  // Transcript and captions tabs only appear once there is something to show in them
+  const sidebarTabs: { view: SidebarView; label: string; Icon: typeof Layers }[] = [
+    { view: 'segments', label: 'Segments', Icon: Layers },
+    ...(analysis?.transcript ? [{ view: 'transcript' as const, label: 'Transcript', Icon: FileText }] : []),
+    ...(onCreateCaptions && (analysis?.transcript || analysis?.captions) ? [{ view: 'captions' as const, label: 'Captions', Icon: Captions }] : []),
+    ...(assets && onAddSegmentFromAsset ? [{ view: 'library' as const, label: 'Library', Icon: Library }] : [])
+  ];
+  const activeSidebarView = sidebarTabs.some(tab => tab.view === sidebarView) ? sidebarView : 'segments';
+
+  const isSegmentLocked = (segment: Segment) => getSegmentTrack(segment, tracks).locked;
+  const isSegmentGenerating = (segment: Segment) => segment.status === 'generating-image' || segment.status === 'generating-video';
+
+  // New segments go on the selected segment's track, or the lowest unlocked one
+  const newSegmentTrack = activeSegment && !isSegmentLocked(activeSegment)
+    ? getSegmentTrack(activeSegment, tracks)
+    : tracks.find(t => !t.locked);
+
+  // Seconds into the segment at the playhead, clamped to the segment
+  const getSegmentTime = (segment: Segment) => {
+    return Math.max(0, Math.min(segment.duration || 5, currentTime - segment.timestamp));
+  };
+
+  // Once a segment has keyframes, transform edits set the keyframe at the playhead
+  const applyTransformEdit = (segment: Segment, transform: OverlayTransform) => {
+    if (segment.keyframes?.length && onUpdateKeyframes) {
+      onUpdateKeyframes(segment.id, upsertKeyframe(segment.keyframes, getSegmentTime(segment), transform));
+    } else {
+      onUpdateOverlayTransform(segment.id, transform);
+    }
+  };
 
   // File picker handlers
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -113,8 +276,21 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
       return;
     }
     setFileError(null);
+
+    // Re-linking a project's missing source video rather than starting a new analysis
+    if (missingSourceVideo && onRelinkVideo) {
+      const nameMatches = !missingSourceVideo.fileName || missingSourceVideo.fileName === file.name;
+      const sizeMatches = missingSourceVideo.size === null || missingSourceVideo.size === file.size;
+      if (!nameMatches || !sizeMatches) {
+        setRelinkMismatchFile(file);
+        return;
+      }
+      onRelinkVideo(file);
+      return;
+    }
+
     onFileSelect(file);
-  }, [onFileSelect]);
+  }, [onFileSelect, missingSourceVideo, onRelinkVideo]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -133,6 +309,7 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
 
   // Pipeline helpers
   const getPhaseLabel = () => {
+    if (pipelineState.isPaused) return 'Paused';
     switch (pipelineState.currentPhase) {
       case 'prompts': return 'Generating prompts...';
       case 'images': return 'Creating images...';
@@ -143,6 +320,7 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
   };
 
   const getSegmentStatusIcon = (segment: Segment) => {
+    if (segment.textOverlay) return <Type className="w-4 h-4 text-cyan-400" />;
     if (segment.status === 'video-success') return <CheckCircle2 className="w-4 h-4 text-green-400" />;
     if (segment.status === 'generating-video') return <Loader2 className="w-4 h-4 text-purple-400 animate-spin" />;
     if (segment.status === 'image-success') return <Image className="w-4 h-4 text-blue-400" />;
@@ -150,18 +328,19 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
     return <div className="w-4 h-4 rounded-full border-2 border-zinc-600" />;
   };
 
-  // Find the currently active segment based on playback time
-  const findActiveSegment = useCallback((time: number): Segment | null => {
+  // Pick the segment to select at a playback time: keep the current selection while the
+  // playhead is still inside it, otherwise take the top-most overlay being shown
+  const findActiveSegment = useCallback((time: number, current: Segment | null): Segment | null => {
     if (!analysis) return null;
-    // Find segment that contains this time (using segment's duration)
-    for (const segment of analysis.segments) {
-      const segmentDuration = segment.duration || 5;
-      if (time >= segment.timestamp && time < segment.timestamp + segmentDuration) {
-        return segment;
+    if (current) {
+      const latest = analysis.segments.find(s => s.id === current.id);
+      if (latest && time >= latest.timestamp && time < latest.timestamp + (latest.duration || 5)) {
+        return latest;
       }
     }
-    return null;
-  }, [analysis]);
+    const shown = getCompositeSegments(analysis.segments, tracks, time);
+    return shown[shown.length - 1] || null;
+  }, [analysis, tracks]);
 
   // Sync activeSegment when analysis changes (to pick up chromaKey updates)
   useEffect(() => {
@@ -192,20 +371,8 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
 
     const handleTimeUpdate = () => {
       setCurrentTime(video.currentTime);
-      const segment = findActiveSegment(video.currentTime);
-      setActiveSegment(segment);
-
-      // Sync overlay video if present
-      if (overlayVideoRef.current && segment?.videoUrl) {
-        const overlayVideo = overlayVideoRef.current;
-        const segmentTime = video.currentTime - segment.timestamp;
-        if (Math.abs(overlayVideo.currentTime - segmentTime) > 0.3) {
-          overlayVideo.currentTime = segmentTime;
-        }
-        if (isPlaying && overlayVideo.paused) {
-          overlayVideo.play().catch(() => {});
-        }
-      }
+      // Overlay clips follow currentTime themselves (see OverlayLayer)
+      setActiveSegment(prev => findActiveSegment(video.currentTime, prev));
     };
 
     const handleLoadedMetadata = () => {
@@ -213,10 +380,7 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
     };
 
     const handlePlay = () => setIsPlaying(true);
-    const handlePause = () => {
-      setIsPlaying(false);
-      overlayVideoRef.current?.pause();
-    };
+    const handlePause = () => setIsPlaying(false);
 
     // Check if video already has metadata loaded (handles case where loadedmetadata fired before this effect)
     if (video.readyState >= 1 && video.duration) {
@@ -234,17 +398,15 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
       video.removeEventListener('play', handlePlay);
       video.removeEventListener('pause', handlePause);
     };
-  }, [findActiveSegment, isPlaying, videoUrl]);
+  }, [findActiveSegment, videoUrl]);
 
   // Playback controls
   const togglePlay = () => {
     if (!videoRef.current) return;
     if (isPlaying) {
       videoRef.current.pause();
-      overlayVideoRef.current?.pause();
     } else {
       videoRef.current.play();
-      overlayVideoRef.current?.play().catch(() => {});
     }
   };
 
@@ -264,14 +426,65 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
     videoRef.current.currentTime = Math.min(duration, videoRef.current.currentTime + 5);
   };
 
+  const seekTo = (time: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = Math.max(0, Math.min(duration, time));
+  };
+
+  // Library assets dropped on a track lane become a segment where they land
+  const handleAssetDragOver = (e: React.DragEvent, track: Track) => {
+    if (!onAddSegmentFromAsset || track.locked || !e.dataTransfer.types.includes(ASSET_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setAssetDropTrackId(track.id);
+  };
+
+  const handleAssetDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setAssetDropTrackId(null);
+  };
+
+  const handleAssetDrop = (e: React.DragEvent, track: Track) => {
+    setAssetDropTrackId(null);
+    const asset = assets?.find(a => a.id === e.dataTransfer.getData(ASSET_DRAG_TYPE));
+    if (!asset || !onAddSegmentFromAsset || track.locked) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration;
+    onAddSegmentFromAsset(asset, time, track.id).catch(err => console.error('[AssetLibrary] Failed to place asset:', err));
+  };
+
+  const saveSegmentToLibrary = async (segment: Segment) => {
+    if (!onSaveSegmentToLibrary) return;
+    setLibrarySave({ segmentId: segment.id, status: 'saving' });
+    try {
+      await onSaveSegmentToLibrary(segment);
+      setLibrarySave({ segmentId: segment.id, status: 'saved' });
+    } catch (err: any) {
+      console.error(err);
+      setLibrarySave({ segmentId: segment.id, status: 'error', message: err?.message || 'Could not save to the library.' });
+    }
+  };
+
   const jumpToSegment = (segment: Segment) => {
     if (!videoRef.current) return;
     videoRef.current.currentTime = segment.timestamp;
     setActiveSegment(segment);
   };
 
+  const jumpToCaption = (cue: CaptionCue) => {
+    seekTo(cue.start);
+    setSelectedCaptionId(cue.id);
+  };
+
+  const getTimeAtClientX = (clientX: number) => {
+    if (!timelineRef.current) return 0;
+    const rect = timelineRef.current.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
   // Timeline scrubbing
   const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.shiftKey && onReanalyzeRange) return; // Finished a range selection
     if (!timelineRef.current || !videoRef.current) return;
     const rect = timelineRef.current.getBoundingClientRect();
     const x = e.clientX - rect.left;
@@ -293,6 +506,32 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
     setIsDragging(false);
   }, []);
 
+  // Shift-drag on the scrub bar selects a range to re-analyze
+  const handleTimelineMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.shiftKey && onReanalyzeRange && duration > 0) {
+      const time = getTimeAtClientX(e.clientX);
+      setRangeDragAnchor(time);
+      setSelectedRange({ start: time, end: time });
+      return;
+    }
+    setIsDragging(true);
+  };
+
+  useEffect(() => {
+    if (rangeDragAnchor === null) return;
+    const handleMove = (e: MouseEvent) => {
+      const time = getTimeAtClientX(e.clientX);
+      setSelectedRange({ start: Math.min(rangeDragAnchor, time), end: Math.max(rangeDragAnchor, time) });
+    };
+    const handleUp = () => setRangeDragAnchor(null);
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [rangeDragAnchor, duration]);
+
   useEffect(() => {
     if (isDragging) {
       window.addEventListener('mousemove', handleTimelineDrag);
@@ -312,6 +551,7 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
   ) => {
     e.stopPropagation();
     e.preventDefault();
+    if (isSegmentLocked(segment)) return;
     setSegmentDrag({
       segmentId: segment.id,
       mode,
@@ -369,6 +609,42 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
     };
   }, [segmentDrag, handleSegmentDragMove, handleSegmentDragEnd]);
 
+  // Caption cue drag handlers, same gestures as segment clips
+  const handleCaptionDragStart = (e: React.MouseEvent, cue: CaptionCue, mode: CaptionDragState['mode']) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setSelectedCaptionId(cue.id);
+    if (!onUpdateCaptionCue) return;
+    setCaptionDrag({ cueId: cue.id, mode, initialMouseX: e.clientX, initialStart: cue.start, initialEnd: cue.end });
+  };
+
+  const handleCaptionDragMove = useCallback((e: MouseEvent) => {
+    if (!captionDrag || !animationTrackRef.current || !onUpdateCaptionCue) return;
+    const deltaTime = ((e.clientX - captionDrag.initialMouseX) / animationTrackRef.current.getBoundingClientRect().width) * duration;
+    const round = (time: number) => Math.round(time * 10) / 10;
+    const { cueId, mode, initialStart, initialEnd } = captionDrag;
+
+    if (mode === 'move') {
+      const start = Math.max(0, Math.min(duration - (initialEnd - initialStart), initialStart + deltaTime));
+      onUpdateCaptionCue(cueId, { start: round(start), end: round(start + initialEnd - initialStart) });
+    } else if (mode === 'resize-start') {
+      onUpdateCaptionCue(cueId, { start: round(Math.max(0, Math.min(initialEnd - MIN_CAPTION_SEC, initialStart + deltaTime))) });
+    } else {
+      onUpdateCaptionCue(cueId, { end: round(Math.min(duration, initialEnd + deltaTime)) });
+    }
+  }, [captionDrag, duration, onUpdateCaptionCue]);
+
+  useEffect(() => {
+    if (!captionDrag) return;
+    const handleUp = () => setCaptionDrag(null);
+    window.addEventListener('mousemove', handleCaptionDragMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleCaptionDragMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [captionDrag, handleCaptionDragMove]);
+
   const toggleLayerVisibility = (layer: keyof LayerVisibility) => {
     setLayerVisibility(prev => ({ ...prev, [layer]: !prev[layer] }));
   };
@@ -379,21 +655,23 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
   };
 
   // Overlay drag handlers
-  const handleOverlayDragStart = useCallback((e: React.MouseEvent) => {
-    if (isPickingColor || !activeSegment) return;
+  const handleOverlayDragStart = (e: React.MouseEvent, segment: Segment) => {
+    if (isPickingColor || isSegmentLocked(segment)) return;
     e.preventDefault();
     e.stopPropagation();
-    const currentTransform = activeSegment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM;
+    const currentTransform = getTransformAtTime(segment, getSegmentTime(segment));
+    setActiveSegment(segment);
     setIsOverlayDragging(true);
     setOverlayDragStart({
+      segmentId: segment.id,
       x: e.clientX,
       y: e.clientY,
       initialTransform: { ...currentTransform }
     });
-  }, [isPickingColor, activeSegment]);
+  };
 
   const handleOverlayDragMove = useCallback((e: MouseEvent) => {
-    if (!isOverlayDragging || !overlayDragStart || !activeSegment || !previewContainerRef.current) return;
+    if (!isOverlayDragging || !overlayDragStart || !previewContainerRef.current) return;
 
     const container = previewContainerRef.current;
     const rect = container.getBoundingClientRect();
@@ -405,12 +683,14 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
     const newX = Math.max(-50, Math.min(50, overlayDragStart.initialTransform.x + deltaX));
     const newY = Math.max(-50, Math.min(50, overlayDragStart.initialTransform.y + deltaY));
 
-    onUpdateOverlayTransform(activeSegment.id, {
+    const segment = analysis?.segments.find(s => s.id === overlayDragStart.segmentId);
+    if (!segment) return;
+    applyTransformEdit(segment, {
       ...overlayDragStart.initialTransform,
       x: Math.round(newX * 10) / 10,
       y: Math.round(newY * 10) / 10
     });
-  }, [isOverlayDragging, overlayDragStart, activeSegment, onUpdateOverlayTransform]);
+  }, [isOverlayDragging, overlayDragStart, analysis?.segments, applyTransformEdit]);
 
   const handleOverlayDragEnd = useCallback(() => {
     setIsOverlayDragging(false);
@@ -433,8 +713,9 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
     return activeSegment?.chromaKey || { ...DEFAULT_CHROMA_KEY_SETTINGS };
   };
 
-  const handlePreviewClick = (e: React.MouseEvent<HTMLImageElement | HTMLVideoElement | HTMLCanvasElement>) => {
-    if (!isPickingColor || !activeSegment) return;
+  const handlePreviewClick = (e: React.MouseEvent<HTMLImageElement | HTMLVideoElement | HTMLCanvasElement>, segment: Segment) => {
+    // Only sample from the overlay the eyedropper was opened for
+    if (!isPickingColor || !activeSegment || segment.id !== activeSegment.id) return;
 
     const target = e.currentTarget;
     const rect = target.getBoundingClientRect();
@@ -447,35 +728,24 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
     setIsPickingColor(false);
   };
 
-  // Update chroma canvas when active segment changes or settings change
-  const updateChromaCanvas = useCallback(() => {
-    if (!chromaCanvasRef.current || !activeSegment) return;
-
-    const settings = activeSegment.chromaKey || DEFAULT_CHROMA_KEY_SETTINGS;
-    if (!settings.enabled) return;
-
-    const source = activeSegment.videoUrl
-      ? overlayVideoRef.current
-      : overlayImageRef.current;
-
-    if (!source) return;
+  const projectsButton = onShowProjects && (
+    <button
+      onClick={onShowProjects}
+      className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+      title="Browse projects"
+    >
+      <FolderOpen className="w-4 h-4" />
+      Projects
+    </button>
+  );
 
-    const canvas = createChromaKeyCanvas(source as HTMLImageElement | HTMLVideoElement, settings);
-    const ctx = chromaCanvasRef.current.getContext('2d');
-    if (ctx) {
-      chromaCanvasRef.current.width = canvas.width;
-      chromaCanvasRef.current.height = canvas.height;
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(canvas, 0, 0);
-    }
-  }, [activeSegment]);
+  const providerSelect = providerId && onProviderChange && (
+    <ProviderSelect value={providerId} onChange={onProviderChange} disabled={isLoading || pipelineState.isRunning} />
+  );
 
-  // Trigger chroma canvas update when settings change
-  useEffect(() => {
-    if (activeSegment?.chromaKey?.enabled) {
-      updateChromaCanvas();
-    }
-  }, [activeSegment?.chromaKey, updateChromaCanvas]);
+  const analysisSettingsPanel = analysisSettings && onUpdateAnalysisSettings && (
+    <AnalysisSettingsPanel settings={analysisSettings} onChange={onUpdateAnalysisSettings} disabled={isLoading} />
+  );
 
   // Empty state - no video loaded
   if (!videoUrl) {
@@ -487,6 +757,11 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
             <Film className="w-5 h-5 text-purple-400" />
             <h1 className="text-lg font-bold text-white">Timeline Editor</h1>
           </div>
+          <div className="flex items-center gap-2">
+            {analysisSettingsPanel}
+            {providerSelect}
+            {projectsButton}
+          </div>
         </div>
 
         {/* Empty timeline with file picker */}
@@ -524,8 +799,19 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                 <Upload className={`w-10 h-10 ${dragActive ? 'text-purple-400' : 'text-zinc-400'}`} />
               </div>
               <div>
-                <h3 className="text-2xl font-bold text-white mb-2">Drop a video to begin</h3>
-                <p className="text-zinc-400">or click to browse your files</p>
+                {missingSourceVideo ? (
+                  <>
+                    <h3 className="text-2xl font-bold text-white mb-2">Re-link source video</h3>
+                    <p className="text-zinc-400">
+                      This project's video{missingSourceVideo.fileName ? ` (${missingSourceVideo.fileName})` : ''} isn't stored on this device. Drop it here or click to browse.
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <h3 className="text-2xl font-bold text-white mb-2">Drop a video to begin</h3>
+                    <p className="text-zinc-400">or click to browse your files</p>
+                  </>
+                )}
               </div>
               <div className="text-xs text-zinc-500 px-4 py-2 bg-zinc-900 rounded-full border border-zinc-800">
                 Max size: {MAX_VIDEO_SIZE_MB}MB • MP4, MOV, WebM
@@ -533,6 +819,18 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
             </div>
           </div>
           {fileError && <p className="text-red-400 text-sm mt-4">{fileError}</p>}
+          {relinkMismatchFile && onRelinkVideo && (
+            <div className="mt-4 flex items-center gap-3 text-sm text-amber-400">
+              <span>{relinkMismatchFile.name} doesn't match the original video. Segment timings may be off.</span>
+              <button
+                onClick={() => { onRelinkVideo(relinkMismatchFile); setRelinkMismatchFile(null); }}
+                className="px-3 py-1 rounded-full bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 text-xs font-medium"
+              >
+                Use anyway
+              </button>
+              <button onClick={() => setRelinkMismatchFile(null)} className="text-xs text-zinc-500 hover:text-white">Cancel</button>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -548,6 +846,7 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
             <Film className="w-5 h-5 text-purple-400" />
             <h1 className="text-lg font-bold text-white">Timeline Editor</h1>
           </div>
+          {projectsButton}
         </div>
 
         {/* Loading content */}
@@ -576,14 +875,77 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
         <div className="flex items-center gap-3">
           <Film className="w-5 h-5 text-purple-400" />
           <h1 className="text-lg font-bold text-white">Timeline Editor</h1>
+          {projectsButton}
+          <QueuePanel />
+          {onUndo && onRedo && onTravelHistory && (
+            <HistoryPanel onUndo={onUndo} onRedo={onRedo} onTravel={onTravelHistory} />
+          )}
+          {providerSelect}
+          {analysisSettingsPanel}
         </div>
 
-        {/* Center: Spacer */}
+        {/* Center: Batch pipeline controls */}
         <div className="flex items-center gap-4">
+          {analysis && onRunPipeline && (
+            pipelineState.isRunning ? (
+              <div className="flex items-center gap-3 px-3 py-1.5 bg-zinc-800 rounded-full text-xs">
+                {pipelineState.isPaused
+                  ? <Pause className="w-3 h-3 text-amber-400" />
+                  : <Loader2 className="w-3 h-3 text-purple-400 animate-spin" />}
+                <span className="text-zinc-300 font-medium">{getPhaseLabel()}</span>
+                <span className="text-zinc-500 font-mono">
+                  {pipelineState.currentPhase === 'videos'
+                    ? pipelineState.progress.videosGenerated
+                    : pipelineState.progress.imagesGenerated}/{pipelineState.progress.totalSegments}
+                </span>
+                {pipelineState.isPaused ? (
+                  <button onClick={onResumePipeline} className="text-zinc-400 hover:text-white" title="Resume">
+                    <Play className="w-3 h-3" />
+                  </button>
+                ) : (
+                  <button onClick={onPausePipeline} className="text-zinc-400 hover:text-white" title="Pause after the current step">
+                    <Pause className="w-3 h-3" />
+                  </button>
+                )}
+                <button onClick={onStopPipeline} className="text-zinc-400 hover:text-red-400" title="Stop after the current step">
+                  <StopCircle className="w-3 h-3" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-3">
+                {pipelineState.currentPhase === 'complete' && (
+                  <span className="flex items-center gap-1 text-xs text-green-400">
+                    <CheckCircle2 className="w-3 h-3" />
+                    {getPhaseLabel()}
+                  </span>
+                )}
+                <button
+                  onClick={onRunPipeline}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white text-xs font-bold transition-colors"
+                  title="Generate images, then animations, for every segment that doesn't have them yet"
+                >
+                  <Wand2 className="w-3 h-3" />
+                  Generate All
+                </button>
+              </div>
+            )
+          )}
         </div>
 
-        {/* Right: Zoom controls */}
+        {/* Right: Export + Zoom controls */}
         <div className="flex items-center gap-2">
+          {analysis && (
+            <>
+              <ExportControls
+                videoUrl={videoUrl}
+                segments={analysis.segments}
+                tracks={tracks}
+                captions={analysis.captions}
+                disabled={pipelineState.isRunning}
+              />
+              <div className="w-px h-5 bg-zinc-800 mx-1" />
+            </>
+          )}
           <button
             onClick={() => setZoom(Math.max(0.5, zoom - 0.25))}
             className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white"
@@ -620,83 +982,31 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                     playsInline
                   />
 
-                  {/* Animation Overlay Layer - with chroma key support */}
-                  {activeSegment?.videoUrl && layerVisibility.animation && (() => {
-                    const transform = activeSegment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM;
-                    const transformStyle = {
-                      transform: `translate(${transform.x}%, ${transform.y}%) scale(${transform.scale})`,
-                      ...(activeSegment.chromaKey?.enabled ? {} : { mixBlendMode: 'screen' as const }),
-                      cursor: isPickingColor ? 'crosshair' : (isOverlayDragging ? 'grabbing' : 'grab')
-                    };
-                    return (
-                      <>
-                        {/* Hidden video for chroma key processing */}
-                        <video
-                          ref={overlayVideoRef}
-                          src={activeSegment.videoUrl}
-                          className={`absolute inset-0 w-full h-full object-contain ${activeSegment.chromaKey?.enabled ? 'hidden' : ''}`}
-                          style={transformStyle}
-                          muted
-                          loop
-                          playsInline
-                          onClick={handlePreviewClick}
-                          onMouseDown={handleOverlayDragStart}
-                          onTimeUpdate={activeSegment.chromaKey?.enabled ? updateChromaCanvas : undefined}
-                        />
-                        {/* Chroma keyed canvas overlay */}
-                        {activeSegment.chromaKey?.enabled && (
-                          <canvas
-                            ref={chromaCanvasRef}
-                            className="absolute inset-0 w-full h-full object-contain"
-                            style={{
-                              transform: `translate(${transform.x}%, ${transform.y}%) scale(${transform.scale})`,
-                              cursor: isPickingColor ? 'crosshair' : (isOverlayDragging ? 'grabbing' : 'grab')
-                            }}
-                            onClick={handlePreviewClick}
-                            onMouseDown={handleOverlayDragStart}
-                          />
-                        )}
-                      </>
-                    );
-                  })()}
-
-                  {/* Static Image Overlay (when no video) - with chroma key support */}
-                  {activeSegment?.imageUrl && !activeSegment.videoUrl && layerVisibility.animation && (() => {
-                    const transform = activeSegment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM;
-                    const transformStyle = {
-                      transform: `translate(${transform.x}%, ${transform.y}%) scale(${transform.scale})`,
-                      ...(activeSegment.chromaKey?.enabled ? {} : { mixBlendMode: 'screen' as const }),
-                      cursor: isPickingColor ? 'crosshair' : (isOverlayDragging ? 'grabbing' : 'grab')
-                    };
-                    return (
-                      <>
-                        <img
-                          ref={overlayImageRef}
-                          src={activeSegment.imageUrl}
-                          alt="Overlay"
-                          className={`absolute inset-0 w-full h-full object-contain ${activeSegment.chromaKey?.enabled ? 'hidden' : ''}`}
-                          style={transformStyle}
-                          onClick={handlePreviewClick}
-                          onMouseDown={handleOverlayDragStart}
-                          onLoad={activeSegment.chromaKey?.enabled ? updateChromaCanvas : undefined}
-                          draggable={false}
-                        />
-                        {/* Chroma keyed canvas overlay */}
-                        {activeSegment.chromaKey?.enabled && (
-                          <canvas
-                            ref={chromaCanvasRef}
-                            className="absolute inset-0 w-full h-full object-contain"
-                            style={{
-                              transform: `translate(${transform.x}%, ${transform.y}%) scale(${transform.scale})`,
-                              cursor: isPickingColor ? 'crosshair' : (isOverlayDragging ? 'grabbing' : 'grab')
-                            }}
-                            onClick={handlePreviewClick}
-                            onMouseDown={handleOverlayDragStart}
-                          />
-                        )}
-                      </>
-                    );
-                  })()}
+                  {/* Overlay layers, one per segment under the playhead, bottom track first */}
+                  {layerVisibility.animation && activeSegments.map(segment => hasOverlayContent(segment) && (
+                    <OverlayLayer
+                      key={segment.id}
+                      segment={segment}
+                      currentTime={currentTime}
+                      isPlaying={isPlaying}
+                      baseVideoRef={videoRef}
+                      isPickingColor={isPickingColor}
+                      isDragging={isOverlayDragging && overlayDragStart?.segmentId === segment.id}
+                      isLocked={isSegmentLocked(segment)}
+                      onClick={handlePreviewClick}
+                      onDragStart={handleOverlayDragStart}
+                    />
+                  ))}
+
+                  {/* Captions draw over every overlay track */}
+                  {analysis?.captions?.visible && (
+                    <CaptionLayer
+                      captions={analysis.captions}
+                      currentTime={currentTime}
+                      isPlaying={isPlaying}
+                      baseVideoRef={videoRef}
+                    />
+                  )}
 
                   {/* Eyedropper mode indicator */}
                   {isPickingColor && (
@@ -760,80 +1070,280 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
 
                   {/* Timeline Overlay at bottom of video */}
                   <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/70 to-transparent pt-8 pb-2 px-3">
-                    {/* Animation Track with Segments */}
-                    <div
-                      ref={animationTrackRef}
-                      className="h-8 bg-zinc-800/50 rounded border border-zinc-700/50 relative overflow-visible mb-2"
-                    >
-                      {/* Segment clips on animation track */}
-                      {analysis?.segments.map((segment) => {
-                        const isVideoComplete = segment.status === 'video-success';
-                        const isImageComplete = segment.status === 'image-success';
-                        const left = getSegmentPosition(segment.timestamp);
-                        const segmentDuration = segment.duration || 5;
-                        const width = duration > 0 ? (segmentDuration / duration) * 100 : 5;
-                        const isDraggingThis = segmentDrag?.segmentId === segment.id;
-
-                        const getStatusClass = () => {
-                          if (isVideoComplete) return 'bg-gradient-to-r from-green-600/80 to-green-500/60 border border-green-400/50 hover:border-green-400';
-                          if (segment.status === 'generating-video') return 'bg-gradient-to-r from-purple-600/60 to-purple-500/40 border border-purple-400/50 animate-pulse';
-                          if (isImageComplete) return 'bg-gradient-to-r from-blue-600/60 to-blue-500/40 border border-blue-400/50';
-                          if (segment.status === 'generating-image') return 'bg-gradient-to-r from-blue-600/40 to-blue-500/20 border border-blue-400/30 animate-pulse';
-                          return 'bg-zinc-700/50 border border-zinc-600/50 border-dashed';
-                        };
-
-                        return (
+                    {/* Overlay tracks: headers on the left, segment lanes on the right (top track first) */}
+                    <div className="flex gap-2 mb-2">
+                      <div className="w-44 shrink-0 space-y-1">
+                        {analysis?.captions && (
                           <div
-                            key={`${segment.id}-${segment.status}`}
-                            className={`
-                              absolute top-0.5 bottom-0.5 rounded cursor-grab select-none
-                              ${getStatusClass()}
-                              ${activeSegment?.id === segment.id ? 'ring-2 ring-white/50' : ''}
-                              ${isDraggingThis ? 'ring-2 ring-purple-500 cursor-grabbing z-20' : 'z-10'}
-                            `}
-                            style={{ left: `${left}%`, width: `${Math.max(width, 2)}%` }}
-                            title={`${segment.topic} (${segmentDuration}s)`}
-                            onMouseDown={(e) => handleSegmentDragStart(e, segment, 'move')}
-                            onClick={(e) => { e.stopPropagation(); jumpToSegment(segment); }}
+                            className={`h-7 flex items-center gap-1 px-1.5 rounded border ${
+                              analysis.captions.visible ? 'bg-zinc-800/70 border-zinc-700/50' : 'bg-zinc-900/70 border-zinc-800/50'
+                            }`}
                           >
+                            <Captions className={`w-3 h-3 ${analysis.captions.visible ? 'text-amber-300' : 'text-zinc-600'}`} />
+                            <span className={`flex-1 min-w-0 truncate text-[10px] font-medium ${analysis.captions.visible ? 'text-zinc-300' : 'text-zinc-600'}`}>
+                              Captions
+                            </span>
+                            {onUpdateCaptions && (
+                              <button
+                                onClick={() => onUpdateCaptions({ visible: !analysis.captions?.visible })}
+                                className={`p-0.5 rounded ${analysis.captions.visible ? 'text-zinc-300 hover:text-white' : 'text-zinc-600 hover:text-zinc-400'}`}
+                                title={analysis.captions.visible ? 'Hide captions' : 'Show captions'}
+                              >
+                                {analysis.captions.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                              </button>
+                            )}
+                          </div>
+                        )}
+                        {displayTracks.map((track, displayIndex) => {
+                          const isShown = isTrackShown(track, tracks);
+                          return (
                             <div
-                              className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-purple-500/50 rounded-l transition-colors"
-                              onMouseDown={(e) => handleSegmentDragStart(e, segment, 'resize-start')}
-                            />
-                            <div className="px-1.5 py-0.5 overflow-hidden pointer-events-none">
-                              <span className="text-[8px] text-white font-medium truncate block">{segment.topic}</span>
+                              key={track.id}
+                              className={`h-7 flex items-center gap-0.5 px-1.5 rounded border ${
+                                isShown ? 'bg-zinc-800/70 border-zinc-700/50' : 'bg-zinc-900/70 border-zinc-800/50'
+                              }`}
+                            >
+                              <span className={`flex-1 min-w-0 truncate text-[10px] font-medium ${isShown ? 'text-zinc-300' : 'text-zinc-600'}`} title={track.name}>
+                                {track.name}
+                              </span>
+                              {onUpdateTrack && (
+                                <>
+                                  <button
+                                    onClick={() => onUpdateTrack(track.id, { visible: !track.visible })}
+                                    className={`p-0.5 rounded ${track.visible ? 'text-zinc-300 hover:text-white' : 'text-zinc-600 hover:text-zinc-400'}`}
+                                    title={track.visible ? 'Hide track' : 'Show track'}
+                                  >
+                                    {track.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                                  </button>
+                                  <button
+                                    onClick={() => onUpdateTrack(track.id, { solo: !track.solo })}
+                                    className={`w-4 h-4 rounded text-[9px] font-bold leading-none ${track.solo ? 'bg-amber-500/30 text-amber-300' : 'text-zinc-500 hover:text-white'}`}
+                                    title={track.solo ? 'Unsolo track' : 'Solo track'}
+                                  >
+                                    S
+                                  </button>
+                                  <button
+                                    onClick={() => onUpdateTrack(track.id, { locked: !track.locked })}
+                                    className={`p-0.5 rounded ${track.locked ? 'text-red-400 hover:text-red-300' : 'text-zinc-500 hover:text-white'}`}
+                                    title={track.locked ? 'Unlock track' : 'Lock track'}
+                                  >
+                                    {track.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                                  </button>
+                                </>
+                              )}
+                              {onMoveTrack && (
+                                <>
+                                  <button
+                                    onClick={() => onMoveTrack(track.id, 1)}
+                                    disabled={displayIndex === 0}
+                                    className="p-0.5 rounded text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                                    title="Move track up (draw over)"
+                                  >
+                                    <ChevronUp className="w-3 h-3" />
+                                  </button>
+                                  <button
+                                    onClick={() => onMoveTrack(track.id, -1)}
+                                    disabled={displayIndex === displayTracks.length - 1}
+                                    className="p-0.5 rounded text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                                    title="Move track down (draw under)"
+                                  >
+                                    <ChevronDown className="w-3 h-3" />
+                                  </button>
+                                </>
+                              )}
+                              {onDeleteTrack && tracks.length > 1 && (
+                                <button
+                                  onClick={() => onDeleteTrack(track.id)}
+                                  disabled={track.locked}
+                                  className="p-0.5 rounded text-zinc-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-zinc-500"
+                                  title="Delete track (its segments move to the bottom track)"
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </button>
+                              )}
                             </div>
-                            <div
-                              className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-purple-500/50 rounded-r transition-colors"
-                              onMouseDown={(e) => handleSegmentDragStart(e, segment, 'resize-end')}
-                            />
+                          );
+                        })}
+                      </div>
+
+                      <div ref={animationTrackRef} className="flex-1 min-w-0 space-y-1">
+                        {/* Caption cues, above the overlay tracks like they draw above them */}
+                        {analysis?.captions && (
+                          <div className={`h-7 bg-zinc-800/50 rounded border border-zinc-700/50 relative overflow-hidden ${analysis.captions.visible ? '' : 'opacity-40'}`}>
+                            {analysis.captions.cues.map(cue => (
+                              <div
+                                key={cue.id}
+                                className={`
+                                  absolute top-0.5 bottom-0.5 rounded select-none overflow-hidden
+                                  bg-amber-500/30 border border-amber-400/50 hover:border-amber-300
+                                  ${onUpdateCaptionCue ? 'cursor-grab' : 'cursor-pointer'}
+                                  ${selectedCaptionId === cue.id ? 'ring-2 ring-white/50 z-20' : 'z-10'}
+                                `}
+                                style={{
+                                  left: `${getSegmentPosition(cue.start)}%`,
+                                  width: `${duration > 0 ? ((cue.end - cue.start) / duration) * 100 : 1}%`,
+                                  minWidth: 3
+                                }}
+                                title={`${formatTime(cue.start)} ${cue.text}`}
+                                onMouseDown={(e) => handleCaptionDragStart(e, cue, 'move')}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  jumpToCaption(cue);
+                                  setSidebarView('captions');
+                                }}
+                              >
+                                {onUpdateCaptionCue && (
+                                  <div
+                                    className="absolute left-0 top-0 bottom-0 w-1 cursor-ew-resize hover:bg-amber-300/50"
+                                    onMouseDown={(e) => handleCaptionDragStart(e, cue, 'resize-start')}
+                                  />
+                                )}
+                                <span className="px-1 text-[8px] text-amber-100 truncate block pointer-events-none leading-6">{cue.text}</span>
+                                {onUpdateCaptionCue && (
+                                  <div
+                                    className="absolute right-0 top-0 bottom-0 w-1 cursor-ew-resize hover:bg-amber-300/50"
+                                    onMouseDown={(e) => handleCaptionDragStart(e, cue, 'resize-end')}
+                                  />
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {displayTracks.map(track => (
+                          <div
+                            key={track.id}
+                            className={`h-7 bg-zinc-800/50 rounded border relative overflow-visible ${
+                              assetDropTrackId === track.id ? 'border-purple-500 bg-purple-500/10' : 'border-zinc-700/50'
+                            } ${isTrackShown(track, tracks) ? '' : 'opacity-40'}`}
+                            onDragOver={(e) => handleAssetDragOver(e, track)}
+                            onDragLeave={handleAssetDragLeave}
+                            onDrop={(e) => handleAssetDrop(e, track)}
+                          >
+                            {/* Segment clips on this track */}
+                            {analysis?.segments.filter(segment => getSegmentTrack(segment, tracks).id === track.id).map((segment) => {
+                              const isVideoComplete = segment.status === 'video-success';
+                              const isImageComplete = segment.status === 'image-success';
+                              const left = getSegmentPosition(segment.timestamp);
+                              const segmentDuration = segment.duration || 5;
+                              const width = duration > 0 ? (segmentDuration / duration) * 100 : 5;
+                              const isDraggingThis = segmentDrag?.segmentId === segment.id;
+
+                              const getStatusClass = () => {
+                                if (segment.textOverlay) return 'bg-gradient-to-r from-cyan-600/70 to-cyan-500/50 border border-cyan-400/50 hover:border-cyan-400';
+                                if (isVideoComplete) return 'bg-gradient-to-r from-green-600/80 to-green-500/60 border border-green-400/50 hover:border-green-400';
+                                if (segment.status === 'generating-video') return 'bg-gradient-to-r from-purple-600/60 to-purple-500/40 border border-purple-400/50 animate-pulse';
+                                if (isImageComplete) return 'bg-gradient-to-r from-blue-600/60 to-blue-500/40 border border-blue-400/50';
+                                if (segment.status === 'generating-image') return 'bg-gradient-to-r from-blue-600/40 to-blue-500/20 border border-blue-400/30 animate-pulse';
+                                return 'bg-zinc-700/50 border border-zinc-600/50 border-dashed';
+                              };
+
+                              return (
+                                <div
+                                  key={`${segment.id}-${segment.status}`}
+                                  className={`
+                                    absolute top-0.5 bottom-0.5 rounded select-none
+                                    ${track.locked ? 'cursor-pointer' : 'cursor-grab'}
+                                    ${getStatusClass()}
+                                    ${activeSegment?.id === segment.id ? 'ring-2 ring-white/50' : ''}
+                                    ${isDraggingThis ? 'ring-2 ring-purple-500 cursor-grabbing z-20' : 'z-10'}
+                                  `}
+                                  style={{ left: `${left}%`, width: `${Math.max(width, 2)}%` }}
+                                  title={`${segment.topic} (${segmentDuration}s)`}
+                                  onMouseDown={(e) => handleSegmentDragStart(e, segment, 'move')}
+                                  onClick={(e) => { e.stopPropagation(); jumpToSegment(segment); }}
+                                >
+                                  {!track.locked && (
+                                    <div
+                                      className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-purple-500/50 rounded-l transition-colors"
+                                      onMouseDown={(e) => handleSegmentDragStart(e, segment, 'resize-start')}
+                                    />
+                                  )}
+                                  <div className="px-1.5 py-0.5 overflow-hidden pointer-events-none">
+                                    <span className="text-[8px] text-white font-medium truncate block">{segment.topic}</span>
+                                  </div>
+                                  {/* In/out transition ramps */}
+                                  {segment.transitionIn && segment.transitionIn.type !== 'none' && (
+                                    <div
+                                      className="absolute left-0 top-0 bottom-0 bg-gradient-to-r from-black/50 to-transparent rounded-l pointer-events-none"
+                                      style={{ width: `${Math.min(100, (segment.transitionIn.duration / segmentDuration) * 100)}%` }}
+                                    />
+                                  )}
+                                  {segment.transitionOut && segment.transitionOut.type !== 'none' && (
+                                    <div
+                                      className="absolute right-0 top-0 bottom-0 bg-gradient-to-l from-black/50 to-transparent rounded-r pointer-events-none"
+                                      style={{ width: `${Math.min(100, (segment.transitionOut.duration / segmentDuration) * 100)}%` }}
+                                    />
+                                  )}
+                                  {/* Keyframe markers */}
+                                  {segment.keyframes?.map(keyframe => (
+                                    <div
+                                      key={keyframe.id}
+                                      className="absolute bottom-0.5 w-1.5 h-1.5 -ml-[3px] rotate-45 bg-amber-300 pointer-events-none"
+                                      style={{ left: `${Math.min(100, (keyframe.time / segmentDuration) * 100)}%` }}
+                                    />
+                                  ))}
+                                  {!track.locked && (
+                                    <div
+                                      className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-purple-500/50 rounded-r transition-colors"
+                                      onMouseDown={(e) => handleSegmentDragStart(e, segment, 'resize-end')}
+                                    />
+                                  )}
+                                </div>
+                              );
+                            })}
                           </div>
-                        );
-                      })}
+                        ))}
+                      </div>
                     </div>
 
-                    {/* Scrub Bar / Playhead */}
-                    <div
-                      ref={timelineRef}
-                      className="relative h-6 bg-zinc-800/50 rounded cursor-pointer group"
-                      onClick={handleTimelineClick}
-                      onMouseDown={() => setIsDragging(true)}
-                    >
-                      {/* Progress fill */}
-                      <div
-                        className="absolute top-0 left-0 bottom-0 bg-gradient-to-r from-purple-600/50 to-pink-600/30 rounded-l"
-                        style={{ width: `${(currentTime / duration) * 100}%` }}
-                      />
-                      {/* Playhead */}
+                    <div className="flex gap-2">
+                      {/* Keeps the scrub bar aligned with the track lanes */}
+                      <div className="w-44 shrink-0">
+                        {onAddTrack && (
+                          <button
+                            onClick={onAddTrack}
+                            className="w-full h-6 flex items-center justify-center gap-1 rounded border border-dashed border-zinc-700 text-[10px] text-zinc-400 hover:text-white hover:border-zinc-500 transition-colors"
+                            title="Add an overlay track on top"
+                          >
+                            <Plus className="w-3 h-3" />
+                            Add Track
+                          </button>
+                        )}
+                      </div>
+
+                      {/* Scrub Bar / Playhead */}
                       <div
-                        className="absolute top-0 bottom-0 w-0.5 bg-white shadow-lg shadow-white/50 z-20 pointer-events-none"
-                        style={{ left: `${(currentTime / duration) * 100}%` }}
+                        ref={timelineRef}
+                        className="relative flex-1 h-6 bg-zinc-800/50 rounded cursor-pointer group"
+                        onClick={handleTimelineClick}
+                        onMouseDown={handleTimelineMouseDown}
                       >
-                        <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-white rounded-full" />
-                      </div>
-                      {/* Time display */}
-                      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                        <span className="text-[10px] text-white/60 font-mono">{formatTime(currentTime)} / {formatTime(duration)}</span>
+                        {/* Progress fill */}
+                        <div
+                          className="absolute top-0 left-0 bottom-0 bg-gradient-to-r from-purple-600/50 to-pink-600/30 rounded-l"
+                          style={{ width: `${(currentTime / duration) * 100}%` }}
+                        />
+                        {/* Range selected for re-analysis */}
+                        {selectedRange && duration > 0 && (
+                          <div
+                            className="absolute top-0 bottom-0 bg-purple-400/30 border-x border-purple-300 pointer-events-none"
+                            style={{
+                              left: `${(selectedRange.start / duration) * 100}%`,
+                              width: `${((selectedRange.end - selectedRange.start) / duration) * 100}%`
+                            }}
+                          />
+                        )}
+                        {/* Playhead */}
+                        <div
+                          className="absolute top-0 bottom-0 w-0.5 bg-white shadow-lg shadow-white/50 z-20 pointer-events-none"
+                          style={{ left: `${(currentTime / duration) * 100}%` }}
+                        >
+                          <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-white rounded-full" />
+                        </div>
+                        {/* Time display */}
+                        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                          <span className="text-[10px] text-white/60 font-mono">{formatTime(currentTime)} / {formatTime(duration)}</span>
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -917,12 +1427,105 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                   </div>
                 )}
 
-                <div className="p-3 border-b border-zinc-800">
-                  <h3 className="text-xs font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
-                    <Layers className="w-3 h-3" />
-                    Segments
-                  </h3>
+                <div className="p-3 border-b border-zinc-800 flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    {sidebarTabs.map(({ view, label, Icon }) => (
+                      <button
+                        key={view}
+                        onClick={() => setSidebarView(view)}
+                        className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${activeSidebarView === view ? 'text-zinc-400' : 'text-zinc-600 hover:text-zinc-400'}`}
+                      >
+                        <Icon className="w-3 h-3" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {analysis && onReanalyzeRange && (
+                      <button
+                        onClick={() => setSelectedRange(selectedRange ? null : {
+                          start: currentTime,
+                          end: Math.min(duration, currentTime + 10)
+                        })}
+                        disabled={duration <= 0}
+                        className={`flex items-center gap-1 text-[10px] disabled:opacity-30 ${selectedRange ? 'text-purple-300' : 'text-zinc-400 hover:text-white'}`}
+                        title="Re-analyze part of the video (or shift-drag on the scrub bar)"
+                      >
+                        <ScanSearch className="w-3 h-3" />
+                        Re-analyze
+                      </button>
+                    )}
+                    {analysis && onAddTextSegment && activeSidebarView === 'segments' && (
+                      <select
+                        value=""
+                        onChange={(e) => onAddTextSegment(e.target.value as TextOverlayKind, currentTime, newSegmentTrack?.id)}
+                        disabled={!newSegmentTrack}
+                        className="bg-transparent text-[10px] text-zinc-400 hover:text-white focus:outline-none cursor-pointer disabled:opacity-30"
+                        title={`Add a text overlay at ${formatTime(currentTime)}`}
+                      >
+                        <option value="" disabled>+ Text</option>
+                        {(Object.keys(TEXT_OVERLAY_KIND_LABELS) as TextOverlayKind[]).map(kind => (
+                          <option key={kind} value={kind}>{TEXT_OVERLAY_KIND_LABELS[kind]}</option>
+                        ))}
+                      </select>
+                    )}
+                    {analysis && onAddSegment && activeSidebarView === 'segments' && (
+                      <button
+                        onClick={() => onAddSegment(currentTime, newSegmentTrack?.id)}
+                        disabled={!newSegmentTrack}
+                        className="flex items-center gap-1 text-[10px] text-zinc-400 hover:text-white disabled:opacity-30"
+                        title={`Add a segment at ${formatTime(currentTime)}${newSegmentTrack ? ` on ${newSegmentTrack.name}` : ''}`}
+                      >
+                        <Plus className="w-3 h-3" />
+                        Add at playhead
+                      </button>
+                    )}
+                  </div>
                 </div>
+                {analysis && selectedRange && onReanalyzeRange && (
+                  <RangeAnalysisPanel
+                    range={selectedRange}
+                    duration={duration}
+                    currentTime={currentTime}
+                    onChangeRange={setSelectedRange}
+                    onClose={() => setSelectedRange(null)}
+                    onReanalyze={onReanalyzeRange}
+                  />
+                )}
+                {activeSidebarView === 'library' && assets && onAddSegmentFromAsset && onUpdateAsset && onDeleteAsset ? (
+                  <AssetLibraryPanel
+                    assets={assets}
+                    currentTime={currentTime}
+                    canPlace={!!newSegmentTrack}
+                    onPlace={(asset, time) => onAddSegmentFromAsset(asset, time, newSegmentTrack?.id)}
+                    onUpdate={onUpdateAsset}
+                    onDelete={onDeleteAsset}
+                  />
+                ) : activeSidebarView === 'captions' && onCreateCaptions && onAddCaptionCue && onUpdateCaptionCue && onDeleteCaptionCue && onUpdateCaptions ? (
+                  <CaptionsPanel
+                    captions={analysis?.captions}
+                    hasTranscript={!!analysis?.transcript?.length}
+                    currentTime={currentTime}
+                    isPlaying={isPlaying}
+                    selectedCueId={selectedCaptionId}
+                    onSelectCue={jumpToCaption}
+                    onCreate={onCreateCaptions}
+                    onAddCue={onAddCaptionCue}
+                    onUpdateCue={onUpdateCaptionCue}
+                    onDeleteCue={onDeleteCaptionCue}
+                    onUpdateCaptions={onUpdateCaptions}
+                  />
+                ) : activeSidebarView === 'transcript' && analysis?.transcript ? (
+                  <TranscriptPanel
+                    transcript={analysis.transcript}
+                    currentTime={currentTime}
+                    isPlaying={isPlaying}
+                    onSeek={seekTo}
+                    onCreateSegment={onCreateSegmentFromPhrase
+                      ? (start, end, text) => onCreateSegmentFromPhrase(start, end, text, newSegmentTrack?.id)
+                      : undefined}
+                  />
+                ) : (
                 <div className="flex-1 overflow-y-auto">
                   {analysis?.segments.map((segment) => (
                     <div
@@ -936,6 +1539,61 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                       <div className="flex items-center gap-2 mb-1">
                         {getSegmentStatusIcon(segment)}
                         <span className="font-mono text-xs text-zinc-400">{segment.formattedTime}</span>
+                        {/* Split at the playhead, merge with the next segment on the track, save to the library, delete */}
+                        {(() => {
+                          const locked = isSegmentLocked(segment);
+                          const next = getNextSegmentOnTrack(analysis.segments, segment, tracks);
+                          const actionClass = 'p-0.5 rounded text-zinc-500 hover:text-white hover:bg-zinc-700 disabled:opacity-30 disabled:hover:bg-transparent';
+                          const saveState = librarySave?.segmentId === segment.id ? librarySave : null;
+                          return (
+                            <div className="ml-auto flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+                              {onSplitSegment && (
+                                <button
+                                  onClick={() => onSplitSegment(segment.id, currentTime)}
+                                  disabled={locked || isSegmentGenerating(segment) || !canSplitAt(segment, currentTime)}
+                                  className={actionClass}
+                                  title="Split at playhead"
+                                >
+                                  <Scissors className="w-3 h-3" />
+                                </button>
+                              )}
+                              {onMergeSegment && (
+                                <button
+                                  onClick={() => onMergeSegment(segment.id)}
+                                  disabled={locked || !next || isSegmentGenerating(segment) || isSegmentGenerating(next)}
+                                  className={actionClass}
+                                  title={next ? `Merge with "${next.topic}"` : 'No following segment on this track'}
+                                >
+                                  <Merge className="w-3 h-3" />
+                                </button>
+                              )}
+                              {onSaveSegmentToLibrary && !segment.textOverlay && (
+                                <button
+                                  onClick={() => saveSegmentToLibrary(segment)}
+                                  disabled={!segment.imageUrl || isSegmentGenerating(segment) || saveState?.status === 'saving'}
+                                  className={`${actionClass} ${saveState?.status === 'error' ? 'text-red-400' : ''}`}
+                                  title={saveState?.status === 'error' ? saveState.message
+                                    : saveState?.status === 'saved' ? 'Saved to the library'
+                                    : 'Save to the library for reuse in any project'}
+                                >
+                                  {saveState?.status === 'saving' ? <Loader2 className="w-3 h-3 animate-spin" />
+                                    : saveState?.status === 'saved' ? <CheckCircle2 className="w-3 h-3 text-green-400" />
+                                    : <Library className="w-3 h-3" />}
+                                </button>
+                              )}
+                              {onDeleteSegment && (
+                                <button
+                                  onClick={() => onDeleteSegment(segment.id)}
+                                  disabled={locked}
+                                  className={`${actionClass} hover:text-red-400`}
+                                  title="Delete segment"
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })()}
                       </div>
                       <h4 className="text-sm font-medium text-white truncate">{segment.topic}</h4>
                       <p className="text-xs text-zinc-500 truncate mt-1">{segment.description}</p>
@@ -946,7 +1604,8 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                         <div className="flex items-center gap-1 bg-zinc-800 rounded-md border border-zinc-700">
                           <button
                             onClick={() => onUpdateSegmentDuration(segment.id, Math.max(1, (segment.duration || 5) - 1))}
-                            className="p-1 hover:bg-zinc-700 rounded-l-md text-zinc-400 hover:text-white transition-colors"
+                            disabled={isSegmentLocked(segment)}
+                            className="p-1 hover:bg-zinc-700 rounded-l-md text-zinc-400 hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
                             title="Decrease duration"
                           >
                             <Minus className="w-3 h-3" />
@@ -956,7 +1615,8 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                           </span>
                           <button
                             onClick={() => onUpdateSegmentDuration(segment.id, Math.min(30, (segment.duration || 5) + 1))}
-                            className="p-1 hover:bg-zinc-700 rounded-r-md text-zinc-400 hover:text-white transition-colors"
+                            disabled={isSegmentLocked(segment)}
+                            className="p-1 hover:bg-zinc-700 rounded-r-md text-zinc-400 hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
                             title="Increase duration"
                           >
                             <Plus className="w-3 h-3" />
@@ -964,76 +1624,147 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                         </div>
                       </div>
 
-                      {/* Generation Action Buttons */}
-                      <div className="flex items-center gap-2 mt-3" onClick={(e) => e.stopPropagation()}>
-                        {/* Generate Image Button - show if no image yet and not generating */}
-                        {!segment.imageUrl && segment.status !== 'generating-image' && segment.status !== 'generating-video' && onGenerateSegmentImage && (
-                          <button
-                            onClick={() => onGenerateSegmentImage(segment)}
-                            disabled={pipelineState.isRunning}
-                            className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md bg-green-600 hover:bg-green-500 disabled:bg-zinc-700 disabled:text-zinc-500 text-white text-xs font-medium transition-colors"
-                            title="Generate Image"
-                          >
-                            <Sparkles className="w-3 h-3" />
-                            Generate Image
-                          </button>
-                        )}
-
-                        {/* Generate Video Button - show if image exists but no video yet */}
-                        {segment.imageUrl && !segment.videoUrl && segment.status !== 'generating-video' && onGenerateSegmentVideo && (
-                          <button
-                            onClick={() => onGenerateSegmentVideo(segment)}
-                            disabled={pipelineState.isRunning}
-                            className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-700 disabled:text-zinc-500 text-white text-xs font-medium transition-colors"
-                            title="Generate Video"
+                      {/* Track assignment */}
+                      {onUpdateSegmentTrack && tracks.length > 1 && (
+                        <div className="flex items-center gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
+                          <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Track:</span>
+                          <select
+                            value={getSegmentTrack(segment, tracks).id}
+                            onChange={(e) => onUpdateSegmentTrack(segment.id, e.target.value)}
+                            disabled={isSegmentLocked(segment)}
+                            className="bg-zinc-800 border border-zinc-700 rounded-md px-1.5 py-0.5 text-xs text-zinc-300 focus:outline-none focus:border-purple-500 disabled:opacity-50"
                           >
-                            <Film className="w-3 h-3" />
-                            Animate
-                          </button>
-                        )}
-
-                        {/* Regenerate Video Button - show if video already exists */}
-                        {segment.videoUrl && segment.status !== 'generating-video' && onGenerateSegmentVideo && (
-                          <button
-                            onClick={() => onGenerateSegmentVideo(segment)}
-                            disabled={pipelineState.isRunning}
-                            className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md bg-zinc-700 hover:bg-zinc-600 disabled:bg-zinc-800 disabled:text-zinc-500 text-white text-xs font-medium transition-colors border border-zinc-600"
-                            title="Regenerate Video"
-                          >
-                            <Video className="w-3 h-3" />
-                            Regen Video
-                          </button>
-                        )}
-
-                        {/* Show loading state when generating with step progress */}
-                        {(segment.status === 'generating-image' || segment.status === 'generating-video') && (
-                          <div className="flex-1 flex flex-col gap-1.5 px-2 py-2 rounded-md bg-zinc-800 text-zinc-400 text-xs">
-                            <div className="flex items-center gap-1.5">
-                              <Loader2 className="w-3 h-3 animate-spin" />
-                              {segment.status === 'generating-image' ? (
-                                <span>
-                                  Step {segment.generationProgress?.step || 1}/2: {segment.generationProgress?.message || 'Generating...'}
-                                </span>
-                              ) : (
-                                <span>Generating Video...</span>
-                              )}
-                            </div>
-                            {/* Step progress bar for image generation */}
-                            {segment.status === 'generating-image' && (
-                              <div className="flex gap-0.5">
-                                <div className={`h-1 flex-1 rounded-full transition-colors ${(segment.generationProgress?.step || 0) >= 1 ? 'bg-green-500' : 'bg-zinc-700'}`} />
-                                <div className={`h-1 flex-1 rounded-full transition-colors ${(segment.generationProgress?.step || 0) >= 2 ? 'bg-green-500' : 'bg-zinc-700'}`} />
-                              </div>
+                            {displayTracks.map(track => (
+                              <option key={track.id} value={track.id} disabled={track.locked}>
+                                {track.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+
+                      {/* Failure reason with retry */}
+                      {segment.status === 'error' && (
+                        <div className="mt-2 p-2 rounded-md bg-red-900/20 border border-red-900/40" onClick={(e) => e.stopPropagation()}>
+                          <div className="flex items-center gap-1.5 text-xs text-red-400 font-medium">
+                            <AlertCircle className="w-3 h-3 shrink-0" />
+                            <span className="flex-1 truncate">{ERROR_KIND_LABELS[segment.errorKind || 'unknown']}</span>
+                            {onRetrySegment && (
+                              <button
+                                onClick={() => onRetrySegment(segment)}
+                                disabled={pipelineState.isRunning}
+                                className="flex items-center gap-1 text-red-300 hover:text-white disabled:opacity-50"
+                                title={segment.imageUrl ? 'Retry animation' : 'Retry image'}
+                              >
+                                <RotateCcw className="w-3 h-3" />
+                                Retry
+                              </button>
                             )}
                           </div>
-                        )}
-                      </div>
+                          {segment.error && (
+                            <p className="text-[10px] text-red-300/70 mt-1 line-clamp-2" title={segment.error}>{segment.error}</p>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Generation Action Buttons (text segments are drawn, not generated) */}
+                      {!segment.textOverlay && (
+                        <div className="flex items-center gap-2 mt-3" onClick={(e) => e.stopPropagation()}>
+                          {/* Generate Image Button - show if no image yet and not generating */}
+                          {!segment.imageUrl && segment.status !== 'generating-image' && segment.status !== 'generating-video' && onGenerateSegmentImage && (
+                            <button
+                              onClick={() => onGenerateSegmentImage(segment)}
+                              disabled={pipelineState.isRunning}
+                              className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md bg-green-600 hover:bg-green-500 disabled:bg-zinc-700 disabled:text-zinc-500 text-white text-xs font-medium transition-colors"
+                              title="Generate Image"
+                            >
+                              <Sparkles className="w-3 h-3" />
+                              Generate Image
+                            </button>
+                          )}
+
+                          {/* Generate Video Button - show if image exists but no video yet */}
+                          {segment.imageUrl && !segment.videoUrl && segment.status !== 'generating-video' && onGenerateSegmentVideo && (
+                            <button
+                              onClick={() => onGenerateSegmentVideo(segment)}
+                              disabled={pipelineState.isRunning}
+                              className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-700 disabled:text-zinc-500 text-white text-xs font-medium transition-colors"
+                              title="Generate Video"
+                            >
+                              <Film className="w-3 h-3" />
+                              Animate
+                            </button>
+                          )}
+
+                          {/* Regenerate Video Button - show if video already exists */}
+                          {segment.videoUrl && segment.status !== 'generating-video' && onGenerateSegmentVideo && (
+                            <button
+                              onClick={() => onGenerateSegmentVideo(segment)}
+                              disabled={pipelineState.isRunning}
+                              className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md bg-zinc-700 hover:bg-zinc-600 disabled:bg-zinc-800 disabled:text-zinc-500 text-white text-xs font-medium transition-colors border border-zinc-600"
+                              title="Regenerate Video"
+                            >
+                              <Video className="w-3 h-3" />
+                              Regen Video
+                            </button>
+                          )}
+
+                          {/* Show loading state when generating with step progress */}
+                          {(segment.status === 'generating-image' || segment.status === 'generating-video') && (
+                            <div className="flex-1 flex flex-col gap-1.5 px-2 py-2 rounded-md bg-zinc-800 text-zinc-400 text-xs">
+                              <div className="flex items-center gap-1.5">
+                                <Loader2 className="w-3 h-3 animate-spin" />
+                                {segment.status === 'generating-image' ? (
+                                  <span>
+                                    Step {segment.generationProgress?.step || 1}/2: {segment.generationProgress?.message || 'Generating...'}
+                                  </span>
+                                ) : (
+                                  <>
+                                    <span className="flex-1">Generating Video...</span>
+                                    {onCancelSegmentVideo && (
+                                      <button
+                                        onClick={() => onCancelSegmentVideo(segment)}
+                                        className="text-zinc-500 hover:text-red-400"
+                                        title="Cancel video generation"
+                                      >
+                                        <X className="w-3 h-3" />
+                                      </button>
+                                    )}
+                                  </>
+                                )}
+                              </div>
+                              {/* Step progress bar for image generation */}
+                              {segment.status === 'generating-image' && (
+                                <div className="flex gap-0.5">
+                                  <div className={`h-1 flex-1 rounded-full transition-colors ${(segment.generationProgress?.step || 0) >= 1 ? 'bg-green-500' : 'bg-zinc-700'}`} />
+                                  <div className={`h-1 flex-1 rounded-full transition-colors ${(segment.generationProgress?.step || 0) >= 2 ? 'bg-green-500' : 'bg-zinc-700'}`} />
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )}
 
                       {/* Segment Details - always shown */}
                       <div className="mt-3 space-y-2" onClick={(e) => e.stopPropagation()}>
-                        {/* Preview thumbnail */}
-                        {(segment.videoUrl || segment.imageUrl) ? (
-                          <div className="aspect-video bg-black rounded-lg overflow-hidden border border-zinc-700">
+                        {/* Text segments: the text editor takes the thumbnail's place */}
+                        {segment.textOverlay ? (
+                          onUpdateTextOverlay && (
+                            <TextOverlayControls
+                              overlay={segment.textOverlay}
+                              onChange={(changes) => onUpdateTextOverlay(segment.id, changes)}
+                              disabled={isSegmentLocked(segment)}
+                            />
+                          )
+                        ) : (
+                          // Dropping an image or clip here uses it instead of a generated overlay
+                          <MediaDropZone
+                            onUpload={onUploadSegmentMedia && ((file) => onUploadSegmentMedia(segment, file))}
+                            disabled={isSegmentLocked(segment) || isSegmentGenerating(segment)}
+                            className={`aspect-video rounded-lg overflow-hidden border border-zinc-700 ${
+                              segment.videoUrl || segment.imageUrl ? 'bg-black' : 'bg-zinc-800/50 flex items-center justify-center'
+                            }`}
+                          >
                             {segment.videoUrl ? (
                               <video
                                 src={segment.videoUrl}
@@ -1049,12 +1780,10 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                                 alt={segment.topic}
                                 className="w-full h-full object-contain"
                               />
-                            ) : null}
-                          </div>
-                        ) : (
-                          <div className="aspect-video bg-zinc-800/50 rounded-lg border border-zinc-700 flex items-center justify-center">
-                            <span className="text-xs text-zinc-500">No preview yet</span>
-                          </div>
+                            ) : (
+                              <span className="text-xs text-zinc-500">No preview yet</span>
+                            )}
+                          </MediaDropZone>
                         )}
 
                         {/* Chroma Key Controls - inline in segment */}
@@ -1071,72 +1800,126 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                           />
                         )}
 
-                        {/* Overlay Position Controls */}
-                        {(segment.videoUrl || segment.imageUrl) && (
-                          <div className="bg-zinc-800/50 rounded-lg p-2 space-y-2">
-                            <div className="flex items-center justify-between">
-                              <div className="flex items-center gap-1">
-                                <Move className="w-3 h-3 text-blue-400" />
-                                <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Position</span>
+                        {/* Overlay Position Controls - edit the keyframe at the playhead once the segment is keyframed */}
+                        {hasOverlayContent(segment) && (() => {
+                          const segmentTime = getSegmentTime(segment);
+                          const transform = getTransformAtTime(segment, segmentTime);
+                          const keyframes = segment.keyframes ? sortKeyframes(segment.keyframes) : [];
+                          const keyframeAtPlayhead = findKeyframeAt(keyframes, segmentTime);
+                          const sliders: { key: 'x' | 'y' | 'scale' | 'rotation' | 'opacity'; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+                            { key: 'x', label: 'X', min: -50, max: 50, step: 1, format: v => `${Math.round(v * 10) / 10}%` },
+                            { key: 'y', label: 'Y', min: -50, max: 50, step: 1, format: v => `${Math.round(v * 10) / 10}%` },
+                            { key: 'scale', label: 'Size', min: 0.2, max: 2, step: 0.1, format: v => `${Math.round(v * 100)}%` },
+                            { key: 'rotation', label: 'Rot', min: -180, max: 180, step: 1, format: v => `${Math.round(v)}°` },
+                            { key: 'opacity', label: 'Alpha', min: 0, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` }
+                          ];
+                          return (
+                            <fieldset disabled={isSegmentLocked(segment)} className="bg-zinc-800/50 rounded-lg p-2 space-y-2 disabled:opacity-50">
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-1">
+                                  <Move className="w-3 h-3 text-blue-400" />
+                                  <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Position</span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  {onUpdateKeyframes && (
+                                    <button
+                                      onClick={() => onUpdateKeyframes(segment.id, upsertKeyframe(keyframes, segmentTime, transform))}
+                                      className={`text-[10px] flex items-center gap-1 ${keyframeAtPlayhead ? 'text-amber-400' : 'text-zinc-500 hover:text-white'}`}
+                                      title={`Keyframe at +${segmentTime.toFixed(1)}s`}
+                                    >
+                                      <Diamond className="w-3 h-3" fill={keyframeAtPlayhead ? 'currentColor' : 'none'} />
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => applyTransformEdit(segment, DEFAULT_OVERLAY_TRANSFORM)}
+                                    className="text-[10px] text-zinc-500 hover:text-white flex items-center gap-1"
+                                    title="Reset position"
+                                  >
+                                    <RotateCcw className="w-3 h-3" />
+                                  </button>
+                                </div>
                               </div>
-                              <button
-                                onClick={() => onUpdateOverlayTransform(segment.id, DEFAULT_OVERLAY_TRANSFORM)}
-                                className="text-[10px] text-zinc-500 hover:text-white flex items-center gap-1"
-                                title="Reset position"
-                              >
-                                <RotateCcw className="w-3 h-3" />
-                              </button>
-                            </div>
-                            {/* X Position */}
-                            <div className="flex items-center gap-2">
-                              <span className="text-[10px] text-zinc-500 w-6">X</span>
-                              <input
-                                type="range"
-                                min="-50"
-                                max="50"
-                                value={(segment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM).x}
-                                onChange={(e) => onUpdateOverlayTransform(segment.id, {
-                                  ...(segment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM),
-                                  x: parseFloat(e.target.value)
-                                })}
-                                className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                              />
-                              <span className="text-[10px] text-zinc-400 w-8 text-right">{(segment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM).x}%</span>
-                            </div>
-                            {/* Y Position */}
-                            <div className="flex items-center gap-2">
-                              <span className="text-[10px] text-zinc-500 w-6">Y</span>
-                              <input
-                                type="range"
-                                min="-50"
-                                max="50"
-                                value={(segment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM).y}
-                                onChange={(e) => onUpdateOverlayTransform(segment.id, {
-                                  ...(segment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM),
-                                  y: parseFloat(e.target.value)
-                                })}
-                                className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                              />
-                              <span className="text-[10px] text-zinc-400 w-8 text-right">{(segment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM).y}%</span>
-                            </div>
-                            {/* Scale */}
-                            <div className="flex items-center gap-2">
-                              <span className="text-[10px] text-zinc-500 w-6">Size</span>
-                              <input
-                                type="range"
-                                min="0.2"
-                                max="2"
-                                step="0.1"
-                                value={(segment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM).scale}
-                                onChange={(e) => onUpdateOverlayTransform(segment.id, {
-                                  ...(segment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM),
-                                  scale: parseFloat(e.target.value)
-                                })}
-                                className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                              />
-                              <span className="text-[10px] text-zinc-400 w-8 text-right">{Math.round((segment.overlayTransform || DEFAULT_OVERLAY_TRANSFORM).scale * 100)}%</span>
-                            </div>
-                          </div>
+                              {sliders.map(slider => (
+                                <div key={slider.key} className="flex items-center gap-2">
+                                  <span className="text-[10px] text-zinc-500 w-6">{slider.label}</span>
+                                  <input
+                                    type="range"
+                                    min={slider.min}
+                                    max={slider.max}
+                                    step={slider.step}
+                                    value={transform[slider.key]}
+                                    onChange={(e) => applyTransformEdit(segment, {
+                                      ...transform,
+                                      [slider.key]: parseFloat(e.target.value)
+                                    })}
+                                    className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                  />
+                                  <span className="text-[10px] text-zinc-400 w-8 text-right">{slider.format(transform[slider.key])}</span>
+                                </div>
+                              ))}
+
+                              {/* Keyframe list */}
+                              {keyframes.length > 0 && onUpdateKeyframes && (
+                                <div className="pt-2 border-t border-zinc-700/50 space-y-1">
+                                  <div className="flex items-center justify-between">
+                                    <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Keyframes</span>
+                                    <button
+                                      onClick={() => {
+                                        onUpdateOverlayTransform(segment.id, transform);
+                                        onUpdateKeyframes(segment.id, []);
+                                      }}
+                                      className="text-[10px] text-zinc-500 hover:text-red-400"
+                                      title="Remove all keyframes and keep the current values as a static position"
+                                    >
+                                      Clear
+                                    </button>
+                                  </div>
+                                  {keyframes.map(keyframe => (
+                                    <div key={keyframe.id} className="flex items-center gap-1.5">
+                                      <button
+                                        onClick={() => seekTo(segment.timestamp + keyframe.time)}
+                                        className={`flex items-center gap-1 text-[10px] font-mono ${keyframe.id === keyframeAtPlayhead?.id ? 'text-amber-400' : 'text-zinc-400 hover:text-white'}`}
+                                        title="Jump to keyframe"
+                                      >
+                                        <Diamond className="w-2.5 h-2.5" fill="currentColor" />
+                                        +{keyframe.time.toFixed(2)}s
+                                      </button>
+                                      <select
+                                        value={keyframe.easing}
+                                        onChange={(e) => onUpdateKeyframes(segment.id, keyframes.map(k =>
+                                          k.id === keyframe.id ? { ...k, easing: e.target.value as KeyframeEasing } : k
+                                        ))}
+                                        className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 focus:outline-none focus:border-purple-500"
+                                        title="Easing into the next keyframe"
+                                      >
+                                        {(Object.keys(KEYFRAME_EASING_LABELS) as KeyframeEasing[]).map(easing => (
+                                          <option key={easing} value={easing}>{KEYFRAME_EASING_LABELS[easing]}</option>
+                                        ))}
+                                      </select>
+                                      <button
+                                        onClick={() => onUpdateKeyframes(segment.id, keyframes.filter(k => k.id !== keyframe.id))}
+                                        className="text-zinc-500 hover:text-red-400"
+                                        title="Delete keyframe"
+                                      >
+                                        <X className="w-3 h-3" />
+                                      </button>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </fieldset>
+                          );
+                        })()}
+
+                        {/* Enter/exit transitions */}
+                        {hasOverlayContent(segment) && onUpdateTransition && (
+                          <TransitionControls
+                            transitionIn={segment.transitionIn}
+                            transitionOut={segment.transitionOut}
+                            segmentDuration={segment.duration || 5}
+                            onChange={(edge, transition) => onUpdateTransition(segment.id, edge, transition)}
+                            disabled={isSegmentLocked(segment)}
+                          />
                         )}
 
                         {/* Prompt */}
@@ -1164,6 +1947,7 @@ const TimelineEditor: React.FC<TimelineEditorProps> = ({
                     </div>
                   ))}
                 </div>
+                )}
               </div>
             </Panel>
       </PanelGroup>
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { TranscriptCue, TranscriptWord } from '../types';
+import { formatTime } from '../utils/videoUtils';
+import { getCueWords, findCueIndexAt } from '../utils/transcript';
+
+interface TranscriptPanelProps {
+  transcript: TranscriptCue[];
+  currentTime: number;
+  isPlaying: boolean;
+  onSeek: (time: number) => void;
+  onCreateSegment?: (start: number, end: number, text: string) => void;
+}
+
+// Position of a word in the transcript: cue index, then word index within the cue
+type WordPosition = [number, number];
+
+const comparePositions = (a: WordPosition, b: WordPosition) => a[0] - b[0] || a[1] - b[1];
+
+/**
+ * Scrollable transcript that follows playback. Clicking a word seeks to it; shift-clicking
+ * another word selects the phrase between them, which can be turned into a segment.
+ */
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  transcript,
+  currentTime,
+  isPlaying,
+  onSeek,
+  onCreateSegment
+}) => {
+  const [selection, setSelection] = useState<{ anchor: WordPosition; focus: WordPosition } | null>(null);
+  const cueRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const cueWords = useMemo(() => transcript.map(getCueWords), [transcript]);
+  const activeCueIndex = findCueIndexAt(transcript, currentTime);
+
+  // Keep the line being spoken in view while playing
+  useEffect(() => {
+    if (!isPlaying || activeCueIndex === -1) return;
+    cueRefs.current[activeCueIndex]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeCueIndex, isPlaying]);
+
+  // The selection resets when the transcript changes under it (re-analysis, undo)
+  useEffect(() => setSelection(null), [transcript]);
+
+  const [selectionStart, selectionEnd] = selection
+    ? [selection.anchor, selection.focus].sort(comparePositions)
+    : [null, null];
+
+  const isSelected = (position: WordPosition) =>
+    !!selectionStart && !!selectionEnd &&
+    comparePositions(position, selectionStart) >= 0 && comparePositions(position, selectionEnd) <= 0;
+
+  const selectedWords: TranscriptWord[] = selectionStart && selectionEnd
+    ? cueWords.flatMap((words, cueIndex) => words.filter((_, wordIndex) => isSelected([cueIndex, wordIndex])))
+    : [];
+
+  const handleWordClick = (e: React.MouseEvent, position: WordPosition, word: TranscriptWord) => {
+    if (e.shiftKey && selection) {
+      setSelection({ anchor: selection.anchor, focus: position });
+      return;
+    }
+    setSelection({ anchor: position, focus: position });
+    onSeek(word.start);
+  };
+
+  if (transcript.length === 0) {
+    return <p className="p-4 text-xs text-zinc-500 text-center">No speech was transcribed for this video.</p>;
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {transcript.map((cue, cueIndex) => {
+          const isActiveCue = cueIndex === activeCueIndex;
+          return (
+            <div
+              key={`${cue.start}-${cueIndex}`}
+              ref={(el) => { cueRefs.current[cueIndex] = el; }}
+              className={`flex gap-2 px-2 py-1 rounded ${isActiveCue ? 'bg-purple-900/20' : ''}`}
+            >
+              <button
+                onClick={() => onSeek(cue.start)}
+                className="font-mono text-[10px] text-zinc-500 hover:text-white pt-0.5 shrink-0"
+              >
+                {formatTime(cue.start)}
+              </button>
+              <p className="text-xs leading-relaxed text-zinc-400 select-none">
+                {cueWords[cueIndex].map((word, wordIndex) => {
+                  const isCurrentWord = isActiveCue && currentTime >= word.start && currentTime < word.end;
+                  const selected = isSelected([cueIndex, wordIndex]);
+                  return (
+                    <React.Fragment key={wordIndex}>
+                      <span
+                        onClick={(e) => handleWordClick(e, [cueIndex, wordIndex], word)}
+                        className={`cursor-pointer rounded px-0.5 -mx-0.5 ${
+                          selected ? 'bg-purple-500/40 text-white' :
+                          isCurrentWord ? 'bg-white/15 text-white' :
+                          isActiveCue ? 'text-zinc-200 hover:text-white' : 'hover:text-white'
+                        }`}
+                      >
+                        {word.text}
+                      </span>{' '}
+                    </React.Fragment>
+                  );
+                })}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {selectedWords.length > 0 && (
+        <div className="p-2 border-t border-zinc-800 flex items-center gap-2">
+          <span className="flex-1 min-w-0 text-[10px] text-zinc-400 truncate" title={selectedWords.map(w => w.text).join(' ')}>
+            {formatTime(selectedWords[0].start)}–{formatTime(selectedWords[selectedWords.length - 1].end)} · {selectedWords.length} word{selectedWords.length === 1 ? '' : 's'}
+          </span>
+          {onCreateSegment && (
+            <button
+              onClick={() => {
+                onCreateSegment(selectedWords[0].start, selectedWords[selectedWords.length - 1].end, selectedWords.map(w => w.text).join(' '));
+                setSelection(null);
+              }}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-purple-600 hover:bg-purple-500 text-[10px] text-white font-medium"
+              title="Create a segment spanning the selected words"
+            >
+              <Plus className="w-3 h-3" />
+              Segment from phrase
+            </button>
+          )}
+          <button onClick={() => setSelection(null)} className="p-0.5 rounded text-zinc-500 hover:text-white" title="Clear selection">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+      {!selection && (
+        <p className="px-3 py-1.5 border-t border-zinc-800 text-[10px] text-zinc-600">
+          Click a word to seek; shift-click another to select a phrase.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ArrowRightToLine, ArrowLeftFromLine } from 'lucide-react';
+import { SegmentTransition, TransitionType, TransitionDirection, TransitionEdge, DEFAULT_SEGMENT_TRANSITION } from '../types';
+import { TRANSITION_LABELS, TRANSITION_DIRECTION_LABELS } from '../constants';
+
+interface TransitionControlsProps {
+  transitionIn?: SegmentTransition;
+  transitionOut?: SegmentTransition;
+  segmentDuration: number;
+  onChange: (edge: TransitionEdge, transition: SegmentTransition) => void;
+  disabled?: boolean;
+}
+
+const selectClass = 'bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 focus:outline-none focus:border-purple-500';
+
+const TransitionControls: React.FC<TransitionControlsProps> = ({
+  transitionIn,
+  transitionOut,
+  segmentDuration,
+  onChange,
+  disabled = false
+}) => {
+  const renderRow = (edge: TransitionEdge, transition: SegmentTransition = DEFAULT_SEGMENT_TRANSITION) => {
+    const Icon = edge === 'in' ? ArrowRightToLine : ArrowLeftFromLine;
+    const hasDirection = transition.type === 'slide' || transition.type === 'wipe';
+    const update = (changes: Partial<SegmentTransition>) => onChange(edge, { ...transition, ...changes });
+
+    return (
+      <div className="flex items-center gap-1.5">
+        <Icon className="w-3 h-3 text-zinc-500 shrink-0" />
+        <span className="text-[10px] text-zinc-500 w-5">{edge === 'in' ? 'In' : 'Out'}</span>
+        <select
+          value={transition.type}
+          onChange={(e) => update({ type: e.target.value as TransitionType })}
+          className={`${selectClass} flex-1 min-w-0`}
+        >
+          {(Object.keys(TRANSITION_LABELS) as TransitionType[]).map(type => (
+            <option key={type} value={type}>{TRANSITION_LABELS[type]}</option>
+          ))}
+        </select>
+        {hasDirection && (
+          <select
+            value={transition.direction}
+            onChange={(e) => update({ direction: e.target.value as TransitionDirection })}
+            className={selectClass}
+            title={transition.type === 'slide' ? (edge === 'in' ? 'Enter from' : 'Exit to') : 'Reveal from'}
+          >
+            {(Object.keys(TRANSITION_DIRECTION_LABELS) as TransitionDirection[]).map(direction => (
+              <option key={direction} value={direction}>{TRANSITION_DIRECTION_LABELS[direction]}</option>
+            ))}
+          </select>
+        )}
+        {transition.type !== 'none' && (
+          <input
+            type="number"
+            min={0.1}
+            max={segmentDuration}
+            step={0.1}
+            value={transition.duration}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value)) update({ duration: Math.max(0.1, Math.min(segmentDuration, value)) });
+            }}
+            className={`${selectClass} w-12 font-mono`}
+            title="Transition length in seconds"
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <fieldset disabled={disabled} className="bg-zinc-800/50 rounded-lg p-2 space-y-1.5 disabled:opacity-50">
+      <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Transitions</span>
+      {renderRow('in', transitionIn)}
+      {renderRow('out', transitionOut)}
+    </fieldset>
+  );
+};
+
+export default TransitionControls;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { GenerationTake, TakeKind } from '../types';
+
+interface VariantPickerProps {
+  kind: TakeKind;
+  variants: GenerationTake[];
+  activeTakeId?: string;
+  disabled?: boolean;
+  onSelect: (takeId: string) => void;
+}
+
+/**
+ * Grid of the candidates from a multi-variant generation. The one picked becomes the active
+ * take; the others stay in the take list as alternates.
+ */
+const VariantPicker: React.FC<VariantPickerProps> = ({ kind, variants, activeTakeId, disabled = false, onSelect }) => {
+  return (
+    <div className="p-3 rounded-lg bg-green-900/10 border border-green-900/30 space-y-2">
+      <h4 className="text-xs font-bold text-green-300 uppercase tracking-wider">
+        Pick {kind === 'image' ? 'an overlay' : 'a clip'} · {variants.length} variants
+      </h4>
+      <div className="grid grid-cols-2 gap-2">
+        {variants.map((variant, index) => {
+          const isActive = variant.id === activeTakeId;
+          return (
+            <button
+              key={variant.id}
+              onClick={() => !isActive && onSelect(variant.id)}
+              disabled={disabled}
+              className={`relative aspect-video bg-black rounded-lg overflow-hidden border-2 transition-colors disabled:opacity-50 ${
+                isActive ? 'border-green-500' : 'border-zinc-800 hover:border-zinc-500'
+              }`}
+              title={isActive ? 'In use' : 'Use this variant'}
+            >
+              {kind === 'image' ? (
+                <img src={variant.url} alt={`Variant ${index + 1}`} className="w-full h-full object-contain" draggable={false} />
+              ) : (
+                <video src={variant.url} className="w-full h-full object-contain" muted loop playsInline autoPlay />
+              )}
+              <span className="absolute bottom-1 left-1 px-1.5 rounded bg-black/70 text-[10px] text-zinc-300 font-mono">
+                {index + 1}
+              </span>
+              {isActive && (
+                <span className="absolute top-1 right-1 p-0.5 rounded-full bg-green-500 text-white">
+                  <Check className="w-3 h-3" />
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
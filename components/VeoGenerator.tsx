@@ -1,23 +1,30 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Download, ArrowLeft, Play, Move, Film, Loader2, RefreshCw, Pencil, Check, X, Sparkles } from 'lucide-react';
-import { Segment, ChromaKeySettings, DEFAULT_CHROMA_KEY_SETTINGS, ImageGenerationProgress } from '../types';
+import { Download, ArrowLeft, Play, Move, Film, Loader2, RefreshCw, Pencil, Check, X, Sparkles, Layers } from 'lucide-react';
+import { Segment, ChromaKeySettings, DEFAULT_CHROMA_KEY_SETTINGS, ImageGenerationProgress, TakeKind } from '../types';
 import ChromaKeyControls from './ChromaKeyControls';
+import TakeBrowser from './TakeBrowser';
+import VariantPicker from './VariantPicker';
+import { MAX_GENERATION_VARIANTS } from '../constants';
 import { sampleColorFromImage, createChromaKeyCanvas } from '../utils/chromaKey';
+import { getTakes, getActiveTake, getLatestVariants } from '../utils/takes';
 
 interface VeoGeneratorProps {
   segment: Segment;
   originalVideoUrl: string | null;
   onBack: () => void;
-  onAnimate: (segment: Segment) => void;
-  onRegenerateImage: (segment: Segment) => void;
-  onRegenerateVideo: (segment: Segment) => void;
+  // `variants`: how many candidates to generate (see VariantPicker)
+  onAnimate: (segment: Segment, variants: number) => void;
+  onRegenerateImage: (segment: Segment, variants: number) => void;
+  onRegenerateVideo: (segment: Segment, variants: number) => void;
   onUpdateSegmentPrompts: (segmentId: string, prompt: string, animationPrompt: string) => void;
-  onGenerateImage: (segment: Segment) => void;
+  onGenerateImage: (segment: Segment, variants: number) => void;
   onUpdateChromaKey?: (segmentId: string, settings: ChromaKeySettings) => void;
+  onSelectTake?: (segmentId: string, kind: TakeKind, takeId: string) => void;
+  onDeleteTake?: (segmentId: string, kind: TakeKind, takeId: string) => void;
 }
 
-const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl, onBack, onAnimate, onRegenerateImage, onRegenerateVideo, onUpdateSegmentPrompts, onGenerateImage, onUpdateChromaKey }) => {
+const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl, onBack, onAnimate, onRegenerateImage, onRegenerateVideo, onUpdateSegmentPrompts, onGenerateImage, onUpdateChromaKey, onSelectTake, onDeleteTake }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const overlayImageRef = useRef<HTMLImageElement>(null);
   const overlayVideoRef = useRef<HTMLVideoElement>(null);
@@ -35,6 +42,7 @@ const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl,
   const [isPickingColor, setIsPickingColor] = useState(false);
   const [showChromaPreview, setShowChromaPreview] = useState(false);
   const [showIntermediateImage, setShowIntermediateImage] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
 
   // Auto-seek to the timestamp when mounted
   useEffect(() => {
@@ -137,7 +145,7 @@ const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl,
     onUpdateSegmentPrompts(segment.id, editedPrompt, editedAnimationPrompt);
     setIsEditingPrompt(false);
     // Trigger regeneration after a small delay to let state update
-    setTimeout(() => onRegenerateImage(segment), 50);
+    setTimeout(() => onRegenerateImage(segment, variantCount), 50);
   };
 
   const isGenerating = segment.status === 'generating-image' || segment.status === 'generating-video';
@@ -145,7 +153,7 @@ const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl,
   const handleGenerateAndSave = () => {
     onUpdateSegmentPrompts(segment.id, editedPrompt, editedAnimationPrompt);
     setIsEditingPrompt(false);
-    setTimeout(() => onGenerateImage(segment), 50);
+    setTimeout(() => onGenerateImage(segment, variantCount), 50);
   };
 
   return (
@@ -409,6 +417,40 @@ const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl,
                     />
                   )}
 
+                  {/* Candidates from the latest multi-variant generation */}
+                  {onSelectTake && (['image', 'video'] as TakeKind[]).map(kind => {
+                    const variants = getLatestVariants(segment, kind);
+                    if (variants.length < 2) return null;
+                    return (
+                      <VariantPicker
+                        key={kind}
+                        kind={kind}
+                        variants={variants}
+                        activeTakeId={getActiveTake(segment, kind)?.id}
+                        disabled={isGenerating}
+                        onSelect={(takeId) => onSelectTake(segment.id, kind, takeId)}
+                      />
+                    );
+                  })}
+
+                  {/* Earlier generations - shown once there is another take to switch to */}
+                  {onSelectTake && onDeleteTake && (['image', 'video'] as TakeKind[]).map(kind => {
+                    const takes = getTakes(segment, kind);
+                    const activeTake = getActiveTake(segment, kind);
+                    if (takes.length === 0 || (takes.length === 1 && activeTake)) return null;
+                    return (
+                      <TakeBrowser
+                        key={kind}
+                        kind={kind}
+                        takes={takes}
+                        activeTakeId={activeTake?.id}
+                        disabled={isGenerating}
+                        onSelect={(takeId) => onSelectTake(segment.id, kind, takeId)}
+                        onDelete={(takeId) => onDeleteTake(segment.id, kind, takeId)}
+                      />
+                    );
+                  })}
+
                   {/* Prompts Section - Editable */}
                   <div className="mt-4 space-y-3">
                     {/* Image Prompt */}
@@ -497,6 +539,25 @@ const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl,
 
           {/* Actions */}
           <div className="flex flex-wrap gap-4 pt-4 border-t border-zinc-800 w-full justify-center">
+              {/* Variant count for the next generation */}
+              {!isGenerating && (
+                <div className="flex items-center gap-2 self-center text-xs text-zinc-400" title="Candidates to generate, to pick the best from">
+                  <Layers className="w-4 h-4" />
+                  Variants
+                  <div className="flex rounded-full border border-zinc-700 overflow-hidden">
+                    {Array.from({ length: MAX_GENERATION_VARIANTS }, (_, i) => i + 1).map(count => (
+                      <button
+                        key={count}
+                        onClick={() => setVariantCount(count)}
+                        className={`px-2.5 py-1 transition-colors ${count === variantCount ? 'bg-zinc-700 text-white' : 'hover:bg-zinc-800'}`}
+                      >
+                        {count}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Generate / Regenerate Button */}
               {!isEditingPrompt && (
                 isGenerating ? (
@@ -506,7 +567,7 @@ const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl,
                   </div>
                 ) : segment.imageUrl ? (
                   <button
-                    onClick={() => onRegenerateImage(segment)}
+                    onClick={() => onRegenerateImage(segment, variantCount)}
                     className="flex items-center justify-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-white font-medium py-3 px-6 rounded-full transition-colors border border-zinc-700"
                   >
                     <RefreshCw className="w-4 h-4" />
@@ -514,7 +575,7 @@ const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl,
                   </button>
                 ) : (
                   <button
-                    onClick={() => onGenerateImage(segment)}
+                    onClick={() => onGenerateImage(segment, variantCount)}
                     className="flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white font-medium py-3 px-6 rounded-full transition-colors shadow-lg shadow-green-900/20"
                   >
                     <Sparkles className="w-4 h-4" />
@@ -526,7 +587,7 @@ const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl,
               {/* Animate Button - only show if image exists and no video yet */}
               {segment.imageUrl && !segment.videoUrl && !isEditingPrompt && !isGenerating && (
                 <button
-                  onClick={() => onAnimate(segment)}
+                  onClick={() => onAnimate(segment, variantCount)}
                   className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-medium py-3 px-6 rounded-full transition-colors shadow-lg shadow-blue-900/20"
                 >
                   <Film className="w-4 h-4" />
@@ -537,7 +598,7 @@ const VeoGenerator: React.FC<VeoGeneratorProps> = ({ segment, originalVideoUrl,
               {/* Regenerate Animation Button - show if video already exists */}
               {segment.videoUrl && !isEditingPrompt && !isGenerating && (
                 <button
-                  onClick={() => onRegenerateVideo(segment)}
+                  onClick={() => onRegenerateVideo(segment, variantCount)}
                   className="flex items-center justify-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-white font-medium py-3 px-6 rounded-full transition-colors border border-zinc-700"
                 >
                   <RefreshCw className="w-4 h-4" />
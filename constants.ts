@@ -1,12 +1,196 @@
+import { GenerationErrorKind, KeyframeEasing, TransitionType, TransitionDirection, OverlayStyle, SegmentCountMode, TextFont, CaptionBackground, CaptionPosition, CaptionPreset, CaptionStyle, TextOverlay, TextOverlayKind, TextAnimation } from "./types";
 
-export const MAX_VIDEO_SIZE_MB = 200;
-export const MAX_VIDEO_DURATION_SEC = 600; // 10 minutes
+export const MAX_VIDEO_SIZE_MB = 2000; // Files API limit per file
+export const MAX_VIDEO_DURATION_SEC = 2 * 60 * 60; // 2 hours, analyzed at low media resolution
+// Videos up to this size are sent inline with the analysis request; larger ones are uploaded first
+export const MAX_INLINE_VIDEO_MB = 20;
+// Resumable upload chunk size (the Files API wants multiples of 256 KiB)
+export const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+export const FILE_PROCESSING_POLL_MS = 3000;
+export const FILE_PROCESSING_MAX_WAIT_MS = 10 * 60 * 1000;
 
 // Supported ratios: "1:1", "3:4", "4:3", "9:16", "16:9"
 // This will now be calculated dynamically.
 
 export const ANALYSIS_MODEL = "gemini-2.5-flash"; // Good balance for video analysis
 export const GENERATION_MODEL = "gemini-3-pro-image-preview"; // High quality image editing/generation
+export const VIDEO_MODEL = "veo-3.0-generate-001"; // Image-to-video animation
+export const VEO_POLL_INTERVAL_MS = 5000;
+export const VEO_MAX_WAIT_MS = 10 * 60 * 1000; // Give up on a Veo operation after 10 minutes
+export const MAX_GENERATION_VARIANTS = 4; // Candidates per generation (Veo returns at most 4 clips per request)
+export const MAX_OVERLAY_UPLOAD_MB = 200; // Uploaded overlay images and clips are kept in the browser
+// Drag data type for library assets dropped onto the timeline
+export const ASSET_DRAG_TYPE = 'application/x-overlay-asset';
+
+// Default number of requests allowed in flight at once per model (see services/generationQueue.ts)
+export const DEFAULT_MODEL_CONCURRENCY: Record<string, number> = {
+  [GENERATION_MODEL]: 2,
+  [VIDEO_MODEL]: 1
+};
+
+export const ERROR_KIND_LABELS: Record<GenerationErrorKind, string> = {
+  'rate-limited': 'Rate limited',
+  'safety': 'Blocked by safety filters',
+  'quota': 'Quota exhausted',
+  'network': 'Network error',
+  'malformed': 'Unexpected response',
+  'timeout': 'Timed out',
+  'unknown': 'Generation failed'
+};
+
+export const KEYFRAME_EASING_LABELS: Record<KeyframeEasing, string> = {
+  'linear': 'Linear',
+  'ease-in': 'Ease in',
+  'ease-out': 'Ease out',
+  'ease-in-out': 'Ease in-out',
+  'hold': 'Hold'
+};
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  'none': 'Cut',
+  'fade': 'Fade',
+  'slide': 'Slide',
+  'scale': 'Scale',
+  'wipe': 'Wipe'
+};
+
+export const TRANSITION_DIRECTION_LABELS: Record<TransitionDirection, string> = {
+  'left': 'Left',
+  'right': 'Right',
+  'up': 'Top',
+  'down': 'Bottom'
+};
+
+export const MAX_ANALYSIS_SEGMENTS = 30;
+// Videos (or re-analyzed ranges) longer than one window are analyzed window by window
+export const ANALYSIS_WINDOW_SEC = 10 * 60;
+export const ANALYSIS_WINDOW_OVERLAP_SEC = 30;
+// With automatic segment count, windows ask for about one segment this often
+export const ANALYSIS_AUTO_SECONDS_PER_SEGMENT = 120;
+
+export const SEGMENT_COUNT_MODE_LABELS: Record<SegmentCountMode, string> = {
+  'auto': 'Automatic',
+  'count': 'Fixed count',
+  'density': 'One every N seconds'
+};
+
+export const OVERLAY_STYLE_LABELS: Record<OverlayStyle, string> = {
+  '3d': '3D objects',
+  'flat-infographic': 'Flat infographic',
+  'hand-drawn': 'Hand-drawn',
+  'lower-third': 'Lower third'
+};
+
+// How each style is described to the models, in the analysis persona and image prompts
+export const OVERLAY_STYLE_PROMPTS: Record<OverlayStyle, { persona: string; look: string }> = {
+  '3d': {
+    persona: 'an expert video editor and educational content strategist',
+    look: 'a glossy 3D rendered element (chart, object or text) with soft studio lighting'
+  },
+  'flat-infographic': {
+    persona: 'a motion graphics designer who specialises in clean data visualisation',
+    look: 'a flat vector infographic with simple shapes, bold colors and no gradients or shadows'
+  },
+  'hand-drawn': {
+    persona: 'an explainer video illustrator with a sketchbook style',
+    look: 'a hand-drawn doodle with marker strokes and a slightly imperfect, sketched look'
+  },
+  'lower-third': {
+    persona: 'a broadcast graphics designer who builds news and documentary packages',
+    look: 'a lower-third banner with a title and short caption, placed along the bottom of the frame'
+  }
+};
+
+// Transcript lines are broken into captions no longer than this, in characters and seconds
+export const CAPTION_MAX_CHARS = 42;
+export const CAPTION_MAX_SEC = 6;
+export const MIN_CAPTION_SEC = 0.3;
+
+export const TEXT_FONT_LABELS: Record<TextFont, string> = {
+  'sans': 'Sans',
+  'serif': 'Serif',
+  'rounded': 'Rounded',
+  'mono': 'Monospace'
+};
+
+// CSS font families, shared by the preview canvas and the renderer
+export const TEXT_FONT_FAMILIES: Record<TextFont, string> = {
+  'sans': '"Helvetica Neue", Arial, sans-serif',
+  'serif': 'Georgia, "Times New Roman", serif',
+  'rounded': '"Arial Rounded MT Bold", "Trebuchet MS", sans-serif',
+  'mono': '"Courier New", monospace'
+};
+
+export const CAPTION_BACKGROUND_LABELS: Record<CaptionBackground, string> = {
+  'none': 'None',
+  'box': 'Box',
+  'outline': 'Outline'
+};
+
+export const CAPTION_POSITION_LABELS: Record<CaptionPosition, string> = {
+  'top': 'Top',
+  'middle': 'Middle',
+  'bottom': 'Bottom'
+};
+
+export const CAPTION_PRESETS: Record<CaptionPreset, { label: string; style: CaptionStyle }> = {
+  'classic': {
+    label: 'Classic',
+    style: { font: 'sans', size: 5, color: '#FFFFFF', background: 'box', position: 'bottom' }
+  },
+  'social': {
+    label: 'Social',
+    style: { font: 'rounded', size: 8, color: '#FFE14D', background: 'outline', position: 'middle' }
+  },
+  'minimal': {
+    label: 'Minimal',
+    style: { font: 'sans', size: 4, color: '#FFFFFF', background: 'none', position: 'bottom' }
+  },
+  'broadcast': {
+    label: 'Broadcast',
+    style: { font: 'serif', size: 5, color: '#FFFFFF', background: 'box', position: 'top' }
+  }
+};
+
+// Length of a text overlay's build-in animation and of a counter's count
+export const TEXT_ANIMATION_SEC = 0.6;
+export const TEXT_COUNTER_SEC = 1.5;
+export const TYPEWRITER_CHARS_PER_SEC = 24;
+
+export const TEXT_OVERLAY_KIND_LABELS: Record<TextOverlayKind, string> = {
+  'title': 'Title',
+  'lower-third': 'Lower third',
+  'callout': 'Callout',
+  'counter': 'Counter'
+};
+
+export const TEXT_ANIMATION_LABELS: Record<TextAnimation, string> = {
+  'none': 'None',
+  'fade': 'Fade',
+  'pop': 'Pop',
+  'slide-up': 'Slide up',
+  'typewriter': 'Typewriter'
+};
+
+// Starting point for each kind of text segment
+export const TEXT_OVERLAY_PRESETS: Record<TextOverlayKind, TextOverlay> = {
+  'title': {
+    kind: 'title', text: 'Title', subtitle: '', font: 'sans', size: 10,
+    textColor: '#FFFFFF', accentColor: '#A855F7', animationIn: 'pop', countFrom: 0, countTo: 0
+  },
+  'lower-third': {
+    kind: 'lower-third', text: 'Name Surname', subtitle: 'Role or company', font: 'sans', size: 5,
+    textColor: '#FFFFFF', accentColor: '#7C3AED', animationIn: 'slide-up', countFrom: 0, countTo: 0
+  },
+  'callout': {
+    kind: 'callout', text: 'Key point', subtitle: '', font: 'rounded', size: 5,
+    textColor: '#111111', accentColor: '#FACC15', animationIn: 'pop', countFrom: 0, countTo: 0
+  },
+  'counter': {
+    kind: 'counter', text: 'Label', subtitle: '', font: 'sans', size: 14,
+    textColor: '#FFFFFF', accentColor: '#22D3EE', animationIn: 'fade', countFrom: 0, countTo: 100
+  }
+};
 
 export const SAMPLE_PROMPTS = [
   "A futuristic cyberpunk remix with neon lights and glitch effects.",
@@ -0,0 +1,154 @@
+import { GenerateContentResponse } from "@google/genai";
+import { GenerationErrorKind } from "../types";
+import { logger } from "../utils/logger";
+import { sleep } from "../utils/async";
+
+// Typed failures for Gemini/Veo calls, so callers can tell a transient hiccup
+// (worth retrying) from a request that will never succeed as-is.
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: GenerationErrorKind, message: string, retryable: boolean) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class RateLimitError extends GenerationError {
+  constructor(message = 'Too many requests. The API rate limit was hit.') {
+    super('rate-limited', message, true);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockedError extends GenerationError {
+  constructor(message = 'The request was blocked by safety filters. Try rewording the prompt.') {
+    super('safety', message, false);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class QuotaExceededError extends GenerationError {
+  constructor(message = 'API quota exhausted. Check your plan and billing.') {
+    super('quota', message, false);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(message = 'Network error or the service is temporarily unavailable.') {
+    super('network', message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class MalformedResponseError extends GenerationError {
+  constructor(message = 'The model returned an unexpected response.') {
+    super('malformed', message, true);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class TimeoutError extends GenerationError {
+  constructor(message = 'The request took too long to finish.') {
+    super('timeout', message, false);
+    this.name = 'TimeoutError';
+  }
+}
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// A safety verdict quoted in an error message. Plain "blocked" also covers API keys and referrers.
+const isSafetyMessage = (message: string) => {
+  const lower = message.toLowerCase();
+  return lower.includes('safety') || lower.includes('prohibited') ||
+    SAFETY_FINISH_REASONS.some(reason => new RegExp(`\\b${reason}\\b`).test(message));
+};
+
+/**
+ * Turn a generateContent response that carries no usable output into the matching error.
+ */
+export const errorForEmptyResponse = (response: GenerateContentResponse, fallbackMessage: string): GenerationError => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    return new SafetyBlockedError(`${fallbackMessage} Blocked by safety filters (${blockReason || finishReason}).`);
+  }
+  return new MalformedResponseError(fallbackMessage);
+};
+
+/**
+ * Map anything thrown by the SDK, fetch or our own code to a GenerationError.
+ * AbortErrors are returned unchanged so cancellation keeps working.
+ */
+export const classifyApiError = (err: unknown): GenerationError | DOMException => {
+  if (err instanceof GenerationError) return err;
+  if (err instanceof DOMException && err.name === 'AbortError') return err;
+
+  const status: number | undefined = (err as any)?.status ?? (err as any)?.code;
+  const message: string = (err as any)?.message || String(err);
+  const lower = message.toLowerCase();
+
+  if (status === 429 || lower.includes('resource_exhausted') || lower.includes('rate limit')) {
+    // Both per-minute throttling and hard quota exhaustion come back as 429
+    if (lower.includes('quota') && (lower.includes('billing') || lower.includes('exceeded your current quota'))) {
+      return new QuotaExceededError(message);
+    }
+    return new RateLimitError(message);
+  }
+  // A rejected or restricted API key won't start working on a retry, and isn't the prompt's fault
+  if (status === 401 || status === 403) {
+    return new GenerationError('unknown', message, false);
+  }
+  if (isSafetyMessage(message)) {
+    return new SafetyBlockedError(message);
+  }
+  if (status !== undefined && status >= 500) {
+    return new NetworkError(message);
+  }
+  if (err instanceof TypeError && (lower.includes('fetch') || lower.includes('network'))) {
+    return new NetworkError(message);
+  }
+  if (err instanceof SyntaxError) {
+    return new MalformedResponseError(`Could not parse the model response: ${message}`);
+  }
+  return new GenerationError('unknown', message, false);
+};
+
+export interface RetryOptions {
+  label: string;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: GenerationError, delayMs: number) => void;
+}
+
+/**
+ * Run `fn`, retrying transient failures (rate limits, network, malformed output) with
+ * exponential backoff and jitter. Non-retryable failures are thrown right away, classified.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { label, retries = 3, baseDelayMs = 2000, maxDelayMs = 30000, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new DOMException('Request cancelled', 'AbortError');
+    try {
+      return await fn();
+    } catch (err) {
+      const error = classifyApiError(err);
+      if (!(error instanceof GenerationError) || !error.retryable || attempt >= retries) throw error;
+
+      // Rate limits get a longer head start than other transient errors
+      const base = error.kind === 'rate-limited' ? baseDelayMs * 2 : baseDelayMs;
+      const delayMs = Math.min(maxDelayMs, base * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      logger.api.retry(label, attempt + 1, error.kind, Math.round(delayMs));
+      onRetry?.(attempt + 1, error, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
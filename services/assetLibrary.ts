@@ -0,0 +1,129 @@
+import { ChromaKeySettings, OverlayTransform, Segment } from '../types';
+import { putMedia, getMedia, deleteMediaWithPrefix } from './mediaStore';
+import { createThumbnail } from '../utils/videoUtils';
+
+// The library is shared by every project, so it is stored apart from them
+const ASSET_INDEX_KEY = 'gemini-animator-assets';
+// Asset media lives in the project media store under a prefix no project id starts with
+const ASSET_MEDIA_PREFIX = 'assets/';
+
+export interface LibraryAsset {
+  id: string;
+  name: string;
+  tags: string[];
+  createdAt: string;
+  // Small JPEG data URL shown in the library
+  thumbnail?: string;
+  hasVideo: boolean;
+  // What a segment made from the asset starts with
+  prompt: string;
+  animationPrompt: string;
+  chromaKey?: ChromaKeySettings;
+  overlayTransform?: OverlayTransform;
+  duration?: number;
+}
+
+export interface AssetMedia {
+  imageUrl: string;
+  videoUrl?: string;
+}
+
+const assetMediaKey = (assetId: string, field: 'image' | 'video') => `${ASSET_MEDIA_PREFIX}${assetId}/${field}`;
+
+const readIndex = (): LibraryAsset[] => {
+  try {
+    const stored = localStorage.getItem(ASSET_INDEX_KEY);
+    if (stored) return JSON.parse(stored) as LibraryAsset[];
+  } catch (err) {
+    console.error('[AssetLibrary] Failed to read asset index:', err);
+  }
+  return [];
+};
+
+const writeIndex = (assets: LibraryAsset[]): void => {
+  localStorage.setItem(ASSET_INDEX_KEY, JSON.stringify(assets));
+};
+
+/**
+ * All assets in the library, most recently added first.
+ */
+export const listAssets = (): LibraryAsset[] => {
+  return readIndex().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Add a segment's active image (and clip, if it has one) to the library with its prompts,
+ * chroma key and placement. The media is copied, so the asset outlives the project.
+ */
+export const addAssetFromSegment = async (segment: Segment): Promise<LibraryAsset> => {
+  if (!segment.imageUrl) throw new Error('Only segments with an image or clip can be added to the library.');
+
+  const id = crypto.randomUUID();
+  try {
+    await putMedia(assetMediaKey(id, 'image'), segment.imageUrl);
+    if (segment.videoUrl) {
+      // Clips are session-scoped object URLs, so their bytes are stored
+      await putMedia(assetMediaKey(id, 'video'), await (await fetch(segment.videoUrl)).blob());
+    }
+
+    const asset: LibraryAsset = {
+      id,
+      name: segment.topic,
+      tags: [],
+      createdAt: new Date().toISOString(),
+      thumbnail: await createThumbnail(segment.imageUrl, 160).catch(() => undefined),
+      hasVideo: !!segment.videoUrl,
+      prompt: segment.prompt,
+      animationPrompt: segment.animationPrompt,
+      chromaKey: segment.chromaKey,
+      overlayTransform: segment.overlayTransform,
+      duration: segment.duration
+    };
+    writeIndex([asset, ...readIndex()]);
+    console.log('[AssetLibrary] Asset added', id);
+    return asset;
+  } catch (err) {
+    // Usually a full localStorage or IndexedDB. Nothing would list media stored so far, so remove it again.
+    await deleteMediaWithPrefix(`${ASSET_MEDIA_PREFIX}${id}/`).catch(cleanupErr => console.error('[AssetLibrary] Failed to delete asset media:', cleanupErr));
+    throw err;
+  }
+};
+
+export const updateAsset = (id: string, changes: Partial<Pick<LibraryAsset, 'name' | 'tags'>>): void => {
+  try {
+    writeIndex(readIndex().map(asset => asset.id === id ? { ...asset, ...changes } : asset));
+  } catch (err) {
+    console.error('[AssetLibrary] Failed to update asset:', err);
+  }
+};
+
+export const deleteAsset = (id: string): void => {
+  try {
+    deleteMediaWithPrefix(`${ASSET_MEDIA_PREFIX}${id}/`).catch(err => console.error('[AssetLibrary] Failed to delete asset media:', err));
+    writeIndex(readIndex().filter(asset => asset.id !== id));
+    console.log('[AssetLibrary] Asset deleted', id);
+  } catch (err) {
+    console.error('[AssetLibrary] Failed to delete asset:', err);
+  }
+};
+
+/**
+ * The asset's image as a data URL and its clip as an object URL, ready to put on a segment.
+ */
+export const loadAssetMedia = async (asset: LibraryAsset): Promise<AssetMedia> => {
+  const image = await getMedia(assetMediaKey(asset.id, 'image'));
+  if (typeof image !== 'string') throw new Error(`The media for "${asset.name}" is missing from this browser's storage.`);
+  const video = asset.hasVideo ? await getMedia(assetMediaKey(asset.id, 'video')) : null;
+  return {
+    imageUrl: image,
+    videoUrl: video instanceof Blob ? URL.createObjectURL(video) : undefined
+  };
+};
+
+/**
+ * Whether the asset matches every word of a search, by name, tag or prompt.
+ */
+export const matchesAssetSearch = (asset: LibraryAsset, query: string): boolean => {
+  const haystack = [asset.name, ...asset.tags, asset.prompt, asset.animationPrompt].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
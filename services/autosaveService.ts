@@ -1,16 +1,27 @@
-import { AnalysisResult, GenerationPipelineState, AppState } from '../types';
+import { AnalysisResult, AnalysisSettings, GenerationPipelineState, AppState, Segment, GenerationTake } from '../types';
+import { putMedia, getMedia, deleteMedia, deleteMediaWithPrefix, listMediaKeys } from './mediaStore';
 
-const STORAGE_KEY = 'gemini-animator-project';
+const PROJECT_INDEX_KEY = 'gemini-animator-projects';
+const PROJECT_KEY_PREFIX = 'gemini-animator-project:';
+// Single-project key used before multiple projects were supported; migrated on first read
+const LEGACY_STORAGE_KEY = 'gemini-animator-project';
+
+// Segment media URLs are replaced with `idb:<key>` references when the project is saved
+const MEDIA_REF_PREFIX = 'idb:';
 
 export interface ProjectData {
   id: string;
   name: string;
   createdAt: string;
   updatedAt: string;
-  // Video file info (can't store the actual file, but store metadata)
+  // Small JPEG data URL shown in the project browser
+  thumbnail?: string;
+  // Video file info (the file itself lives in IndexedDB, see saveSourceVideo)
   videoFileName: string | null;
   videoFileType: string | null;
   videoAspectRatio: string;
+  // Segment count, overlay style and brand guide (missing on projects saved before these existed)
+  analysisSettings?: AnalysisSettings;
   // Analysis and generated content
   analysis: AnalysisResult | null;
   // Pipeline state
@@ -19,6 +30,22 @@ export interface ProjectData {
   appState: AppState;
 }
 
+// Lightweight entry kept in the project index for the project browser
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  thumbnail?: string;
+  videoFileName: string | null;
+  segmentCount: number;
+}
+
+export interface RestoredProject {
+  project: ProjectData;
+  sourceVideo: File | null;
+}
+
 const createDefaultProject = (): ProjectData => ({
   id: crypto.randomUUID(),
   name: 'Untitled Project',
@@ -37,55 +64,396 @@ const createDefaultProject = (): ProjectData => ({
   appState: AppState.IDLE
 });
 
-export const saveProject = (data: Partial<ProjectData>): void => {
+const projectKey = (id: string) => PROJECT_KEY_PREFIX + id;
+
+const toSummary = (project: ProjectData): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  thumbnail: project.thumbnail,
+  videoFileName: project.videoFileName,
+  segmentCount: project.analysis?.segments.length || 0
+});
+
+const readIndex = (): ProjectSummary[] => {
   try {
-    const existing = loadProject();
-    const updated: ProjectData = {
-      ...existing,
-      ...data,
-      updatedAt: new Date().toISOString()
-    };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-    console.log('[Autosave] Project saved', updated.updatedAt);
+    const stored = localStorage.getItem(PROJECT_INDEX_KEY);
+    if (stored) return JSON.parse(stored) as ProjectSummary[];
   } catch (err) {
-    console.error('[Autosave] Failed to save project:', err);
+    console.error('[Autosave] Failed to read project index:', err);
   }
+  return [];
+};
+
+const writeIndex = (index: ProjectSummary[]): void => {
+  localStorage.setItem(PROJECT_INDEX_KEY, JSON.stringify(index));
+};
+
+const writeProject = (project: ProjectData): void => {
+  localStorage.setItem(projectKey(project.id), JSON.stringify(project));
+  const index = readIndex().filter(p => p.id !== project.id);
+  writeIndex([toSummary(project), ...index]);
 };
 
-export const loadProject = (): ProjectData => {
+const migrateLegacyProject = (): void => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const parsed = JSON.parse(stored) as ProjectData;
-      console.log('[Autosave] Project loaded from', parsed.updatedAt);
-      return parsed;
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!legacy) return;
+    const project = JSON.parse(legacy) as ProjectData;
+    if (project.analysis !== null || project.videoFileName !== null) {
+      writeProject(project);
+      console.log('[Autosave] Migrated legacy project', project.id);
     }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (err) {
+    console.error('[Autosave] Failed to migrate legacy project:', err);
+  }
+};
+
+/**
+ * All stored projects, most recently updated first.
+ */
+export const listProjects = (): ProjectSummary[] => {
+  migrateLegacyProject();
+  return readIndex().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const createProject = (data: Partial<ProjectData> = {}): ProjectData => {
+  const project: ProjectData = { ...createDefaultProject(), ...data };
+  try {
+    writeProject(project);
+    console.log('[Autosave] Project created', project.id);
+  } catch (err) {
+    console.error('[Autosave] Failed to create project:', err);
+  }
+  return project;
+};
+
+const readProject = (id: string): ProjectData | null => {
+  const stored = localStorage.getItem(projectKey(id));
+  return stored ? JSON.parse(stored) as ProjectData : null;
+};
+
+// Merge `data` into the stored project; throws when localStorage is full. Runs on every
+// autosave, so it reads the project without loadProject's logging.
+const updateProject = (data: Partial<ProjectData> & { id: string }): ProjectData => {
+  const existing = readProject(data.id) || createDefaultProject();
+  const updated: ProjectData = {
+    ...existing,
+    ...data,
+    updatedAt: new Date().toISOString()
+  };
+  writeProject(updated);
+  return updated;
+};
+
+export const saveProject = (data: Partial<ProjectData> & { id: string }): void => {
+  try {
+    const updated = updateProject(data);
+    console.log('[Autosave] Project saved', updated.id, updated.updatedAt);
+  } catch (err) {
+    console.error('[Autosave] Failed to save project:', err);
+  }
+};
+
+export const loadProject = (id: string): ProjectData | null => {
+  try {
+    const project = readProject(id);
+    if (project) console.log('[Autosave] Project loaded from', project.updatedAt);
+    return project;
   } catch (err) {
     console.error('[Autosave] Failed to load project:', err);
   }
-  return createDefaultProject();
+  return null;
+};
+
+export const renameProject = (id: string, name: string): void => {
+  const project = loadProject(id);
+  if (!project) return;
+  // Renaming is not an edit to the content, so keep updatedAt as-is
+  try {
+    writeProject({ ...project, name });
+  } catch (err) {
+    console.error('[Autosave] Failed to rename project:', err);
+  }
 };
 
-export const clearProject = (): void => {
+export const deleteProject = (id: string): void => {
   try {
-    localStorage.removeItem(STORAGE_KEY);
-    console.log('[Autosave] Project cleared');
+    deleteMediaWithPrefix(`${id}/`).catch(err => console.error('[Autosave] Failed to delete project media:', err));
+    Array.from(writtenMedia.keys()).filter(key => key.startsWith(`${id}/`)).forEach(key => writtenMedia.delete(key));
+    localStorage.removeItem(projectKey(id));
+    writeIndex(readIndex().filter(p => p.id !== id));
+    console.log('[Autosave] Project deleted', id);
   } catch (err) {
-    console.error('[Autosave] Failed to clear project:', err);
+    console.error('[Autosave] Failed to delete project:', err);
   }
 };
 
-export const hasStoredProject = (): boolean => {
+/**
+ * Copy a project, including its media in IndexedDB, under a new id. Throws when the copy can't
+ * be stored (usually a full IndexedDB or localStorage); media copied so far is removed again.
+ */
+export const duplicateProject = async (id: string): Promise<ProjectData | null> => {
+  const source = loadProject(id);
+  if (!source) return null;
+
+  const newId = crypto.randomUUID();
+
+  const rewriteRef = (url?: string) =>
+    url?.startsWith(`${MEDIA_REF_PREFIX}${id}/`)
+      ? `${MEDIA_REF_PREFIX}${newId}/${url.slice(MEDIA_REF_PREFIX.length + id.length + 1)}`
+      : url;
+
+  const now = new Date().toISOString();
+  const copy: ProjectData = {
+    ...source,
+    id: newId,
+    name: `${source.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+    analysis: source.analysis ? {
+      ...source.analysis,
+      segments: source.analysis.segments.map(s => ({
+        ...s,
+        imageUrl: rewriteRef(s.imageUrl),
+        videoUrl: rewriteRef(s.videoUrl),
+        imageTakes: s.imageTakes?.map(t => ({ ...t, url: rewriteRef(t.url)! })),
+        videoTakes: s.videoTakes?.map(t => ({ ...t, url: rewriteRef(t.url)! }))
+      }))
+    } : null
+  };
+
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const parsed = JSON.parse(stored) as ProjectData;
-      // Only return true if there's actual meaningful data
-      return parsed.analysis !== null || parsed.videoFileName !== null;
+    // One at a time, so nothing is still being written when a failed copy is cleaned up
+    for (const key of await listMediaKeys(`${id}/`)) {
+      const value = await getMedia(key);
+      if (value !== null) await putMedia(`${newId}/${key.slice(id.length + 1)}`, value);
     }
+    writeProject(copy);
+  } catch (err) {
+    deleteProject(newId);
+    throw err;
+  }
+  console.log('[Autosave] Project duplicated', id, '→', newId);
+  return copy;
+};
+
+// Media persistence
+// ------------------------------------------------------------
+
+// Last URL written under each media key, so unchanged media is not rewritten on every autosave
+const writtenMedia = new Map<string, string>();
+
+const sourceVideoKey = (projectId: string) => `${projectId}/source`;
+const segmentMediaKey = (projectId: string, segmentId: string, field: 'image' | 'video') =>
+  `${projectId}/${segmentId}/${field}`;
+const takeMediaKey = (projectId: string, segmentId: string, takeId: string) =>
+  `${projectId}/${segmentId}/takes/${takeId}`;
+
+const storeMediaUrl = async (key: string, url: string): Promise<string> => {
+  if (url.startsWith(MEDIA_REF_PREFIX)) return url;
+  if (writtenMedia.get(key) !== url) {
+    // Images are data URLs and are stored as-is so they can be sent straight back to the API.
+    // Veo clips are session-scoped object URLs, so their bytes are stored instead.
+    const value = url.startsWith('data:') ? url : await (await fetch(url)).blob();
+    await putMedia(key, value);
+    writtenMedia.set(key, url);
+  }
+  return MEDIA_REF_PREFIX + key;
+};
+
+// Only used when opening a project, so an object URL cached for the key is no longer shown
+const loadMediaUrl = async (ref: string): Promise<string | undefined> => {
+  if (!ref.startsWith(MEDIA_REF_PREFIX)) return ref;
+  const key = ref.slice(MEDIA_REF_PREFIX.length);
+  const value = await getMedia(key);
+  if (value === null) return undefined;
+  const url = typeof value === 'string' ? value : URL.createObjectURL(value);
+  const previous = writtenMedia.get(key);
+  if (previous?.startsWith('blob:') && previous !== url) URL.revokeObjectURL(previous);
+  writtenMedia.set(key, url);
+  return url;
+};
+
+/**
+ * Revoke the object URLs of a project's clips once it is closed, so their blobs can be freed.
+ * Its media is loaded again (with new URLs) when the project is reopened.
+ */
+export const releaseProjectMedia = (projectId: string): void => {
+  Array.from(writtenMedia.entries()).filter(([key]) => key.startsWith(`${projectId}/`)).forEach(([key, url]) => {
+    if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+    writtenMedia.delete(key);
+  });
+};
+
+/**
+ * The bytes behind a segment media URL, read straight from storage for `idb:` references, so a
+ * project can be exported without opening it.
+ */
+export const loadMediaBlob = async (url: string): Promise<Blob> => {
+  if (!url.startsWith(MEDIA_REF_PREFIX)) return (await fetch(url)).blob();
+  const value = await getMedia(url.slice(MEDIA_REF_PREFIX.length));
+  if (value === null) throw new Error('Some of this project\'s media is missing from this browser\'s storage.');
+  return typeof value === 'string' ? (await fetch(value)).blob() : value;
+};
+
+const dehydrateSegment = async (projectId: string, segment: Segment): Promise<Segment> => {
+  // Intermediate step-1 images are only useful while generating and are not persisted
+  const { generationProgress, ...rest } = segment;
+
+  const storeTakes = (takes?: GenerationTake[]) => takes && Promise.all(takes.map(async take => ({
+    ...take,
+    url: await storeMediaUrl(takeMediaKey(projectId, segment.id, take.id), take.url)
+  })));
+  const imageTakes = await storeTakes(segment.imageTakes);
+  const videoTakes = await storeTakes(segment.videoTakes);
+
+  // The active image/clip is normally one of the takes, so it shares that take's stored copy
+  const storeActive = async (url: string | undefined, field: 'image' | 'video', takes?: GenerationTake[], stored?: GenerationTake[]) => {
+    if (!url) return undefined;
+    const index = takes?.findIndex(t => t.url === url) ?? -1;
+    return index !== -1 && stored ? stored[index].url : storeMediaUrl(segmentMediaKey(projectId, segment.id, field), url);
+  };
+
+  return {
+    ...rest,
+    imageUrl: await storeActive(segment.imageUrl, 'image', segment.imageTakes, imageTakes),
+    videoUrl: await storeActive(segment.videoUrl, 'video', segment.videoTakes, videoTakes),
+    imageTakes,
+    videoTakes
+  };
+};
+
+const hydrateSegment = async (segment: Segment): Promise<Segment> => {
+  // Load each stored item once so the active clip and its take share one object URL
+  const loaded = new Map<string, Promise<string | undefined>>();
+  const load = (ref: string) => {
+    if (!loaded.has(ref)) loaded.set(ref, loadMediaUrl(ref));
+    return loaded.get(ref)!;
+  };
+  const loadTakes = async (takes?: GenerationTake[]) => {
+    if (!takes) return undefined;
+    const resolved = await Promise.all(takes.map(async take => ({ ...take, url: await load(take.url) })));
+    return resolved.filter((take): take is GenerationTake => !!take.url);
+  };
+
+  const imageUrl = segment.imageUrl ? await load(segment.imageUrl) : undefined;
+  const videoUrl = segment.videoUrl ? await load(segment.videoUrl) : undefined;
+  const imageTakes = await loadTakes(segment.imageTakes);
+  const videoTakes = await loadTakes(segment.videoTakes);
+
+  // Image generation in flight when the page closed is lost; fall back to the last finished state.
+  // Veo operations run server-side and are resumed from pendingVideoOperation instead.
+  let status = segment.status;
+  const isResumable = status === 'generating-video' && !!segment.pendingVideoOperation;
+  if ((status === 'generating-image' || status === 'generating-video') && !isResumable) {
+    status = videoUrl ? 'video-success' : imageUrl ? 'image-success' : 'idle';
+  }
+
+  return { ...segment, imageUrl, videoUrl, imageTakes, videoTakes, status };
+};
+
+const collectMediaKeys = (analysis: AnalysisResult | null): Set<string> => {
+  const keys = new Set<string>();
+  analysis?.segments.forEach(s => {
+    [s.imageUrl, s.videoUrl, ...(s.imageTakes || []).map(t => t.url), ...(s.videoTakes || []).map(t => t.url)].forEach(url => {
+      if (url?.startsWith(MEDIA_REF_PREFIX)) keys.add(url.slice(MEDIA_REF_PREFIX.length));
+    });
+  });
+  return keys;
+};
+
+// Throws when the media or the project can't be stored (usually a full IndexedDB or localStorage)
+const writeProjectWithMedia = async (data: Partial<ProjectData> & { id: string }): Promise<void> => {
+  const projectId = data.id;
+  let analysis = data.analysis;
+
+  if (analysis) {
+    const segments = await Promise.all(analysis.segments.map(s => dehydrateSegment(projectId, s)));
+    analysis = { ...analysis, segments };
+
+    const referenced = collectMediaKeys(analysis);
+    referenced.add(sourceVideoKey(projectId));
+    const stored = await listMediaKeys(`${projectId}/`);
+    await Promise.all(stored.filter(key => !referenced.has(key)).map(key => {
+      writtenMedia.delete(key);
+      return deleteMedia(key);
+    }));
+  }
+
+  const updated = updateProject({ ...data, ...(analysis !== undefined ? { analysis } : {}) });
+  console.log('[Autosave] Project saved', updated.id, updated.updatedAt);
+};
+
+// Latest save per project, settled either way. Saves are chained so one never prunes media that
+// a newer save has just written, or writes its older analysis over the newer one.
+const pendingSaves = new Map<string, Promise<void>>();
+
+/**
+ * Save the project, moving segment images and Veo clips into IndexedDB and keeping only
+ * references to them in localStorage. Media no longer referenced by any segment is removed.
+ * Saves of the same project run one at a time, in the order they were made.
+ *
+ * Failures are logged, since an autosave is retried by the next one; pass `throwOnError` to
+ * have the returned promise reject instead.
+ */
+export const saveProjectWithMedia = (
+  data: Partial<ProjectData> & { id: string },
+  options: { throwOnError?: boolean } = {}
+): Promise<void> => {
+  const previous = pendingSaves.get(data.id) || Promise.resolve();
+  const save = previous.then(() => writeProjectWithMedia(data));
+  const settled = save.catch(err => console.error('[Autosave] Failed to save project media:', err));
+  pendingSaves.set(data.id, settled);
+  settled.then(() => {
+    if (pendingSaves.get(data.id) === settled) pendingSaves.delete(data.id);
+  });
+  return options.throwOnError ? save : settled;
+};
+
+export const saveSourceVideo = async (projectId: string, file: File): Promise<void> => {
+  try {
+    await putMedia(sourceVideoKey(projectId), file);
+    console.log('[Autosave] Source video stored', file.name);
   } catch (err) {
-    console.error('[Autosave] Failed to check stored project:', err);
+    console.error('[Autosave] Failed to store source video:', err);
+  }
+};
+
+const loadSourceVideo = async (project: ProjectData): Promise<File | null> => {
+  const storedVideo = await getMedia(sourceVideoKey(project.id));
+  if (!(storedVideo instanceof Blob)) return null;
+  return storedVideo instanceof File
+    ? storedVideo
+    : new File([storedVideo], project.videoFileName || 'video', { type: project.videoFileType || storedVideo.type });
+};
+
+/**
+ * Load a stored project with its media resolved back into usable URLs.
+ */
+export const restoreProject = async (id: string): Promise<RestoredProject> => {
+  const project = loadProject(id);
+  if (!project) throw new Error('Project not found.');
+
+  let analysis = project.analysis;
+  if (analysis) {
+    const segments = await Promise.all(analysis.segments.map(hydrateSegment));
+    analysis = { ...analysis, segments };
   }
-  return false;
+
+  const sourceVideo = await loadSourceVideo(project);
+  console.log('[Autosave] Project restored', project.updatedAt);
+  return { project: { ...project, analysis }, sourceVideo };
 };
 
+/**
+ * Load a stored project for export. Segment media stays as storage references (read them with
+ * loadMediaBlob), so no object URLs are created and the open project's media is left alone.
+ */
+export const loadStoredProject = async (id: string): Promise<RestoredProject> => {
+  const project = loadProject(id);
+  if (!project) throw new Error('Project not found.');
+  return { project, sourceVideo: await loadSourceVideo(project) };
+};
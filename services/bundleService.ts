@@ -0,0 +1,238 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import { Segment, GenerationTake } from '../types';
+import { ProjectData, createProject, deleteProject, loadMediaBlob, saveProjectWithMedia, saveSourceVideo } from './autosaveService';
+
+// Portable project bundle: a zip holding manifest.json plus every media file it references.
+// Bump BUNDLE_VERSION whenever the manifest shape changes in a non-additive way.
+export const BUNDLE_FORMAT = 'gemini-animator-bundle';
+export const BUNDLE_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const MEDIA_DIR = 'media/';
+
+// Media URLs inside the manifest point at zip entries with this prefix
+const BUNDLE_REF_PREFIX = 'bundle:';
+
+export interface BundleSourceVideo {
+  fileName: string | null;
+  fileType: string | null;
+  size: number | null;
+  // When false the bundle has no copy of the source video and it must be re-linked on import
+  embedded: boolean;
+  path?: string;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: ProjectData;
+  sourceVideo: BundleSourceVideo;
+}
+
+export interface ImportedBundle {
+  project: ProjectData;
+  // Source video details to ask the user for when it was not embedded
+  missingSourceVideo: BundleSourceVideo | null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov'
+};
+
+const extensionFor = (mimeType: string, fallback: string) => EXTENSIONS[mimeType.split(';')[0]] || fallback;
+
+const urlToBytes = async (url: string): Promise<{ bytes: Uint8Array; mimeType: string }> => {
+  const blob = await loadMediaBlob(url);
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type };
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(new Blob([bytes], { type: mimeType }));
+  });
+};
+
+/**
+ * Build a zip bundle of a project. `project.analysis` may hold live media URLs or storage
+ * references (as returned by loadStoredProject).
+ */
+export const exportProjectBundle = async (
+  project: ProjectData,
+  sourceVideo: File | null,
+  includeSourceVideo: boolean
+): Promise<Blob> => {
+  // Media is already compressed, so store it without deflating
+  const files: Zippable = {};
+
+  const addMedia = async (url: string, name: string, fallbackExt: string): Promise<string> => {
+    const { bytes, mimeType } = await urlToBytes(url);
+    const path = `${MEDIA_DIR}${name}.${extensionFor(mimeType, fallbackExt)}`;
+    files[path] = [bytes, { level: 0 }];
+    return BUNDLE_REF_PREFIX + path;
+  };
+
+  let segments: Segment[] = [];
+  if (project.analysis) {
+    segments = await Promise.all(project.analysis.segments.map(async (segment) => {
+      // Pending Veo operations belong to the exporting project and are not carried over
+      const { generationProgress, pendingVideoOperation, ...rest } = segment;
+      const addTakes = (takes: GenerationTake[] | undefined, fallbackExt: string) => takes && Promise.all(takes.map(async take => ({
+        ...take,
+        url: await addMedia(take.url, `${segment.id}-take-${take.id}`, fallbackExt)
+      })));
+      const imageTakes = await addTakes(segment.imageTakes, 'png');
+      const videoTakes = await addTakes(segment.videoTakes, 'mp4');
+      // The active image/clip is normally one of the takes and points at the same file
+      const addActive = async (url: string | undefined, name: string, fallbackExt: string, takes?: GenerationTake[], added?: GenerationTake[]) => {
+        if (!url) return undefined;
+        const index = takes?.findIndex(t => t.url === url) ?? -1;
+        return index !== -1 && added ? added[index].url : addMedia(url, name, fallbackExt);
+      };
+      return {
+        ...rest,
+        imageUrl: await addActive(segment.imageUrl, `${segment.id}-image`, 'png', segment.imageTakes, imageTakes),
+        videoUrl: await addActive(segment.videoUrl, `${segment.id}-video`, 'mp4', segment.videoTakes, videoTakes),
+        imageTakes,
+        videoTakes
+      };
+    }));
+  }
+
+  const embedVideo = includeSourceVideo && !!sourceVideo;
+  let sourceVideoPath: string | undefined;
+  if (embedVideo && sourceVideo) {
+    sourceVideoPath = `source.${extensionFor(sourceVideo.type, 'mp4')}`;
+    files[sourceVideoPath] = [new Uint8Array(await sourceVideo.arrayBuffer()), { level: 0 }];
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      ...project,
+      analysis: project.analysis ? { ...project.analysis, segments } : null,
+      pipelineState: { ...project.pipelineState, isRunning: false, isPaused: false }
+    },
+    sourceVideo: {
+      fileName: sourceVideo?.name ?? project.videoFileName,
+      fileType: sourceVideo?.type ?? project.videoFileType,
+      size: sourceVideo?.size ?? null,
+      embedded: embedVideo,
+      path: sourceVideoPath
+    }
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  console.log('[Bundle] Exported project', project.id, Object.keys(files).length, 'entries');
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+const parseManifest = (entries: Record<string, Uint8Array>): BundleManifest => {
+  const raw = entries[MANIFEST_PATH];
+  if (!raw) throw new Error('Not a project bundle: manifest.json is missing.');
+
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(strFromU8(raw)) as BundleManifest;
+  } catch {
+    throw new Error('Project bundle manifest is not valid JSON.');
+  }
+
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a project bundle: unrecognized format.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new Error(`Project bundle version ${manifest.version} is newer than this app supports (${BUNDLE_VERSION}).`);
+  }
+  return manifest;
+};
+
+/**
+ * Import a bundle as a new project (a fresh id, so importing twice never overwrites).
+ */
+export const importProjectBundle = async (file: File): Promise<ImportedBundle> => {
+  const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  const manifest = parseManifest(entries);
+
+  const resolveMedia = async (ref: string | undefined, kind: 'image' | 'video'): Promise<string | undefined> => {
+    if (!ref?.startsWith(BUNDLE_REF_PREFIX)) return undefined;
+    const path = ref.slice(BUNDLE_REF_PREFIX.length);
+    const bytes = entries[path];
+    if (!bytes) {
+      console.warn('[Bundle] Missing media entry', path);
+      return undefined;
+    }
+    const ext = path.split('.').pop() || '';
+    const mimeType = Object.keys(EXTENSIONS).find(type => EXTENSIONS[type] === ext) || (kind === 'image' ? 'image/png' : 'video/mp4');
+    // Images stay data URLs (the generation API needs their base64), clips become object URLs
+    return kind === 'image'
+      ? bytesToDataUrl(bytes, mimeType)
+      : URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  };
+
+  const { project: bundled, sourceVideo } = manifest;
+  const analysis = bundled.analysis ? {
+    ...bundled.analysis,
+    segments: await Promise.all(bundled.analysis.segments.map(async (segment) => {
+      // Resolve each file once so the active clip and its take share one object URL
+      const resolved = new Map<string, Promise<string | undefined>>();
+      const resolve = (ref: string | undefined, kind: 'image' | 'video') => {
+        if (!ref) return Promise.resolve(undefined);
+        if (!resolved.has(ref)) resolved.set(ref, resolveMedia(ref, kind));
+        return resolved.get(ref)!;
+      };
+      const resolveTakes = async (takes: GenerationTake[] | undefined, kind: 'image' | 'video') => {
+        if (!takes) return undefined;
+        const withUrls = await Promise.all(takes.map(async take => ({ ...take, url: await resolve(take.url, kind) })));
+        return withUrls.filter((take): take is GenerationTake => !!take.url);
+      };
+      const imageUrl = await resolve(segment.imageUrl, 'image');
+      const videoUrl = await resolve(segment.videoUrl, 'video');
+      const imageTakes = await resolveTakes(segment.imageTakes, 'image');
+      const videoTakes = await resolveTakes(segment.videoTakes, 'video');
+      return { ...segment, imageUrl, videoUrl, imageTakes, videoTakes };
+    }))
+  } : null;
+
+  const project = createProject({
+    name: bundled.name,
+    thumbnail: bundled.thumbnail,
+    videoFileName: bundled.videoFileName,
+    videoFileType: bundled.videoFileType,
+    videoAspectRatio: bundled.videoAspectRatio,
+    analysisSettings: bundled.analysisSettings,
+    pipelineState: bundled.pipelineState,
+    appState: bundled.appState
+  });
+  try {
+    await saveProjectWithMedia({ id: project.id, analysis }, { throwOnError: true });
+  } catch (err) {
+    // Half an import would show up as a project with missing media, so remove it again
+    deleteProject(project.id);
+    throw err;
+  }
+
+  let missingSourceVideo: BundleSourceVideo | null = sourceVideo;
+  if (sourceVideo.embedded && sourceVideo.path && entries[sourceVideo.path]) {
+    const videoFile = new File(
+      [entries[sourceVideo.path]],
+      sourceVideo.fileName || 'video',
+      { type: sourceVideo.fileType || 'video/mp4' }
+    );
+    await saveSourceVideo(project.id, videoFile);
+    missingSourceVideo = null;
+  }
+
+  console.log('[Bundle] Imported project', project.id, 'from', file.name);
+  return { project: { ...project, analysis }, missingSourceVideo };
+};
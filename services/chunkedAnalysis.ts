@@ -0,0 +1,161 @@
+import { AnalysisResult, AnalysisSettings, Segment, TimeRange, DEFAULT_ANALYSIS_SETTINGS } from '../types';
+import { ANALYSIS_WINDOW_SEC, ANALYSIS_WINDOW_OVERLAP_SEC, ANALYSIS_AUTO_SECONDS_PER_SEGMENT } from '../constants';
+import { formatTime } from '../utils/videoUtils';
+import { logger } from '../utils/logger';
+import { AnalysisOptions, AnalysisVideo, GenerationProvider } from './generationProvider';
+
+// Long recordings are analyzed in overlapping windows: one request over an hour of video only
+// finds a handful of coarse segments. Each window is analyzed as a range, then the results are
+// merged back onto the full timeline.
+
+// Segments from neighbouring windows closer together than this are the same moment found twice
+const DUPLICATE_WITHIN_SEC = 3;
+
+interface WindowResult {
+  window: TimeRange;
+  result: AnalysisResult;
+}
+
+// A segment and the index of the window that found it
+interface WindowSegment {
+  segment: Segment;
+  index: number;
+}
+
+/**
+ * Split `range` into windows of about ANALYSIS_WINDOW_SEC that overlap their neighbours, so a
+ * moment at a boundary is seen whole by at least one window. Short ranges are a single window.
+ */
+export const getAnalysisWindows = (range: TimeRange): TimeRange[] => {
+  const length = range.end - range.start;
+  if (length <= ANALYSIS_WINDOW_SEC) return [range];
+
+  const count = Math.ceil((length - ANALYSIS_WINDOW_OVERLAP_SEC) / (ANALYSIS_WINDOW_SEC - ANALYSIS_WINDOW_OVERLAP_SEC));
+  const step = (length - ANALYSIS_WINDOW_OVERLAP_SEC) / count;
+  return Array.from({ length: count }, (_, i) => ({
+    start: range.start + i * step,
+    end: Math.min(range.end, range.start + i * step + step + ANALYSIS_WINDOW_OVERLAP_SEC)
+  }));
+};
+
+// Per-window segment target: a fixed count is shared out by window length, and the automatic
+// mode asks for a steady density so long videos get more segments rather than a coarse few
+const getWindowSettings = (settings: AnalysisSettings, window: TimeRange, range: TimeRange): AnalysisSettings => {
+  switch (settings.countMode) {
+    case 'count': {
+      const share = settings.segmentCount * (window.end - window.start) / (range.end - range.start);
+      return { ...settings, segmentCount: Math.max(1, Math.round(share)) };
+    }
+    case 'auto':
+      return { ...settings, countMode: 'density', secondsPerSegment: ANALYSIS_AUTO_SECONDS_PER_SEGMENT };
+    default:
+      return settings;
+  }
+};
+
+/**
+ * Each window owns the part of the overlap nearest its own middle; segments a window found in
+ * its neighbour's half are left to the neighbour.
+ */
+const getWindowCore = (windows: TimeRange[], index: number): TimeRange => {
+  const window = windows[index];
+  const previous = windows[index - 1];
+  const next = windows[index + 1];
+  return {
+    start: previous ? (window.start + previous.end) / 2 : window.start,
+    end: next ? (next.start + window.end) / 2 : window.end
+  };
+};
+
+// Where window `index` overlaps the window before it (an empty range for the first window)
+const getOverlapWithPrevious = (windows: TimeRange[], index: number): TimeRange => {
+  const previous = windows[index - 1];
+  return previous ? { start: windows[index].start, end: previous.end } : { start: 0, end: 0 };
+};
+
+/**
+ * Combine per-window results into one analysis on the full timeline: segments outside their
+ * window's core are dropped, near-duplicates two windows found in their overlap are collapsed
+ * and every segment gets a fresh id (models number segments from 1 in each response).
+ */
+export const mergeWindowResults = (results: WindowResult[]): AnalysisResult => {
+  const windows = results.map(r => r.window);
+  const candidates: WindowSegment[] = results.flatMap(({ result }, index) => {
+    const core = getWindowCore(windows, index);
+    return result.segments
+      .filter(s => s.timestamp >= core.start && s.timestamp <= core.end)
+      .map(segment => ({ segment, index }));
+  }).sort((a, b) => a.segment.timestamp - b.segment.timestamp);
+
+  // Segments a single window found close together are distinct moments and are all kept
+  const isOverlapDuplicate = (previous: WindowSegment, next: WindowSegment) => {
+    if (previous.index === next.index) return false;
+    if (next.segment.timestamp - previous.segment.timestamp >= DUPLICATE_WITHIN_SEC) return false;
+    const overlap = getOverlapWithPrevious(windows, Math.max(previous.index, next.index));
+    const inOverlap = (segment: Segment) => segment.timestamp >= overlap.start && segment.timestamp <= overlap.end;
+    return inOverlap(previous.segment) && inOverlap(next.segment);
+  };
+
+  const kept: WindowSegment[] = [];
+  for (const candidate of candidates) {
+    const previous = kept[kept.length - 1];
+    if (previous && isOverlapDuplicate(previous, candidate)) continue;
+    kept.push(candidate);
+  }
+  const segments = kept.map(({ segment }): Segment => ({ ...segment, id: crypto.randomUUID() }));
+
+  // Transcript lines follow the same ownership rule, so overlapping speech isn't repeated
+  const hasTranscript = results.some(r => r.result.transcript);
+  const transcript = results.flatMap(({ result }, index) => {
+    const core = getWindowCore(windows, index);
+    return (result.transcript || []).filter(cue => cue.start >= core.start && cue.start < core.end);
+  }).sort((a, b) => a.start - b.start);
+
+  const label = (window: TimeRange) => `[${formatTime(window.start)}–${formatTime(window.end)}]`;
+  return {
+    visualSummary: results.map(r => `${label(r.window)} ${r.result.visualSummary}`).join('\n'),
+    audioSummary: results.map(r => `${label(r.window)} ${r.result.audioSummary}`).join('\n'),
+    segments,
+    ...(hasTranscript ? { transcript } : {})
+  };
+};
+
+/**
+ * Analyze `range` of the video (the whole of it by default), window by window when it is long.
+ * Windows that fail are skipped as long as at least one succeeds.
+ */
+export const analyzeVideoInWindows = async (
+  provider: GenerationProvider,
+  video: AnalysisVideo,
+  duration: number,
+  options: AnalysisOptions = {},
+  onWindowStart?: (index: number, total: number) => void
+): Promise<AnalysisResult> => {
+  const range = options.range || { start: 0, end: duration };
+  const windows = duration > 0 ? getAnalysisWindows(range) : [range];
+  if (windows.length === 1) {
+    onWindowStart?.(0, 1);
+    return provider.analyzeVideo(video, options);
+  }
+
+  logger.api.request('analyzeVideoInWindows', { windows: windows.length, start: range.start, end: range.end });
+  const settings = options.settings || DEFAULT_ANALYSIS_SETTINGS;
+  const results: WindowResult[] = [];
+  let firstError: unknown = null;
+  for (const [index, window] of windows.entries()) {
+    onWindowStart?.(index, windows.length);
+    try {
+      const result = await provider.analyzeVideo(video, { ...options, range: window, settings: getWindowSettings(settings, window, range) });
+      results.push({ window, result });
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') throw err;
+      logger.api.error(`analyzeVideoInWindows ${formatTime(window.start)}–${formatTime(window.end)}`, err);
+      firstError = firstError ?? err;
+    }
+  }
+  if (results.length === 0) throw firstError;
+
+  const merged = mergeWindowResults(results);
+  logger.api.response('analyzeVideoInWindows', `${results.length}/${windows.length} windows, ${merged.segments.length} segments`);
+  return merged;
+};
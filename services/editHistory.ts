@@ -0,0 +1,252 @@
+import { AnalysisResult, Segment } from '../types';
+
+// Undo/redo for timeline edits. Each entry is a command holding only the fields it changed,
+// so undoing an edit never rolls back unrelated updates (like a generation that finished since).
+
+const MAX_HISTORY = 100;
+// Edits with the same coalesce key closer together than this merge into one entry (drags, sliders)
+const COALESCE_WINDOW_MS = 1000;
+
+// Generation bookkeeping rather than user edits: left out of history, and status is
+// re-derived from the segment's media after an undo/redo touches it
+const TRANSIENT_SEGMENT_FIELDS: (keyof Segment)[] = ['status', 'generationProgress', 'pendingVideoOperation', 'error', 'errorKind'];
+const MEDIA_FIELDS: (keyof Segment)[] = ['imageUrl', 'videoUrl'];
+
+interface SegmentPatch {
+  segmentId: string;
+  before: Partial<Segment> | null; // null: the segment didn't exist before the edit
+  after: Partial<Segment> | null; // null: the edit removed the segment
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number; // When the entry was last updated
+  coalesceKey?: string;
+  lastEditId: string;
+  segments: SegmentPatch[];
+  // Analysis fields other than segments (tracks, summaries...)
+  fieldsBefore: Partial<AnalysisResult>;
+  fieldsAfter: Partial<AnalysisResult>;
+}
+
+export interface EditHistorySnapshot {
+  past: HistoryEntry[]; // Oldest first; the last one is what undo reverts
+  future: HistoryEntry[]; // Next redo first
+}
+
+type HistoryListener = (snapshot: EditHistorySnapshot) => void;
+
+const diffFields = <T extends object>(before: T, after: T, skip: (keyof T)[] = []) => {
+  const changedBefore: Partial<T> = {};
+  const changedAfter: Partial<T> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof T)[]);
+  keys.forEach(key => {
+    if (skip.includes(key) || before[key] === after[key]) return;
+    changedBefore[key] = before[key];
+    changedAfter[key] = after[key];
+  });
+  return { before: changedBefore, after: changedAfter, changed: Object.keys(changedAfter).length > 0 };
+};
+
+const withoutTransientFields = (segment: Segment): Partial<Segment> => {
+  const copy: Partial<Segment> = { ...segment };
+  TRANSIENT_SEGMENT_FIELDS.forEach(key => delete copy[key]);
+  return copy;
+};
+
+const diffSegments = (before: Segment[], after: Segment[]): SegmentPatch[] => {
+  const patches: SegmentPatch[] = [];
+  const afterById = new Map(after.map(s => [s.id, s]));
+  const beforeIds = new Set(before.map(s => s.id));
+
+  for (const segment of before) {
+    const next = afterById.get(segment.id);
+    if (!next) {
+      patches.push({ segmentId: segment.id, before: withoutTransientFields(segment), after: null });
+    } else if (next !== segment) {
+      const diff = diffFields(segment, next, TRANSIENT_SEGMENT_FIELDS);
+      if (diff.changed) patches.push({ segmentId: segment.id, before: diff.before, after: diff.after });
+    }
+  }
+  for (const segment of after) {
+    if (!beforeIds.has(segment.id)) {
+      patches.push({ segmentId: segment.id, before: null, after: withoutTransientFields(segment) });
+    }
+  }
+  return patches;
+};
+
+// Later patches for the same segment keep the earliest "before" and the latest "after"
+const mergeSegmentPatches = (older: SegmentPatch[], newer: SegmentPatch[]): SegmentPatch[] => {
+  const merged = older.map(p => ({ ...p }));
+  for (const patch of newer) {
+    const existing = merged.find(p => p.segmentId === patch.segmentId);
+    if (!existing) {
+      merged.push(patch);
+      continue;
+    }
+    if (existing.before !== null && patch.before !== null) {
+      existing.before = { ...patch.before, ...existing.before };
+    }
+    existing.after = patch.after === null || existing.after === null
+      ? patch.after
+      : { ...existing.after, ...patch.after };
+  }
+  return merged;
+};
+
+const reconcileStatus = (segment: Segment): Segment => {
+  if (segment.status === 'generating-image' || segment.status === 'generating-video') return segment;
+  const status: Segment['status'] = segment.videoUrl ? 'video-success' : segment.imageUrl ? 'image-success' : 'idle';
+  return { ...segment, status, error: undefined, errorKind: undefined };
+};
+
+/**
+ * Apply an entry's changes to the analysis, backwards for undo or forwards for redo.
+ */
+export const applyHistoryEntry = (
+  analysis: AnalysisResult,
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo'
+): AnalysisResult => {
+  const segments = [...analysis.segments];
+
+  for (const patch of entry.segments) {
+    const target = direction === 'undo' ? patch.before : patch.after;
+    const index = segments.findIndex(s => s.id === patch.segmentId);
+
+    if (target === null) {
+      if (index !== -1) segments.splice(index, 1);
+      continue;
+    }
+
+    const touchesMedia = index === -1 || MEDIA_FIELDS.some(key => key in target);
+    const merged = { ...(index === -1 ? {} : segments[index]), ...target, id: patch.segmentId } as Segment;
+    const updated = touchesMedia ? reconcileStatus(merged) : merged;
+    if (index === -1) segments.push(updated);
+    else segments[index] = updated;
+  }
+
+  segments.sort((a, b) => a.timestamp - b.timestamp);
+  const fields = direction === 'undo' ? entry.fieldsBefore : entry.fieldsAfter;
+  return { ...analysis, ...fields, segments };
+};
+
+class EditHistory {
+  private past: HistoryEntry[] = [];
+  private future: HistoryEntry[] = [];
+  private listeners = new Set<HistoryListener>();
+
+  /**
+   * Record an edit from `before` to `after`. `editId` identifies one user action: recording it
+   * again (React re-running a state updater) updates the same entry instead of adding another.
+   */
+  record(editId: string, label: string, before: AnalysisResult, after: AnalysisResult, coalesceKey?: string): void {
+    const segments = diffSegments(before.segments, after.segments);
+    const { segments: _before, ...restBefore } = before;
+    const { segments: _after, ...restAfter } = after;
+    const fields = diffFields<Partial<AnalysisResult>>(restBefore, restAfter);
+    if (segments.length === 0 && !fields.changed) return;
+
+    const now = Date.now();
+    const last = this.past[this.past.length - 1];
+    const continuesLast = last && (
+      last.lastEditId === editId ||
+      (coalesceKey && last.coalesceKey === coalesceKey && now - last.timestamp < COALESCE_WINDOW_MS)
+    );
+
+    if (continuesLast) {
+      last.segments = mergeSegmentPatches(last.segments, segments);
+      last.fieldsBefore = { ...fields.before, ...last.fieldsBefore };
+      last.fieldsAfter = { ...last.fieldsAfter, ...fields.after };
+      last.timestamp = now;
+      last.lastEditId = editId;
+    } else {
+      this.past.push({
+        id: crypto.randomUUID(),
+        label,
+        timestamp: now,
+        coalesceKey,
+        lastEditId: editId,
+        segments,
+        fieldsBefore: fields.before,
+        fieldsAfter: fields.after
+      });
+      if (this.past.length > MAX_HISTORY) this.past.shift();
+    }
+
+    this.future = [];
+    this.notify();
+  }
+
+  /**
+   * Move the latest entry to the redo stack and return it for the caller to apply.
+   */
+  undo(): HistoryEntry | null {
+    const entry = this.past.pop();
+    if (!entry) return null;
+    this.future.unshift(entry);
+    this.notify();
+    return entry;
+  }
+
+  redo(): HistoryEntry | null {
+    const entry = this.future.shift();
+    if (!entry) return null;
+    this.past.push(entry);
+    this.notify();
+    return entry;
+  }
+
+  /**
+   * Undo or redo until `entryId` is the latest applied entry (null undoes everything).
+   * Returns the entries to apply, in order.
+   */
+  travelTo(entryId: string | null): { direction: 'undo' | 'redo'; entries: HistoryEntry[] } {
+    const entries: HistoryEntry[] = [];
+    if (entryId === null || this.past.some(e => e.id === entryId)) {
+      while (this.past.length > 0 && this.past[this.past.length - 1].id !== entryId) {
+        entries.push(this.past.pop()!);
+        this.future.unshift(entries[entries.length - 1]);
+      }
+      this.notify();
+      return { direction: 'undo', entries };
+    }
+    const target = this.future.findIndex(e => e.id === entryId);
+    if (target !== -1) {
+      entries.push(...this.future.splice(0, target + 1));
+      this.past.push(...entries);
+    }
+    this.notify();
+    return { direction: 'redo', entries };
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+    this.notify();
+  }
+
+  getSnapshot(): EditHistorySnapshot {
+    return { past: [...this.past], future: [...this.future] };
+  }
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Deferred: record() runs inside React state updaters, where other components can't be updated
+  private notify(): void {
+    queueMicrotask(() => {
+      const snapshot = this.getSnapshot();
+      this.listeners.forEach(listener => listener(snapshot));
+    });
+  }
+}
+
+// Shared instance for the open project
+export const editHistory = new EditHistory();
@@ -1,9 +1,19 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ANALYSIS_MODEL, GENERATION_MODEL } from "../constants";
-import { AnalysisResult, Segment } from "../types";
-import { formatTime } from "../utils/videoUtils";
+import { GoogleGenAI, GenerateContentParameters, GenerateVideosOperation, Type, FileState, MediaResolution } from "@google/genai";
+import {
+  ANALYSIS_MODEL, GENERATION_MODEL, VIDEO_MODEL, VEO_POLL_INTERVAL_MS, VEO_MAX_WAIT_MS, MAX_GENERATION_VARIANTS, OVERLAY_STYLE_PROMPTS,
+  UPLOAD_CHUNK_BYTES, FILE_PROCESSING_POLL_MS, FILE_PROCESSING_MAX_WAIT_MS
+} from "../constants";
+import { AnalysisResult, DEFAULT_ANALYSIS_SETTINGS } from "../types";
+import { getSegmentCountInstruction } from "../utils/analysisPrompts";
+import { placeAnalysisOnTimeline } from "../utils/segments";
 import { logger } from "../utils/logger";
+import { sleep, createAbortError } from "../utils/async";
+import {
+  GenerationError, RateLimitError, NetworkError, MalformedResponseError, SafetyBlockedError, TimeoutError,
+  classifyApiError, errorForEmptyResponse, withRetry
+} from "./apiErrors";
+import { AnalysisOptions, AnalysisVideo, UploadedVideo, VideoUploadOptions, AnimationOptions, GenerationProvider, ImageGenerationProgressCallback, ImageGenerationResult } from "./generationProvider";
 
 // Helper to get fresh instance (handling key updates)
 const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -39,95 +49,250 @@ export const promptApiKey = async (): Promise<boolean> => {
   return false;
 };
 
-export const analyzeVideoContent = async (videoBase64: string, mimeType: string): Promise<AnalysisResult> => {
+const FILES_UPLOAD_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+
+// POST to the resumable upload endpoint, turning HTTP failures into errors withRetry can classify
+const postUpload = async (url: string, headers: Record<string, string>, body: BodyInit, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(url, { method: 'POST', headers, body, signal });
+  if (!response.ok) {
+    const error: any = new Error(`Video upload failed (HTTP ${response.status}): ${await response.text()}`);
+    error.status = response.status;
+    throw error;
+  }
+  return response;
+};
+
+/**
+ * Upload a video to the Gemini Files API with the resumable protocol, chunk by chunk. A failed
+ * chunk is retried from wherever the server says it got to. Resolves once the file is ready
+ * to be referenced by analyzeVideoContent.
+ */
+export const uploadVideoFile = async (file: File, options: VideoUploadOptions = {}): Promise<UploadedVideo> => {
+  const { signal, onProgress, onProcessing } = options;
+  const mimeType = file.type || 'video/mp4';
+  logger.api.request('uploadVideoFile', { fileName: file.name, size: file.size, mimeType });
+
+  // 1. Open an upload session
+  const session = await withRetry(() => postUpload(`${FILES_UPLOAD_URL}?key=${process.env.API_KEY}`, {
+    'X-Goog-Upload-Protocol': 'resumable',
+    'X-Goog-Upload-Command': 'start',
+    'X-Goog-Upload-Header-Content-Length': String(file.size),
+    'X-Goog-Upload-Header-Content-Type': mimeType,
+    'Content-Type': 'application/json'
+  }, JSON.stringify({ file: { display_name: file.name } }), signal), { label: 'uploadVideoFile', signal });
+  const uploadUrl = session.headers.get('x-goog-upload-url');
+  if (!uploadUrl) throw new MalformedResponseError('The Files API did not return an upload URL.');
+
+  // 2. Send the bytes. After a failure, ask how much arrived and continue from there
+  let offset = 0;
+  let needsResync = false;
+  let uploaded: { name?: string; uri?: string; state?: FileState; expirationTime?: string } | undefined;
+  while (!uploaded) {
+    uploaded = await withRetry(async () => {
+      if (needsResync) {
+        const status = await postUpload(uploadUrl, { 'X-Goog-Upload-Command': 'query' }, '', signal);
+        offset = Number(status.headers.get('x-goog-upload-size-received') || offset);
+        needsResync = false;
+      }
+      const end = Math.min(offset + UPLOAD_CHUNK_BYTES, file.size);
+      const isLast = end === file.size;
+      const response = await postUpload(uploadUrl, {
+        'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+        'X-Goog-Upload-Offset': String(offset)
+      }, file.slice(offset, end), signal);
+      offset = end;
+      onProgress?.(offset, file.size);
+      return isLast ? (await response.json()).file : undefined;
+    }, { label: 'uploadVideoFile', signal, onRetry: () => { needsResync = true; } });
+  }
+  if (!uploaded.name || !uploaded.uri) throw new MalformedResponseError('The Files API returned an incomplete file.');
+
+  // 3. Wait for the file to be processed before it can be used in a prompt
+  onProcessing?.();
   const ai = getAI();
+  const startedAt = Date.now();
+  while (uploaded.state === FileState.PROCESSING) {
+    if (Date.now() - startedAt > FILE_PROCESSING_MAX_WAIT_MS) {
+      throw new TimeoutError(`The uploaded video was not processed within ${Math.round(FILE_PROCESSING_MAX_WAIT_MS / 60000)} minutes.`);
+    }
+    await sleep(FILE_PROCESSING_POLL_MS, signal);
+    const name = uploaded.name;
+    uploaded = await withRetry(() => ai.files.get({ name }), { label: 'getFile', signal });
+  }
+  if (uploaded.state === FileState.FAILED) {
+    throw new GenerationError('unknown', 'Gemini could not process the uploaded video.', false);
+  }
 
-  logger.api.request('analyzeVideoContent', { mimeType, videoBase64Length: videoBase64.length });
+  logger.api.response('uploadVideoFile', uploaded.name);
+  return {
+    uri: uploaded.uri!,
+    mimeType,
+    expiresAt: uploaded.expirationTime ? Date.parse(uploaded.expirationTime) : undefined
+  };
+};
+
+export const analyzeVideoContent = async (
+  video: AnalysisVideo,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const ai = getAI();
+  const { range, instructions, settings = DEFAULT_ANALYSIS_SETTINGS } = options;
+  const style = OVERLAY_STYLE_PROMPTS[settings.overlayStyle];
+  const language = settings.language.trim();
+  const styleGuide = settings.styleGuide.trim();
+
+  const isUploaded = 'uri' in video;
+  logger.api.request('analyzeVideoContent', {
+    mimeType: video.mimeType,
+    ...(isUploaded ? { fileUri: video.uri } : { videoBase64Length: video.base64.length }),
+    range,
+    countMode: settings.countMode,
+    overlayStyle: settings.overlayStyle,
+    hasInstructions: !!instructions
+  });
+
+  const scope = range
+    ? `Only consider the part of the video from ${range.start.toFixed(1)}s to ${range.end.toFixed(1)}s. ${getSegmentCountInstruction(settings, true)} Give every 'timestamp' in seconds from the start of the full video (between ${range.start.toFixed(1)} and ${range.end.toFixed(1)}).`
+    : getSegmentCountInstruction(settings, false);
 
   const prompt = `
-    You are an expert video editor and educational content strategist.
+    You are ${style.persona}.
 
     TASK:
     Analyze the provided video to identify distinct "segments" or "topics" where the visual context or spoken subject changes significantly.
     For each segment, I need you to suggest a Green Screen Overlay Asset (AR Graphic) that would help explain that specific topic.
 
     INSTRUCTIONS:
-    1. Identify 3-5 key moments/segments in the video.
+    1. ${scope}
     2. For each segment, provide:
        - 'timestamp': The best time (in seconds) to capture a frame and display the overlay.
        - 'topic': A short title for this segment.
        - 'description': A brief explanation of what is happening or being said.
-       - 'prompt': A specific image generation prompt for a 3D, green-screen compatible element (chart, object, text) that matches this segment's topic.
+       - 'prompt': A specific image generation prompt for a green-screen compatible element (chart, object, text) that matches this segment's topic.
        - 'animationPrompt': A short, clear description of how this specific element should animate (e.g., "Bar chart bars rising up", "Text typing on", "Object spinning slowly").
-    3. Ensure the 'prompt' describes an isolated object suitable for AR compositing (e.g., "A floating 3D bar chart showing growth", "Gold trophy icon", "3D text 'SECRET REVEALED'").
-
-    Return a JSON object with a visual summary, audio summary, and the list of segments.
+    3. Ensure the 'prompt' describes an isolated object suitable for AR compositing, drawn as ${style.look} (e.g., "A bar chart showing growth", "Gold trophy icon", "Text 'SECRET REVEALED'").
+    ${language ? `4. Write 'topic', 'description' and any text that appears in the graphics in ${language}.\n` : ''}
+    ${styleGuide ? `BRAND STYLE GUIDE (every 'prompt' must follow it):\n    ${styleGuide}\n` : ''}
+    ${instructions ? `ADDITIONAL GUIDANCE FROM THE EDITOR:\n    ${instructions}\n` : ''}
+    TRANSCRIPT:
+    Transcribe all speech${range ? ' in that part of the video' : ''} verbatim, in the language spoken, as 'transcript': a list of lines (one sentence or short phrase each, at most about 10 seconds).
+    Give each line 'start' and 'end' in seconds from the start of the full video, and 'words': every word with its own 'start' and 'end'.
+    Leave 'transcript' empty if nobody speaks.
+
+    Return a JSON object with a visual summary, audio summary, the list of segments and the transcript.
   `;
 
   logger.prompt.analysis(prompt);
 
-  const response = await ai.models.generateContent({
-    model: ANALYSIS_MODEL,
-    contents: {
-      parts: [
-        { inlineData: { mimeType, data: videoBase64 } },
-        { text: prompt }
-      ]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          visualSummary: { type: Type.STRING, description: "Overall visual description of the video" },
-          audioSummary: { type: Type.STRING, description: "Overall summary of the spoken content" },
-          segments: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                timestamp: { type: Type.NUMBER, description: "Time in seconds" },
-                topic: { type: Type.STRING },
-                description: { type: Type.STRING },
-                prompt: { type: Type.STRING, description: "Image generation prompt for the overlay" },
-                animationPrompt: { type: Type.STRING, description: "Motion guide for animating this asset" },
-              },
-              required: ["id", "timestamp", "topic", "description", "prompt", "animationPrompt"]
+  const result = await withRetry(async () => {
+    const response = await ai.models.generateContent({
+      model: ANALYSIS_MODEL,
+      contents: {
+        parts: [
+          {
+            ...(isUploaded
+              ? { fileData: { mimeType: video.mimeType, fileUri: video.uri } }
+              : { inlineData: { mimeType: video.mimeType, data: video.base64 } }),
+            ...(range ? { videoMetadata: { startOffset: `${range.start}s`, endOffset: `${range.end}s` } } : {})
+          },
+          { text: prompt }
+        ]
+      },
+      config: {
+        // Uploaded videos can run to hours; low resolution keeps them within the context window
+        ...(isUploaded ? { mediaResolution: MediaResolution.MEDIA_RESOLUTION_LOW } : {}),
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            visualSummary: { type: Type.STRING, description: "Overall visual description of the video" },
+            audioSummary: { type: Type.STRING, description: "Overall summary of the spoken content" },
+            segments: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  timestamp: { type: Type.NUMBER, description: "Time in seconds" },
+                  topic: { type: Type.STRING },
+                  description: { type: Type.STRING },
+                  prompt: { type: Type.STRING, description: "Image generation prompt for the overlay" },
+                  animationPrompt: { type: Type.STRING, description: "Motion guide for animating this asset" },
+                },
+                required: ["id", "timestamp", "topic", "description", "prompt", "animationPrompt"]
+              }
+            },
+            transcript: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  start: { type: Type.NUMBER, description: "Time in seconds" },
+                  end: { type: Type.NUMBER, description: "Time in seconds" },
+                  text: { type: Type.STRING },
+                  words: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        text: { type: Type.STRING },
+                        start: { type: Type.NUMBER },
+                        end: { type: Type.NUMBER }
+                      },
+                      required: ["text", "start", "end"]
+                    }
+                  }
+                },
+                required: ["start", "end", "text"]
+              }
             }
-          }
-        },
-        required: ["visualSummary", "audioSummary", "segments"]
+          },
+          required: ["visualSummary", "audioSummary", "segments"]
+        }
       }
-    }
-  });
+    });
 
-  logger.api.response('analyzeVideoContent', 'success');
+    const text = response.text;
+    if (!text) throw errorForEmptyResponse(response, "No response from Gemini.");
 
-  const text = response.text;
-  if (!text) throw new Error("No response from Gemini");
+    try {
+      return JSON.parse(text) as AnalysisResult;
+    } catch {
+      throw new MalformedResponseError("Gemini returned an analysis that is not valid JSON.");
+    }
+  }, { label: 'analyzeVideoContent' });
 
-  const result = JSON.parse(text) as AnalysisResult;
+  logger.api.response('analyzeVideoContent', 'success');
 
-  // Post-process to add formatted time, default status, and default duration
-  result.segments = result.segments.map(s => ({
-    ...s,
-    formattedTime: formatTime(s.timestamp),
-    status: 'idle',
-    duration: 5 // Default duration of 5 seconds
-  }));
+  const placed = placeAnalysisOnTimeline(result, range);
 
-  logger.prompt.analysisResult(result);
+  logger.prompt.analysisResult(placed);
 
   // Log each segment's prompts
-  result.segments.forEach(s => {
+  placed.segments.forEach(s => {
     logger.prompt.imagePrompt(s.id, s.prompt);
     logger.prompt.animationPrompt(s.id, s.animationPrompt);
   });
 
-  return result;
+  return placed;
 };
 
+// Run an image request, retrying transient failures, and return the first image as a data URL
+const requestImage = (
+  ai: GoogleGenAI,
+  request: GenerateContentParameters,
+  endpoint: string,
+  failureMessage: string
+): Promise<string> => withRetry(async () => {
+  const response = await ai.models.generateContent(request);
+  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+  if (!part?.inlineData) {
+    logger.api.error(endpoint, 'No image returned');
+    throw errorForEmptyResponse(response, failureMessage);
+  }
+  return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+}, { label: endpoint });
+
 /**
  * Step 1: Generate a scene with overlay graphics placed in the correct positions
  * This recreates the original scene and adds the new diagrams/illustrations/highlights
@@ -145,7 +310,7 @@ export const generateSceneWithOverlay = async (
   logger.api.request('generateSceneWithOverlay', { promptLength: promptText.length, aspectRatio });
   if (onProgress) onProgress("Step 1: Recreating scene with overlay graphics...");
 
-  const response = await ai.models.generateContent({
+  const request: GenerateContentParameters = {
     model: GENERATION_MODEL,
     contents: {
       parts: [
@@ -170,23 +335,9 @@ IMPORTANT: The output must clearly show "${promptText}" as a distinct overlay el
         aspectRatio: aspectRatio as any
       }
     }
-  });
-
-  let imageUrl = "";
-  if (response.candidates && response.candidates[0].content.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        const base64Data = part.inlineData.data;
-        imageUrl = `data:${part.inlineData.mimeType};base64,${base64Data}`;
-        break;
-      }
-    }
-  }
+  };
 
-  if (!imageUrl) {
-    logger.api.error('generateSceneWithOverlay', 'No image returned');
-    throw new Error("Scene recreation failed: No image returned.");
-  }
+  const imageUrl = await requestImage(ai, request, 'generateSceneWithOverlay', "Scene recreation failed: No image returned.");
 
   logger.imageGen.step1Complete(segmentId || 'unknown');
   logger.api.response('generateSceneWithOverlay', 'success');
@@ -213,7 +364,7 @@ export const generateGreenScreenBackground = async (
   logger.api.request('generateGreenScreenBackground', { aspectRatio, promptLength: promptText.length });
   if (onProgress) onProgress("Step 2: Generating green screen background...");
 
-  const response = await ai.models.generateContent({
+  const request: GenerateContentParameters = {
     model: GENERATION_MODEL,
     contents: {
       parts: [
@@ -244,23 +395,9 @@ export const generateGreenScreenBackground = async (
         aspectRatio: aspectRatio as any
       }
     }
-  });
-
-  let imageUrl = "";
-  if (response.candidates && response.candidates[0].content.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        const base64Data = part.inlineData.data;
-        imageUrl = `data:${part.inlineData.mimeType};base64,${base64Data}`;
-        break;
-      }
-    }
-  }
+  };
 
-  if (!imageUrl) {
-    logger.api.error('generateGreenScreenBackground', 'No image returned');
-    throw new Error("Green screen generation failed: No image returned.");
-  }
+  const imageUrl = await requestImage(ai, request, 'generateGreenScreenBackground', "Green screen generation failed: No image returned.");
 
   logger.imageGen.step2Complete(segmentId || 'unknown');
   logger.api.response('generateGreenScreenBackground', 'success');
@@ -268,17 +405,6 @@ export const generateGreenScreenBackground = async (
   return imageUrl;
 };
 
-// Result type for the two-step image generation
-export interface ImageGenerationResult {
-  finalImageUrl: string; // The green screen result
-  intermediateImageUrl: string; // The scene with overlay (Step 1 result)
-}
-
-// Progress callback with step info
-export interface ImageGenerationProgressCallback {
-  (step: 1 | 2, message: string, intermediateImageUrl?: string): void;
-}
-
 /**
  * Main function: Two-step image generation process
  * Step 1: Recreate scene with overlay graphics in correct positions
@@ -333,14 +459,82 @@ export const generateImageAsset = async (
   };
 };
 
+/**
+ * Poll a Veo operation until it finishes, then download its clips and return their object URLs.
+ * `startedAt` is when the operation was created, so a resumed wait still honours maxWaitMs.
+ */
+const waitForVeoVideo = async (
+  initialOperation: GenerateVideosOperation,
+  startedAt: number,
+  options: AnimationOptions,
+  segmentId?: string
+): Promise<string[]> => {
+  const ai = getAI();
+  const { signal, maxWaitMs = VEO_MAX_WAIT_MS } = options;
+
+  let operation = initialOperation;
+  let pollAttempt = 0;
+  while (!operation.done) {
+    if (Date.now() - startedAt > maxWaitMs) {
+      logger.videoGen.error(segmentId || 'unknown', 'Timed out waiting for Veo');
+      throw new TimeoutError(`Video generation did not finish within ${Math.round(maxWaitMs / 60000)} minutes.`);
+    }
+    pollAttempt++;
+    logger.videoGen.polling(segmentId || 'unknown', pollAttempt);
+    await sleep(VEO_POLL_INTERVAL_MS, signal);
+    const current = operation;
+    operation = await withRetry(() => ai.operations.getVideosOperation({ operation: current }), { label: 'getVideosOperation', signal });
+  }
+
+  if (operation.error) {
+    logger.videoGen.error(segmentId || 'unknown', operation.error);
+    throw classifyApiError({ ...operation.error, message: String(operation.error.message || 'Video generation failed') });
+  }
+
+  const videoUris = (operation.response?.generatedVideos || [])
+    .map(generated => generated.video?.uri)
+    .filter((uri): uri is string => !!uri);
+  if (videoUris.length === 0) {
+    logger.videoGen.error(segmentId || 'unknown', 'No video URI returned');
+    const filteredReasons = operation.response?.raiMediaFilteredReasons;
+    if (operation.response?.raiMediaFilteredCount || filteredReasons?.length) {
+      throw new SafetyBlockedError(`Video generation was blocked by safety filters${filteredReasons?.length ? `: ${filteredReasons.join(' ')}` : '.'}`);
+    }
+    throw new MalformedResponseError("Video generation failed: No video returned.");
+  }
+
+  // Fetch the actual video bytes using the API key
+  const fetchVideo = (videoUri: string) => withRetry(async () => {
+    logger.api.request('fetchVideo', { videoUri: videoUri.substring(0, 50) + '...' });
+    const response = await fetch(`${videoUri}&key=${process.env.API_KEY}`, { signal });
+    if (!response.ok) {
+      logger.videoGen.error(segmentId || 'unknown', `Failed to download: ${response.status}`);
+      const message = `Failed to download generated video (HTTP ${response.status})`;
+      if (response.status === 429) throw new RateLimitError(message);
+      if (response.status >= 500) throw new NetworkError(message);
+      throw new GenerationError('unknown', message, false);
+    }
+    return response.blob();
+  }, { label: 'fetchVideo', signal });
+  const blobs = await Promise.all(videoUris.map(fetchVideo));
+  const objectUrls = blobs.map(blob => URL.createObjectURL(blob));
+
+  objectUrls.forEach(objectUrl => logger.videoGen.success(segmentId || 'unknown', objectUrl));
+  logger.api.response('generateVideos', `success (${objectUrls.length} clips)`);
+
+  return objectUrls;
+};
+
 export const generateVeoAnimation = async (
   promptText: string,
   imageBase64Data: string, // Pure base64 data without prefix
   mimeType: string,
   inputAspectRatio: string,
-  segmentId?: string
-): Promise<string> => {
+  segmentId?: string,
+  options: AnimationOptions = {}
+): Promise<string[]> => {
   const ai = getAI();
+  const numberOfVideos = Math.max(1, Math.min(MAX_GENERATION_VARIANTS, options.numberOfVideos ?? 1));
 
   logger.videoGen.start(segmentId || 'unknown', promptText);
 
@@ -352,8 +546,8 @@ export const generateVeoAnimation = async (
   }
 
   const config = {
-    model: 'veo-3.0-generate-001',
-    numberOfVideos: 1,
+    model: VIDEO_MODEL,
+    numberOfVideos,
     resolution: '720p',
     aspectRatio: veoAspectRatio,
     inputAspectRatio,
@@ -364,48 +558,63 @@ export const generateVeoAnimation = async (
   const fullPrompt = `${promptText}. Keep the background solid green (#00FF00) for chroma keying. Do NOT change the camera angle.`;
   logger.api.request('generateVideos', { prompt: fullPrompt, config });
 
-  let operation = await ai.models.generateVideos({
-    model: 'veo-3.0-generate-001',
-    prompt: fullPrompt,
-    image: {
-      imageBytes: imageBase64Data,
-      mimeType: mimeType
-    },
-    config: {
-      numberOfVideos: 1,
-      resolution: '720p',
-      aspectRatio: veoAspectRatio as any
-    }
-  });
-
-  let pollAttempt = 0;
-  while (!operation.done) {
-    pollAttempt++;
-    logger.videoGen.polling(segmentId || 'unknown', pollAttempt);
-    await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-    operation = await ai.operations.getVideosOperation({ operation: operation });
-  }
-
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) {
-    logger.videoGen.error(segmentId || 'unknown', 'No video URI returned');
-    throw new Error("Video generation failed");
+  if (options.signal?.aborted) throw createAbortError('Video generation cancelled');
+  const startedAt = Date.now();
+  // Not retried: a start that failed after Veo accepted it would otherwise run (and bill) twice.
+  // A failed segment can be retried from the UI instead.
+  let operation: GenerateVideosOperation;
+  try {
+    operation = await ai.models.generateVideos({
+      model: VIDEO_MODEL,
+      prompt: fullPrompt,
+      image: {
+        imageBytes: imageBase64Data,
+        mimeType: mimeType
+      },
+      config: {
+        numberOfVideos,
+        resolution: '720p',
+        aspectRatio: veoAspectRatio as any
+      }
+    });
+  } catch (err) {
+    throw classifyApiError(err);
   }
 
-  logger.api.request('fetchVideo', { videoUri: videoUri.substring(0, 50) + '...' });
-
-  // Fetch the actual video bytes using the API key
-  const response = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
-  if (!response.ok) {
-    logger.videoGen.error(segmentId || 'unknown', `Failed to download: ${response.status}`);
-    throw new Error("Failed to download generated video");
-  }
+  if (operation.name) options.onOperationStarted?.(operation.name);
 
-  const blob = await response.blob();
-  const objectUrl = URL.createObjectURL(blob);
+  return waitForVeoVideo(operation, startedAt, options, segmentId);
+};
 
-  logger.videoGen.success(segmentId || 'unknown', objectUrl);
-  logger.api.response('generateVideos', 'success');
+/**
+ * Pick up a Veo operation started in an earlier session (see Segment.pendingVideoOperation)
+ * and collect its clip once it finishes.
+ */
+export const resumeVeoAnimation = async (
+  operationName: string,
+  startedAt: number,
+  segmentId?: string,
+  options: Omit<AnimationOptions, 'onOperationStarted' | 'numberOfVideos'> = {}
+): Promise<string[]> => {
+  logger.videoGen.resumed(segmentId || 'unknown', operationName);
+  const operation = new GenerateVideosOperation();
+  operation.name = operationName;
+  return waitForVeoVideo(operation, startedAt, options, segmentId);
+};
 
-  return objectUrl;
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  description: 'Google Gemini for analysis and images, Veo for animation',
+  requiresApiKey: true,
+  models: {
+    analysis: ANALYSIS_MODEL,
+    image: GENERATION_MODEL,
+    video: VIDEO_MODEL
+  },
+  uploadVideo: uploadVideoFile,
+  analyzeVideo: analyzeVideoContent,
+  generateImage: generateImageAsset,
+  animate: generateVeoAnimation,
+  resumeAnimation: resumeVeoAnimation
 };
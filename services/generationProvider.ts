@@ -0,0 +1,100 @@
+import { AnalysisResult, AnalysisSettings, TimeRange } from "../types";
+
+// Contract every generation backend implements. The app only talks to the active provider
+// (see providerRegistry.ts), never to a specific SDK.
+
+// Result type for the two-step image generation
+export interface ImageGenerationResult {
+  finalImageUrl: string; // The green screen result
+  intermediateImageUrl: string; // The scene with overlay (Step 1 result)
+}
+
+// Progress callback with step info
+export interface ImageGenerationProgressCallback {
+  (step: 1 | 2, message: string, intermediateImageUrl?: string): void;
+}
+
+export interface AnimationOptions {
+  signal?: AbortSignal;
+  // Give up once the animation has been running this long
+  maxWaitMs?: number;
+  // Called with the long-running operation name as soon as the backend accepts the request,
+  // so the caller can persist it and resume after a reload
+  onOperationStarted?: (operationName: string) => void;
+  // Candidate clips to generate from the one request (default 1, see MAX_GENERATION_VARIANTS)
+  numberOfVideos?: number;
+}
+
+// A video stored on the provider's side (see uploadVideo), referenced by analysis instead of sent inline
+export interface UploadedVideo {
+  uri: string;
+  mimeType: string;
+  expiresAt?: number; // Epoch ms after which the provider deletes the file
+}
+
+// Analysis input: small videos inline as base64, larger ones uploaded first
+export type AnalysisVideo = { base64: string; mimeType: string } | UploadedVideo;
+
+export interface VideoUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+  // Called once the bytes are sent, while the provider prepares the file for analysis
+  onProcessing?: () => void;
+}
+
+export interface AnalysisOptions {
+  // Only analyze this part of the video; returned timestamps are still seconds from the video start
+  range?: TimeRange;
+  // Extra guidance from the user, added to the analysis prompt
+  instructions?: string;
+  // Segment count, overlay style, language and style guide (defaults to DEFAULT_ANALYSIS_SETTINGS)
+  settings?: AnalysisSettings;
+}
+
+export interface GenerationProvider {
+  id: string;
+  name: string;
+  description: string;
+  // Whether calls need a user-supplied API key (see checkApiKey/promptApiKey)
+  requiresApiKey: boolean;
+  // Model identifiers, also used as generation queue concurrency keys
+  models: {
+    analysis: string;
+    image: string;
+    video: string;
+  };
+
+  // Uploads in resumable chunks, so long videos never have to sit in memory as base64
+  uploadVideo: (file: File, options?: VideoUploadOptions) => Promise<UploadedVideo>;
+
+  analyzeVideo: (video: AnalysisVideo, options?: AnalysisOptions) => Promise<AnalysisResult>;
+
+  // Returns a green-screen overlay image (data URL) for the frame in `imageBase64`.
+  // Variants are separate calls; `variantIndex` lets deterministic backends vary the result.
+  generateImage: (
+    promptText: string,
+    imageBase64: string,
+    aspectRatio: string,
+    onProgress?: ImageGenerationProgressCallback,
+    segmentId?: string,
+    variantIndex?: number
+  ) => Promise<ImageGenerationResult>;
+
+  // Returns object URLs for clips animating the given image, one per requested variant
+  animate: (
+    promptText: string,
+    imageBase64Data: string,
+    mimeType: string,
+    aspectRatio: string,
+    segmentId?: string,
+    options?: AnimationOptions
+  ) => Promise<string[]>;
+
+  // Only for backends whose animations outlive the page (reported via onOperationStarted)
+  resumeAnimation?: (
+    operationName: string,
+    startedAt: number,
+    segmentId?: string,
+    options?: Omit<AnimationOptions, 'onOperationStarted' | 'numberOfVideos'>
+  ) => Promise<string[]>;
+}
@@ -0,0 +1,214 @@
+import { DEFAULT_MODEL_CONCURRENCY } from '../constants';
+import { logger } from '../utils/logger';
+
+// Central queue for Gemini image and Veo calls. Every generation goes through here so the
+// number of requests in flight per model stays bounded no matter how many buttons get clicked.
+
+const CONCURRENCY_STORAGE_KEY = 'gemini-animator-queue-concurrency';
+const MAX_FINISHED_JOBS = 20;
+
+export type GenerationJobKind = 'image' | 'video';
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+// Higher runs first; jobs with equal priority run in the order they were queued
+export const JOB_PRIORITY = {
+  BATCH: 0,
+  USER: 10
+} as const;
+
+export interface GenerationJob {
+  id: string;
+  kind: GenerationJobKind;
+  model: string;
+  label: string;
+  segmentId?: string;
+  priority: number;
+  status: GenerationJobStatus;
+  enqueuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+export interface EnqueueOptions<T> {
+  kind: GenerationJobKind;
+  model: string;
+  label: string;
+  segmentId?: string;
+  priority?: number;
+  run: () => Promise<T>;
+}
+
+export interface GenerationQueueSnapshot {
+  jobs: GenerationJob[];
+  concurrency: Record<string, number>;
+}
+
+type QueueListener = (snapshot: GenerationQueueSnapshot) => void;
+
+interface PendingJob {
+  job: GenerationJob;
+  run: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+}
+
+const loadConcurrency = (): Record<string, number> => {
+  try {
+    const stored = localStorage.getItem(CONCURRENCY_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_MODEL_CONCURRENCY, ...JSON.parse(stored) };
+  } catch (err) {
+    console.error('[Queue] Failed to read concurrency settings:', err);
+  }
+  return { ...DEFAULT_MODEL_CONCURRENCY };
+};
+
+class GenerationQueue {
+  private pending: PendingJob[] = [];
+  private jobs: GenerationJob[] = [];
+  private concurrency: Record<string, number> = loadConcurrency();
+  private listeners = new Set<QueueListener>();
+
+  /**
+   * Queue a generation call. Resolves with the call's result once it has run, or rejects
+   * with an AbortError if the job is cancelled while still waiting.
+   */
+  enqueue<T>(options: EnqueueOptions<T>): Promise<T> {
+    const job: GenerationJob = {
+      id: crypto.randomUUID(),
+      kind: options.kind,
+      model: options.model,
+      label: options.label,
+      segmentId: options.segmentId,
+      priority: options.priority ?? JOB_PRIORITY.USER,
+      status: 'queued',
+      enqueuedAt: Date.now()
+    };
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({ job, run: options.run, resolve, reject });
+      this.jobs.push(job);
+      logger.queue.enqueued(job.id, job.kind, job.label);
+      this.pump();
+    });
+  }
+
+  /**
+   * Remove a job that has not started yet. Running jobs cannot be cancelled from here.
+   */
+  cancel(jobId: string): boolean {
+    const index = this.pending.findIndex(p => p.job.id === jobId);
+    if (index === -1) return false;
+
+    const [entry] = this.pending.splice(index, 1);
+    this.finish(entry.job, 'cancelled');
+    logger.queue.cancelled(jobId);
+    entry.reject(new DOMException('Generation job cancelled', 'AbortError'));
+    this.notify();
+    return true;
+  }
+
+  cancelSegment(segmentId: string): void {
+    this.pending.filter(p => p.job.segmentId === segmentId).forEach(p => this.cancel(p.job.id));
+  }
+
+  cancelAll(): void {
+    [...this.pending].forEach(p => this.cancel(p.job.id));
+  }
+
+  getConcurrency(model: string): number {
+    return this.concurrency[model] ?? 1;
+  }
+
+  setConcurrency(model: string, limit: number): void {
+    this.concurrency = { ...this.concurrency, [model]: Math.max(1, Math.round(limit)) };
+    try {
+      localStorage.setItem(CONCURRENCY_STORAGE_KEY, JSON.stringify(this.concurrency));
+    } catch (err) {
+      console.error('[Queue] Failed to save concurrency settings:', err);
+    }
+    this.pump();
+    this.notify();
+  }
+
+  clearFinished(): void {
+    this.jobs = this.jobs.filter(j => j.status === 'queued' || j.status === 'running');
+    this.notify();
+  }
+
+  getSnapshot(): GenerationQueueSnapshot {
+    return { jobs: [...this.jobs], concurrency: { ...this.concurrency } };
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private runningCount(model: string): number {
+    return this.jobs.filter(j => j.model === model && j.status === 'running').length;
+  }
+
+  // Start every waiting job whose model still has a free slot, highest priority first
+  private pump(): void {
+    const ordered = [...this.pending].sort((a, b) =>
+      b.job.priority - a.job.priority || a.job.enqueuedAt - b.job.enqueuedAt
+    );
+
+    for (const entry of ordered) {
+      if (this.runningCount(entry.job.model) >= this.getConcurrency(entry.job.model)) continue;
+      this.pending = this.pending.filter(p => p !== entry);
+      this.start(entry);
+    }
+    this.notify();
+  }
+
+  private start(entry: PendingJob): void {
+    const { job } = entry;
+    job.status = 'running';
+    job.startedAt = Date.now();
+    logger.queue.started(job.id, job.model);
+
+    entry.run().then(
+      (result) => {
+        this.finish(job, 'done');
+        entry.resolve(result);
+      },
+      (err: any) => {
+        if (err?.name === 'AbortError') {
+          this.finish(job, 'cancelled');
+        } else {
+          this.finish(job, 'error', err?.message || String(err));
+        }
+        entry.reject(err);
+      }
+    ).finally(() => this.pump());
+  }
+
+  private finish(job: GenerationJob, status: GenerationJobStatus, error?: string): void {
+    job.status = status;
+    job.finishedAt = Date.now();
+    job.error = error;
+    if (status === 'done' || status === 'error') {
+      logger.queue.finished(job.id, status, Date.now() - (job.startedAt ?? job.enqueuedAt));
+    }
+
+    // Keep only the most recent finished jobs for the queue panel
+    const finished = this.jobs.filter(j => j.status !== 'queued' && j.status !== 'running');
+    if (finished.length > MAX_FINISHED_JOBS) {
+      const stale = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS));
+      this.jobs = this.jobs.filter(j => !stale.has(j));
+    }
+  }
+
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+// Shared instance used by every generation call in the app
+export const generationQueue = new GenerationQueue();
@@ -0,0 +1,70 @@
+// IndexedDB-backed storage for large project media (source video, generated images, Veo clips).
+// localStorage caps out at a few MB, which a single data-URL image can exceed.
+
+const DB_NAME = 'gemini-animator-media';
+const DB_VERSION = 1;
+const STORE_NAME = 'media';
+
+export type MediaValue = Blob | string;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Range covering every key that starts with the given prefix
+const prefixRange = (prefix: string) => IDBKeyRange.bound(prefix, prefix + '\uffff');
+
+export const putMedia = async (key: string, value: MediaValue): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(value, key));
+};
+
+export const getMedia = async (key: string): Promise<MediaValue | null> => {
+  const value = await runTransaction<MediaValue | undefined>('readonly', store => store.get(key));
+  return value ?? null;
+};
+
+export const deleteMedia = async (key: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(key));
+};
+
+export const deleteMediaWithPrefix = async (prefix: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(prefixRange(prefix)));
+};
+
+export const listMediaKeys = async (prefix: string): Promise<string[]> => {
+  const keys = await runTransaction('readonly', store => store.getAllKeys(prefixRange(prefix)));
+  return keys.map(String);
+};
@@ -0,0 +1,435 @@
+import { AnalysisResult, Segment, TranscriptCue, DEFAULT_ANALYSIS_SETTINGS } from "../types";
+import { getVideoDuration } from "../utils/videoUtils";
+import { UPLOAD_CHUNK_BYTES } from "../constants";
+import { getTargetSegmentCount } from "../utils/analysisPrompts";
+import { placeAnalysisOnTimeline } from "../utils/segments";
+import { sleep, createAbortError } from "../utils/async";
+import { getSupportedRecorderMimeType, loadImage } from "../utils/timelineRenderer";
+import { logger } from "../utils/logger";
+import { GenerationError } from "./apiErrors";
+import { AnalysisOptions, AnalysisVideo, UploadedVideo, VideoUploadOptions, AnimationOptions, GenerationProvider, ImageGenerationProgressCallback, ImageGenerationResult } from "./generationProvider";
+
+// Offline provider for developing and demoing the UI without network access or API spend.
+// Everything is derived from a hash of the inputs, so the same video and prompts always
+// produce the same segments, images and clips.
+
+const MOCK_STEP_DELAY_MS = 600;
+const MOCK_CUE_SECONDS = 4;
+const MOCK_CLIP_SECONDS = 3;
+const MOCK_CLIP_FPS = 30;
+const CHROMA_GREEN = '#00FF00';
+
+type MockShape = 'bars' | 'ring' | 'star' | 'arrow';
+
+const MOCK_TOPICS: Array<Pick<Segment, 'topic' | 'description' | 'prompt' | 'animationPrompt'>> = [
+  {
+    topic: 'Introduction',
+    description: 'The speaker introduces the subject of the video.',
+    prompt: 'A floating 3D title card reading "WELCOME"',
+    animationPrompt: 'Title card gently bobbing up and down'
+  },
+  {
+    topic: 'Key Statistics',
+    description: 'Numbers are discussed to support the main point.',
+    prompt: 'A 3D bar chart showing steady growth',
+    animationPrompt: 'Bars rising up one after another'
+  },
+  {
+    topic: 'Core Concept',
+    description: 'The central idea is explained in detail.',
+    prompt: 'A glowing ring diagram highlighting the core idea',
+    animationPrompt: 'Ring slowly pulsing and rotating'
+  },
+  {
+    topic: 'Highlight',
+    description: 'An important takeaway is emphasised.',
+    prompt: 'A golden star badge with sparkles',
+    animationPrompt: 'Star spinning slowly with a shimmer'
+  },
+  {
+    topic: 'Next Steps',
+    description: 'The speaker points the viewer to what comes next.',
+    prompt: 'A bold 3D arrow pointing forward',
+    animationPrompt: 'Arrow nudging forward repeatedly'
+  },
+  {
+    topic: 'Summary',
+    description: 'The main points are recapped.',
+    prompt: 'A 3D checklist with three ticked items',
+    animationPrompt: 'Checkmarks popping in one by one'
+  }
+];
+
+const ASPECT_SIZES: Record<string, [number, number]> = {
+  '16:9': [1280, 720],
+  '9:16': [720, 1280],
+  '1:1': [1024, 1024],
+  '4:3': [1024, 768],
+  '3:4': [768, 1024]
+};
+
+// FNV-1a
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small seeded PRNG returning floats in [0, 1)
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const shapeForPrompt = (prompt: string): MockShape => {
+  const lower = prompt.toLowerCase();
+  if (lower.includes('chart') || lower.includes('bar') || lower.includes('checklist')) return 'bars';
+  if (lower.includes('ring') || lower.includes('circle') || lower.includes('diagram')) return 'ring';
+  if (lower.includes('star') || lower.includes('badge') || lower.includes('trophy')) return 'star';
+  if (lower.includes('arrow')) return 'arrow';
+  return (['bars', 'ring', 'star', 'arrow'] as MockShape[])[hashString(prompt) % 4];
+};
+
+// Any hue except green, so the chroma key never eats the graphic
+const colorForPrompt = (prompt: string): string => {
+  const random = createRandom(hashString(prompt));
+  const hues = [0, 30, 45, 200, 220, 260, 290, 320];
+  return `hsl(${hues[Math.floor(random() * hues.length)]}, 85%, 58%)`;
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+const drawStar = (ctx: CanvasRenderingContext2D, cx: number, cy: number, outer: number, inner: number) => {
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const radius = i % 2 === 0 ? outer : inner;
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    ctx.lineTo(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+  }
+  ctx.closePath();
+  ctx.fill();
+};
+
+/**
+ * Draw the mock overlay graphic (a shape plus a caption) centred in the right half of the frame.
+ * Variants after the first get their own colour and a slightly different placement.
+ */
+const drawGraphic = (ctx: CanvasRenderingContext2D, width: number, height: number, prompt: string, variantIndex = 0) => {
+  const random = createRandom(hashString(`${prompt}#${variantIndex}`));
+  const size = Math.min(width, height) * (variantIndex ? 0.3 + random() * 0.1 : 0.35);
+  const cx = width * (variantIndex ? 0.6 + random() * 0.15 : 0.68);
+  const cy = height * (variantIndex ? 0.38 + random() * 0.14 : 0.45);
+  const color = colorForPrompt(variantIndex ? `${prompt}#${variantIndex}` : prompt);
+
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+  ctx.shadowBlur = size * 0.08;
+
+  switch (shapeForPrompt(prompt)) {
+    case 'bars': {
+      const barWidth = size / 5;
+      [0.35, 0.55, 0.75, 1].forEach((h, i) => {
+        const barHeight = size * h;
+        ctx.fillRect(cx - size / 2 + i * barWidth * 1.3, cy + size / 2 - barHeight, barWidth, barHeight);
+      });
+      break;
+    }
+    case 'ring':
+      ctx.lineWidth = size * 0.14;
+      ctx.beginPath();
+      ctx.arc(cx, cy, size / 2, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(cx, cy, size * 0.16, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    case 'star':
+      drawStar(ctx, cx, cy, size / 2, size / 4.5);
+      break;
+    case 'arrow':
+      ctx.beginPath();
+      ctx.moveTo(cx - size / 2, cy - size * 0.12);
+      ctx.lineTo(cx + size * 0.1, cy - size * 0.12);
+      ctx.lineTo(cx + size * 0.1, cy - size * 0.3);
+      ctx.lineTo(cx + size / 2, cy);
+      ctx.lineTo(cx + size * 0.1, cy + size * 0.3);
+      ctx.lineTo(cx + size * 0.1, cy + size * 0.12);
+      ctx.lineTo(cx - size / 2, cy + size * 0.12);
+      ctx.closePath();
+      ctx.fill();
+      break;
+  }
+
+  // Caption from the first few words of the prompt
+  const caption = prompt.replace(/["']/g, '').split(/\s+/).slice(0, 4).join(' ').toUpperCase();
+  ctx.shadowBlur = 0;
+  ctx.font = `bold ${Math.round(size * 0.13)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.lineWidth = size * 0.025;
+  ctx.strokeStyle = '#111111';
+  ctx.fillStyle = '#FFFFFF';
+  ctx.strokeText(caption, cx, cy + size * 0.62, width * 0.6);
+  ctx.fillText(caption, cx, cy + size * 0.62, width * 0.6);
+  ctx.restore();
+};
+
+// Stand-in for the Files API: "uploaded" videos stay in memory for this session
+const MOCK_FILE_PREFIX = 'mock-file://';
+const mockFiles = new Map<string, File>();
+
+const uploadMockVideo = async (file: File, options: VideoUploadOptions = {}): Promise<UploadedVideo> => {
+  const { signal, onProgress, onProcessing } = options;
+  logger.api.request('mock.uploadVideo', { fileName: file.name, size: file.size });
+  // Read the file chunk by chunk like a real upload would, so progress reporting can be exercised
+  for (let offset = 0; offset < file.size; offset += UPLOAD_CHUNK_BYTES) {
+    if (signal?.aborted) throw createAbortError();
+    const end = Math.min(offset + UPLOAD_CHUNK_BYTES, file.size);
+    await file.slice(offset, end).arrayBuffer();
+    await sleep(MOCK_STEP_DELAY_MS / 10, signal);
+    onProgress?.(end, file.size);
+  }
+  onProcessing?.();
+  await sleep(MOCK_STEP_DELAY_MS, signal);
+
+  const uri = `${MOCK_FILE_PREFIX}${crypto.randomUUID()}`;
+  mockFiles.set(uri, file);
+  logger.api.response('mock.uploadVideo', uri);
+  return { uri, mimeType: file.type };
+};
+
+// Placeholder speech: each topic's description, one line every MOCK_CUE_SECONDS with evenly spaced words
+const createMockTranscript = (start: number, end: number, random: () => number): TranscriptCue[] => {
+  const cues: TranscriptCue[] = [];
+  for (let time = start; time + 1 <= end; time += MOCK_CUE_SECONDS) {
+    const text = MOCK_TOPICS[Math.floor(random() * MOCK_TOPICS.length)].description;
+    const cueEnd = Math.min(end, time + MOCK_CUE_SECONDS - 0.5);
+    const texts = text.split(' ');
+    const step = (cueEnd - time) / texts.length;
+    cues.push({
+      start: time,
+      end: cueEnd,
+      text,
+      words: texts.map((word, i) => ({ text: word, start: time + i * step, end: time + (i + 1) * step }))
+    });
+  }
+  return cues;
+};
+
+const analyzeMockVideo = async (video: AnalysisVideo, options: AnalysisOptions = {}): Promise<AnalysisResult> => {
+  let blob: Blob;
+  let seed: string;
+  if ('uri' in video) {
+    const file = mockFiles.get(video.uri);
+    if (!file) throw new GenerationError('unknown', 'Uploaded video not found. Upload it again.', false);
+    logger.api.request('mock.analyzeVideo', { fileUri: video.uri, range: options.range });
+    blob = file;
+    seed = `${file.name}${file.size}`;
+  } else {
+    logger.api.request('mock.analyzeVideo', { mimeType: video.mimeType, videoBase64Length: video.base64.length, range: options.range });
+    blob = new Blob([Uint8Array.from(atob(video.base64), c => c.charCodeAt(0))], { type: video.mimeType });
+    seed = video.base64.slice(0, 4096) + video.base64.length;
+  }
+  // Unreadable files are treated as 30 seconds long so the mock still has a timeline to fill
+  const duration = (await getVideoDuration(blob)) || 30;
+  await sleep(MOCK_STEP_DELAY_MS * 2);
+
+  const start = options.range ? Math.max(0, options.range.start) : 0;
+  const end = options.range ? Math.min(duration, options.range.end) : duration;
+  const span = Math.max(0, end - start);
+
+  // Seeded by the range and instructions too, so re-analyzing a range gives different topics
+  const random = createRandom(hashString(seed + `${start}-${end}${options.instructions || ''}`));
+  const target = getTargetSegmentCount(options.settings || DEFAULT_ANALYSIS_SETTINGS, span);
+  const maxCount = target ?? (options.range ? 1 + Math.floor(random() * 3) : 3 + Math.floor(random() * 3));
+  const count = Math.max(1, Math.min(maxCount, Math.floor(span / 3)));
+  // Topics repeat once a long video asks for more segments than there are
+  const shuffled = [...MOCK_TOPICS].sort(() => random() - 0.5);
+  const topics = Array.from({ length: count }, (_, i) => shuffled[i % shuffled.length]);
+
+  // Ranges are timed from their own start, a slip the real model makes, so placing results back
+  // on the video timeline is exercised without a model (chunked analysis windows after the first
+  // start past 0 and get times larger than their start)
+  const segments: Segment[] = topics.map((topic, i) => ({
+    ...topic,
+    id: `mock-${i + 1}`,
+    timestamp: Math.round((span * (i + 0.5)) / count * 10) / 10,
+    // Filled in once placed on the timeline
+    formattedTime: '',
+    status: 'idle',
+    duration: 0
+  }));
+
+  logger.api.response('mock.analyzeVideo', `${segments.length} segments`);
+  return placeAnalysisOnTimeline({
+    visualSummary: `Mock analysis of a ${Math.round(duration)}s video. No model was called.`,
+    audioSummary: 'Synthetic segments generated locally by the mock provider.',
+    segments,
+    transcript: createMockTranscript(0, span, random)
+  }, options.range);
+};
+
+const generateMockImage = async (
+  promptText: string,
+  imageBase64: string,
+  aspectRatio: string,
+  onProgress?: ImageGenerationProgressCallback,
+  segmentId?: string,
+  variantIndex = 0
+): Promise<ImageGenerationResult> => {
+  logger.imageGen.start(segmentId || 'unknown', promptText);
+  const [width, height] = ASPECT_SIZES[aspectRatio] || ASPECT_SIZES['16:9'];
+
+  // Step 1: the original frame with the graphic drawn over it
+  if (onProgress) onProgress(1, "Step 1/2: Recreating scene with overlay graphics...");
+  await sleep(MOCK_STEP_DELAY_MS);
+  const frame = await loadImage(`data:image/png;base64,${imageBase64}`);
+  const scene = createCanvas(width, height);
+  scene.ctx.drawImage(frame, 0, 0, width, height);
+  drawGraphic(scene.ctx, width, height, promptText, variantIndex);
+  const intermediateImageUrl = scene.canvas.toDataURL('image/png');
+  if (onProgress) onProgress(1, "Step 1/2: Complete! Scene with overlay generated.", intermediateImageUrl);
+
+  // Step 2: the same graphic alone on chroma green
+  if (onProgress) onProgress(2, "Step 2/2: Generating green screen background...", intermediateImageUrl);
+  await sleep(MOCK_STEP_DELAY_MS);
+  const keyed = createCanvas(width, height);
+  keyed.ctx.fillStyle = CHROMA_GREEN;
+  keyed.ctx.fillRect(0, 0, width, height);
+  drawGraphic(keyed.ctx, width, height, promptText, variantIndex);
+  const finalImageUrl = keyed.canvas.toDataURL('image/png');
+  if (onProgress) onProgress(2, "Step 2/2: Complete! Green screen applied.", intermediateImageUrl);
+
+  logger.imageGen.success(segmentId || 'unknown', finalImageUrl.length);
+  return { finalImageUrl, intermediateImageUrl };
+};
+
+/**
+ * Record a short clip of the image bobbing, pulsing and turning on a green background.
+ */
+const recordMockClip = async (
+  image: HTMLImageElement,
+  seed: string,
+  recorderMimeType: string,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const scale = Math.min(1, 1280 / image.naturalWidth);
+  const { canvas, ctx } = createCanvas(Math.round(image.naturalWidth * scale), Math.round(image.naturalHeight * scale));
+  const random = createRandom(hashString(seed));
+  const phase = random() * Math.PI * 2;
+  const spin = random() > 0.5 ? 1 : -1;
+
+  const drawFrame = (t: number) => {
+    const progress = t / MOCK_CLIP_SECONDS;
+    ctx.fillStyle = CHROMA_GREEN;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.save();
+    ctx.translate(canvas.width / 2, canvas.height / 2 + Math.sin(progress * Math.PI * 2 + phase) * canvas.height * 0.03);
+    ctx.rotate(spin * Math.sin(progress * Math.PI * 2) * 0.05);
+    const pulse = 1 + Math.sin(progress * Math.PI * 4 + phase) * 0.04;
+    ctx.scale(pulse, pulse);
+    ctx.drawImage(image, -canvas.width / 2, -canvas.height / 2, canvas.width, canvas.height);
+    ctx.restore();
+  };
+
+  const stream = canvas.captureStream(MOCK_CLIP_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType: recorderMimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    let frame = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const onAbort = () => {
+      clearTimeout(timer);
+      recorder.onstop = null;
+      recorder.stop();
+      reject(createAbortError('Video generation cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    recorder.onstop = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(new Blob(chunks, { type: recorderMimeType }));
+    };
+
+    // Timers rather than requestAnimationFrame so recording continues in background tabs
+    const tick = () => {
+      drawFrame(frame / MOCK_CLIP_FPS);
+      frame++;
+      if (frame > MOCK_CLIP_SECONDS * MOCK_CLIP_FPS) {
+        recorder.stop();
+        return;
+      }
+      timer = setTimeout(tick, 1000 / MOCK_CLIP_FPS);
+    };
+
+    drawFrame(0);
+    recorder.start();
+    tick();
+  });
+
+  stream.getTracks().forEach(track => track.stop());
+  return blob;
+};
+
+const generateMockAnimation = async (
+  promptText: string,
+  imageBase64Data: string,
+  mimeType: string,
+  _aspectRatio: string,
+  segmentId?: string,
+  options: AnimationOptions = {}
+): Promise<string[]> => {
+  const { signal, numberOfVideos = 1 } = options;
+  logger.videoGen.start(segmentId || 'unknown', promptText);
+
+  const recorderMimeType = getSupportedRecorderMimeType();
+  if (!recorderMimeType) {
+    throw new GenerationError('unknown', 'This browser cannot record video, so the mock provider cannot create clips.', false);
+  }
+  if (signal?.aborted) throw createAbortError('Video generation cancelled');
+
+  const image = await loadImage(`data:${mimeType};base64,${imageBase64Data}`);
+  const objectUrls: string[] = [];
+  // Recorded one after another: each clip records in real time
+  for (let i = 0; i < numberOfVideos; i++) {
+    const blob = await recordMockClip(image, i === 0 ? promptText : `${promptText}#${i}`, recorderMimeType, signal);
+    const objectUrl = URL.createObjectURL(blob);
+    logger.videoGen.success(segmentId || 'unknown', objectUrl);
+    objectUrls.push(objectUrl);
+  }
+  return objectUrls;
+};
+
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  description: 'Deterministic local stand-in: synthetic segments, drawn overlays and generated clips',
+  requiresApiKey: false,
+  models: {
+    analysis: 'mock-analysis',
+    image: 'mock-image',
+    video: 'mock-video'
+  },
+  uploadVideo: uploadMockVideo,
+  analyzeVideo: analyzeMockVideo,
+  generateImage: generateMockImage,
+  animate: generateMockAnimation
+};
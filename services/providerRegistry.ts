@@ -0,0 +1,44 @@
+import { GenerationProvider } from "./generationProvider";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+const PROVIDER_STORAGE_KEY = 'gemini-animator-provider';
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+const providers = new Map<string, GenerationProvider>([
+  [geminiProvider.id, geminiProvider],
+  [mockProvider.id, mockProvider]
+]);
+
+/**
+ * Make another backend selectable. Registering an existing id replaces it.
+ */
+export const registerProvider = (provider: GenerationProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const listProviders = (): GenerationProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: string): GenerationProvider | null => providers.get(id) ?? null;
+
+export const getActiveProviderId = (): string => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (stored && providers.has(stored)) return stored;
+  } catch (err) {
+    console.error('[Provider] Failed to read provider selection:', err);
+  }
+  return DEFAULT_PROVIDER_ID;
+};
+
+export const getActiveProvider = (): GenerationProvider => providers.get(getActiveProviderId()) ?? geminiProvider;
+
+export const setActiveProvider = (id: string): void => {
+  if (!providers.has(id)) throw new Error(`Unknown generation provider: ${id}`);
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    console.log('[Provider] Active provider set to', id);
+  } catch (err) {
+    console.error('[Provider] Failed to save provider selection:', err);
+  }
+};
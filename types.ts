@@ -21,12 +21,60 @@ export interface OverlayTransform {
   x: number; // Horizontal position as percentage (-100 to 100, 0 = center)
   y: number; // Vertical position as percentage (-100 to 100, 0 = center)
   scale: number; // Scale factor (0.1 to 3, 1 = 100%)
+  rotation?: number; // Degrees clockwise (-180 to 180, default 0)
+  opacity?: number; // 0 to 1 (default 1)
 }
 
 export const DEFAULT_OVERLAY_TRANSFORM: OverlayTransform = {
   x: 0,
   y: 0,
-  scale: 1
+  scale: 1,
+  rotation: 0,
+  opacity: 1
+};
+
+// How a keyframe's values ease into the next keyframe
+export type KeyframeEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
+export interface OverlayKeyframe {
+  id: string;
+  time: number; // Seconds from the start of the segment
+  transform: OverlayTransform;
+  easing: KeyframeEasing;
+}
+
+// Overlay track on the timeline. Tracks are stored bottom to top: later tracks draw over earlier ones.
+export interface Track {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean; // Segments on a locked track can't be moved, resized or repositioned
+  solo: boolean; // While any track is soloed, only soloed tracks are shown
+}
+
+export const DEFAULT_TRACK: Track = {
+  id: 'track-1',
+  name: 'Overlay 1',
+  visible: true,
+  locked: false,
+  solo: false
+};
+
+// How an overlay appears at the start of its segment or disappears at the end
+export type TransitionType = 'none' | 'fade' | 'slide' | 'scale' | 'wipe';
+export type TransitionDirection = 'left' | 'right' | 'up' | 'down';
+export type TransitionEdge = 'in' | 'out';
+
+export interface SegmentTransition {
+  type: TransitionType;
+  duration: number; // Seconds
+  direction: TransitionDirection; // Slide: side the overlay enters from / exits to. Wipe: edge the reveal starts from.
+}
+
+export const DEFAULT_SEGMENT_TRANSITION: SegmentTransition = {
+  type: 'none',
+  duration: 0.5,
+  direction: 'left'
 };
 
 // Image generation step progress
@@ -36,6 +84,48 @@ export interface ImageGenerationProgress {
   intermediateImageUrl?: string; // Step 1 result (scene with overlay before green screen)
 }
 
+// Why a generation failed (see services/apiErrors.ts)
+export type GenerationErrorKind = 'rate-limited' | 'safety' | 'quota' | 'network' | 'malformed' | 'timeout' | 'unknown';
+
+// A Veo operation still running server-side, persisted so polling can resume after a reload
+export interface PendingVideoOperation {
+  name: string;
+  startedAt: number; // Epoch ms when Veo accepted the request
+  providerId?: string; // Generation provider that owns the operation (defaults to Gemini)
+}
+
+// One generated result for a segment, kept so a regeneration never loses an earlier result.
+// The segment's imageUrl/videoUrl is the active take.
+export type TakeKind = 'image' | 'video';
+
+export interface GenerationTake {
+  id: string;
+  url: string;
+  prompt: string; // Image prompt or animation prompt that produced it
+  model: string;
+  createdAt: number; // Epoch ms
+  sourceImageTakeId?: string; // Video takes: the image take that was animated
+  variantGroupId?: string; // Shared by the candidates of one multi-variant generation
+}
+
+// Overlays drawn from text instead of generated: big title, name lower third, boxed callout or a counting number
+export type TextOverlayKind = 'title' | 'lower-third' | 'callout' | 'counter';
+// How the text builds in at the start of its segment, on top of any segment transition
+export type TextAnimation = 'none' | 'fade' | 'pop' | 'slide-up' | 'typewriter';
+
+export interface TextOverlay {
+  kind: TextOverlayKind;
+  text: string; // Title, name, callout text, or the counter's label
+  subtitle: string; // Second, smaller line (empty for none)
+  font: TextFont;
+  size: number; // Main line height as a percentage of the frame height
+  textColor: string; // Hex
+  accentColor: string; // Hex: lower-third bar, callout box, title rule, counter number
+  animationIn: TextAnimation;
+  countFrom: number; // Counter only
+  countTo: number;
+}
+
 export interface Segment {
   id: string;
   timestamp: number; // Seconds
@@ -48,16 +138,108 @@ export interface Segment {
   imageUrl?: string;
   videoUrl?: string;
   error?: string;
+  errorKind?: GenerationErrorKind;
   duration: number; // Duration of the segment in seconds (default: 5)
   chromaKey?: ChromaKeySettings; // Per-segment chroma key settings
   generationProgress?: ImageGenerationProgress; // Track image generation step progress
   overlayTransform?: OverlayTransform; // Position and scale of the overlay
+  keyframes?: OverlayKeyframe[]; // Animated transform over the segment; overrides overlayTransform when set
+  transitionIn?: SegmentTransition;
+  transitionOut?: SegmentTransition;
+  pendingVideoOperation?: PendingVideoOperation; // Set while a Veo clip is being generated
+  trackId?: string; // Overlay track the segment sits on (defaults to the bottom track)
+  imageTakes?: GenerationTake[]; // Oldest first
+  videoTakes?: GenerationTake[];
+  textOverlay?: TextOverlay; // Set on text segments, which are drawn rather than generated
+}
+
+// A span of the source video, in seconds
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export type OverlayStyle = '3d' | 'flat-infographic' | 'hand-drawn' | 'lower-third';
+// How many segments analysis should look for: let the model decide, a fixed count, or one per N seconds
+export type SegmentCountMode = 'auto' | 'count' | 'density';
+
+// Project-wide settings for analysis and overlay generation
+export interface AnalysisSettings {
+  countMode: SegmentCountMode;
+  segmentCount: number; // Used when countMode is 'count'
+  secondsPerSegment: number; // Used when countMode is 'density'
+  overlayStyle: OverlayStyle;
+  language: string; // Language for topics and on-screen text; empty matches the video
+  styleGuide: string; // Brand style guide added to the analysis prompt and every image prompt
+}
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  countMode: 'auto',
+  segmentCount: 5,
+  secondsPerSegment: 30,
+  overlayStyle: '3d',
+  language: '',
+  styleGuide: ''
+};
+
+export interface TranscriptWord {
+  text: string;
+  start: number; // Seconds from the start of the video
+  end: number;
+}
+
+// One line of speech: a sentence or short phrase
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+  words?: TranscriptWord[]; // Missing when the model only timed the whole line
+}
+
+// Font families for text drawn on the video (captions and text overlays)
+export type TextFont = 'sans' | 'serif' | 'rounded' | 'mono';
+export type CaptionBackground = 'none' | 'box' | 'outline';
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+export type CaptionPreset = 'classic' | 'social' | 'minimal' | 'broadcast';
+
+// How captions look, in the preview and burned into the rendered video
+export interface CaptionStyle {
+  font: TextFont;
+  size: number; // Text height as a percentage of the frame height
+  color: string; // Hex color of the text
+  background: CaptionBackground; // Box behind each line, or an outline around the letters
+  position: CaptionPosition;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  font: 'sans',
+  size: 5,
+  color: '#FFFFFF',
+  background: 'box',
+  position: 'bottom'
+};
+
+// One caption on screen. Starts out as part of a transcript line and is edited independently of it.
+export interface CaptionCue {
+  id: string;
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+export interface CaptionTrack {
+  cues: CaptionCue[]; // In time order
+  style: CaptionStyle;
+  visible: boolean; // Hidden captions are left out of the preview and the rendered video
 }
 
 export interface AnalysisResult {
   visualSummary: string;
   audioSummary: string;
   segments: Segment[];
+  tracks?: Track[]; // Overlay tracks, bottom to top (defaults to a single track)
+  transcript?: TranscriptCue[]; // In time order; missing for projects analyzed before transcripts existed
+  captions?: CaptionTrack; // Created from the transcript on request
 }
 
 export enum AppState {
@@ -66,6 +248,7 @@ export enum AppState {
   TIMELINE = 'TIMELINE',
   TIMELINE_EDITOR = 'TIMELINE_EDITOR',
   DETAIL_VIEW = 'DETAIL_VIEW',
+  PROJECTS = 'PROJECTS',
   ERROR = 'ERROR'
 }
 
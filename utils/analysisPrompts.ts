@@ -0,0 +1,46 @@
+import { AnalysisSettings } from '../types';
+import { MAX_ANALYSIS_SEGMENTS, OVERLAY_STYLE_PROMPTS } from '../constants';
+
+const clampCount = (count: number) => Math.max(1, Math.min(MAX_ANALYSIS_SEGMENTS, Math.round(count)));
+
+/**
+ * How many segments to ask for, as an instruction for the analysis prompt.
+ * `inRange` words it for re-analyzing part of the video.
+ */
+export const getSegmentCountInstruction = (settings: AnalysisSettings, inRange: boolean): string => {
+  const where = inRange ? 'within it' : 'in the video';
+  switch (settings.countMode) {
+    case 'count':
+      return inRange
+        ? `Identify up to ${clampCount(settings.segmentCount)} key moments/segments ${where}.`
+        : `Identify exactly ${clampCount(settings.segmentCount)} key moments/segments ${where}, spread across its whole length.`;
+    case 'density':
+      return `Identify about one key moment/segment every ${settings.secondsPerSegment} seconds ${where}, spread evenly.`;
+    default:
+      return inRange ? `Identify 1-3 key moments/segments ${where}.` : `Identify 3-5 key moments/segments ${where}.`;
+  }
+};
+
+/**
+ * The segment count the settings ask for over `duration` seconds, or null to leave it to the provider.
+ */
+export const getTargetSegmentCount = (settings: AnalysisSettings, duration: number): number | null => {
+  switch (settings.countMode) {
+    case 'count':
+      return clampCount(settings.segmentCount);
+    case 'density':
+      return clampCount(duration / Math.max(1, settings.secondsPerSegment));
+    default:
+      return null;
+  }
+};
+
+/**
+ * A segment's image prompt with the project's overlay style, language and brand style guide added.
+ */
+export const withProjectStyle = (prompt: string, settings: AnalysisSettings): string => {
+  const parts = [`${prompt.trim().replace(/\.$/, '')}. Style: ${OVERLAY_STYLE_PROMPTS[settings.overlayStyle].look}.`];
+  if (settings.language.trim()) parts.push(`Any text in the graphic must be in ${settings.language.trim()}.`);
+  if (settings.styleGuide.trim()) parts.push(`Brand style guide: ${settings.styleGuide.trim()}`);
+  return parts.join(' ');
+};
@@ -0,0 +1,22 @@
+/**
+ * Helpers for cancellable async work (AbortSignal-aware waits).
+ */
+
+export const createAbortError = (message = 'Operation cancelled'): DOMException =>
+  new DOMException(message, 'AbortError');
+
+/**
+ * Resolve after `ms`, or reject with an AbortError as soon as `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
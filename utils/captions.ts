@@ -0,0 +1,115 @@
+import { CaptionCue, CaptionStyle, TranscriptCue, TranscriptWord } from '../types';
+import { TEXT_FONT_FAMILIES, CAPTION_MAX_CHARS, CAPTION_MAX_SEC, MIN_CAPTION_SEC } from '../constants';
+import { getCueWords } from './transcript';
+import { wrapText } from './textOverlays';
+
+/**
+ * Break transcript lines into captions short enough to read at a glance: a caption ends at the
+ * end of a line, or sooner once it would run past CAPTION_MAX_CHARS or CAPTION_MAX_SEC.
+ */
+export const createCaptionCues = (transcript: TranscriptCue[]): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  const flush = (words: TranscriptWord[]) => {
+    if (words.length === 0) return;
+    const start = words[0].start;
+    cues.push({
+      id: crypto.randomUUID(),
+      start,
+      end: Math.max(start + MIN_CAPTION_SEC, words[words.length - 1].end),
+      text: words.map(w => w.text).join(' ')
+    });
+  };
+
+  for (const line of transcript) {
+    let words: TranscriptWord[] = [];
+    for (const word of getCueWords(line)) {
+      const length = words.reduce((sum, w) => sum + w.text.length + 1, word.text.length);
+      if (words.length > 0 && (length > CAPTION_MAX_CHARS || word.end - words[0].start > CAPTION_MAX_SEC)) {
+        flush(words);
+        words = [];
+      }
+      words.push(word);
+    }
+    flush(words);
+  }
+  return cues;
+};
+
+/**
+ * The caption on screen at `time`, if any.
+ */
+export const findCaptionAt = (cues: CaptionCue[], time: number): CaptionCue | undefined => {
+  return cues.find(cue => time >= cue.start && time < cue.end);
+};
+
+// HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT
+const formatSubtitleTime = (seconds: number, decimalSeparator: ',' | '.') => {
+  const ms = Math.round(Math.max(0, seconds) * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor(ms / 60_000) % 60;
+  const secs = Math.floor(ms / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalSeparator}${String(ms % 1000).padStart(3, '0')}`;
+};
+
+// Neither format allows blank lines inside a cue, and "-->" would read as a timing line
+const toCueText = (text: string) => text.replace(/-->/g, '->').split('\n').map(l => l.trim()).filter(Boolean).join('\n');
+
+const getExportableCues = (cues: CaptionCue[]) => cues.filter(cue => toCueText(cue.text) && cue.end > cue.start);
+
+export const toSrt = (cues: CaptionCue[]): string => {
+  return getExportableCues(cues).map((cue, index) =>
+    `${index + 1}\n${formatSubtitleTime(cue.start, ',')} --> ${formatSubtitleTime(cue.end, ',')}\n${toCueText(cue.text)}\n`
+  ).join('\n');
+};
+
+export const toWebVtt = (cues: CaptionCue[]): string => {
+  const body = getExportableCues(cues).map(cue =>
+    `${formatSubtitleTime(cue.start, '.')} --> ${formatSubtitleTime(cue.end, '.')}\n${toCueText(cue.text)}\n`
+  ).join('\n');
+  return `WEBVTT\n\n${body}`;
+};
+
+/**
+ * Draw a caption onto the canvas, sized relative to the frame so the preview canvas and the
+ * full-resolution render lay it out the same way.
+ */
+export const drawCaption = (ctx: CanvasRenderingContext2D, text: string, style: CaptionStyle) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.max(8, (style.size / 100) * height);
+  const lineHeight = fontSize * 1.3;
+  const margin = height * 0.08;
+
+  ctx.save();
+  ctx.font = `bold ${fontSize}px ${TEXT_FONT_FAMILIES[style.font]}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+
+  const lines = wrapText(ctx, text, width * 0.8);
+  const blockHeight = lines.length * lineHeight;
+  const top = style.position === 'top' ? margin
+    : style.position === 'middle' ? (height - blockHeight) / 2
+    : height - margin - blockHeight;
+
+  lines.forEach((line, index) => {
+    const y = top + lineHeight * (index + 0.5);
+    if (style.background === 'box') {
+      const boxWidth = ctx.measureText(line).width + fontSize * 0.8;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+      ctx.fillRect((width - boxWidth) / 2, y - lineHeight / 2, boxWidth, lineHeight);
+    } else if (style.background === 'outline') {
+      ctx.lineWidth = fontSize * 0.18;
+      ctx.strokeStyle = '#000000';
+      ctx.strokeText(line, width / 2, y);
+    } else {
+      // A soft shadow keeps bare text readable over bright footage
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+      ctx.shadowBlur = fontSize * 0.25;
+    }
+    ctx.fillStyle = style.color;
+    ctx.fillText(line, width / 2, y);
+    ctx.shadowColor = 'transparent';
+  });
+  ctx.restore();
+};
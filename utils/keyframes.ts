@@ -0,0 +1,93 @@
+import { Segment, OverlayTransform, OverlayKeyframe, KeyframeEasing, DEFAULT_OVERLAY_TRANSFORM } from '../types';
+
+// Keyframes closer together than this are treated as the same keyframe when editing
+const KEYFRAME_SNAP_SECONDS = 0.05;
+
+export const EASING_FUNCTIONS: Record<KeyframeEasing, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  'hold': () => 0
+};
+
+/**
+ * Fill in rotation/opacity for transforms saved before those existed.
+ */
+export const normalizeTransform = (transform?: OverlayTransform): Required<OverlayTransform> => {
+  return { ...DEFAULT_OVERLAY_TRANSFORM, ...transform } as Required<OverlayTransform>;
+};
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+const interpolateTransform = (from: OverlayTransform, to: OverlayTransform, t: number): Required<OverlayTransform> => {
+  const a = normalizeTransform(from);
+  const b = normalizeTransform(to);
+  return {
+    x: lerp(a.x, b.x, t),
+    y: lerp(a.y, b.y, t),
+    scale: lerp(a.scale, b.scale, t),
+    rotation: lerp(a.rotation, b.rotation, t),
+    opacity: lerp(a.opacity, b.opacity, t)
+  };
+};
+
+export const sortKeyframes = (keyframes: OverlayKeyframe[]): OverlayKeyframe[] => {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+};
+
+/**
+ * The overlay transform at `segmentTime` seconds into the segment. Without keyframes this is the
+ * static overlayTransform; before the first / after the last keyframe the end value holds.
+ */
+export const getTransformAtTime = (segment: Segment, segmentTime: number): Required<OverlayTransform> => {
+  if (!segment.keyframes || segment.keyframes.length === 0) {
+    return normalizeTransform(segment.overlayTransform);
+  }
+
+  const keyframes = sortKeyframes(segment.keyframes);
+  if (segmentTime <= keyframes[0].time) return normalizeTransform(keyframes[0].transform);
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    if (segmentTime < to.time) {
+      // Keyframes sharing a time (from imported or rounded data) have no span to ease across
+      const span = to.time - from.time;
+      if (span <= 0) return normalizeTransform(to.transform);
+      const progress = (segmentTime - from.time) / span;
+      return interpolateTransform(from.transform, to.transform, EASING_FUNCTIONS[from.easing](progress));
+    }
+  }
+
+  return normalizeTransform(keyframes[keyframes.length - 1].transform);
+};
+
+/**
+ * Set the transform at `time`, replacing a keyframe already at (about) that time or adding a new one.
+ */
+export const upsertKeyframe = (
+  keyframes: OverlayKeyframe[],
+  time: number,
+  transform: OverlayTransform
+): OverlayKeyframe[] => {
+  const existing = keyframes.find(k => Math.abs(k.time - time) < KEYFRAME_SNAP_SECONDS);
+  if (existing) {
+    return keyframes.map(k => k.id === existing.id ? { ...k, transform } : k);
+  }
+  return sortKeyframes([
+    ...keyframes,
+    { id: crypto.randomUUID(), time: Math.round(time * 100) / 100, transform, easing: 'ease-in-out' }
+  ]);
+};
+
+export const findKeyframeAt = (keyframes: OverlayKeyframe[] | undefined, time: number): OverlayKeyframe | undefined => {
+  return keyframes?.find(k => Math.abs(k.time - time) < KEYFRAME_SNAP_SECONDS);
+};
+
+/**
+ * CSS transform matching how drawOverlayFrame places an overlay on the export canvas.
+ */
+export const toCssTransform = (transform: Required<OverlayTransform>): string => {
+  return `translate(${transform.x}%, ${transform.y}%) rotate(${transform.rotation}deg) scale(${transform.scale})`;
+};
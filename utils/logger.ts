@@ -25,6 +25,8 @@ const COLORS = {
   API: '#00BCD4',
   STATE: '#E91E63',
   PIPELINE: '#673AB7',
+  RENDER: '#FF5722',
+  QUEUE: '#795548',
 };
 
 class Logger {
@@ -99,6 +101,10 @@ class Logger {
       this.log('ERROR', 'VIDEO_GEN', `✗ Video generation failed for ${segmentId}`, { error: error?.message || error }),
     config: (config: any) => 
       this.log('DEBUG', 'VIDEO_GEN', 'Veo configuration', config),
+    resumed: (segmentId: string, operationName: string) =>
+      this.log('INFO', 'VIDEO_GEN', `Resuming Veo operation for ${segmentId}`, { operationName }),
+    cancelled: (segmentId: string) =>
+      this.log('WARN', 'VIDEO_GEN', `Video generation cancelled for ${segmentId}`),
   };
 
   // Prompts
@@ -144,12 +150,38 @@ class Logger {
       this.log('DEBUG', 'PIPELINE', 'Pipeline progress', progress),
     stopped: () => 
       this.log('WARN', 'PIPELINE', 'Pipeline stopped by user'),
+    paused: () =>
+      this.log('INFO', 'PIPELINE', 'Pipeline paused'),
     resumed: () => 
       this.log('INFO', 'PIPELINE', 'Pipeline resumed'),
     complete: () => 
       this.log('INFO', 'PIPELINE', '✓ Pipeline complete'),
   };
 
+  // Timeline rendering / export
+  render = {
+    start: (segmentCount: number, mimeType: string) =>
+      this.log('INFO', 'RENDER', `Rendering timeline with ${segmentCount} segments`, { mimeType }),
+    complete: (size: number) =>
+      this.log('INFO', 'RENDER', '✓ Timeline render complete', { size: `${(size / 1024 / 1024).toFixed(2)} MB` }),
+    cancelled: () =>
+      this.log('WARN', 'RENDER', 'Timeline render cancelled by user'),
+    error: (error: any) =>
+      this.log('ERROR', 'RENDER', '✗ Timeline render failed', { error: error?.message || error }),
+  };
+
+  // Generation queue
+  queue = {
+    enqueued: (jobId: string, kind: string, label: string) =>
+      this.log('DEBUG', 'QUEUE', `Queued ${kind} job "${label}"`, { jobId }),
+    started: (jobId: string, model: string) =>
+      this.log('DEBUG', 'QUEUE', `Started job ${jobId}`, { model }),
+    finished: (jobId: string, status: string, durationMs: number) =>
+      this.log(status === 'error' ? 'WARN' : 'DEBUG', 'QUEUE', `Job ${jobId} ${status}`, { duration: `${(durationMs / 1000).toFixed(1)}s` }),
+    cancelled: (jobId: string) =>
+      this.log('WARN', 'QUEUE', `Job ${jobId} cancelled before it started`),
+  };
+
   // API
   api = {
     request: (endpoint: string, params?: any) => 
@@ -160,6 +192,8 @@ class Logger {
       this.log('ERROR', 'API', `API error: ${endpoint}`, { error: error?.message || error }),
     keyCheck: (hasKey: boolean) => 
       this.log('DEBUG', 'API', `API key check: ${hasKey ? 'present' : 'missing'}`),
+    retry: (endpoint: string, attempt: number, kind: string, delayMs: number) =>
+      this.log('WARN', 'API', `Retrying ${endpoint} (attempt ${attempt}) after ${kind} error`, { delayMs }),
   };
 
   // State changes
@@ -170,6 +204,24 @@ class Logger {
       this.log('DEBUG', 'STATE', `Segment ${segmentId} status: ${oldStatus} → ${newStatus}`),
     chromaKeyUpdate: (segmentId: string, settings: any) => 
       this.log('DEBUG', 'STATE', `Chroma key updated for ${segmentId}`, settings),
+    keyframesUpdate: (segmentId: string, count: number) =>
+      this.log('DEBUG', 'STATE', `Keyframes for ${segmentId}: ${count}`),
+    segmentEdit: (action: 'add' | 'delete' | 'split' | 'merge', segmentId: string) =>
+      this.log('INFO', 'STATE', `Segment ${action}: ${segmentId}`),
+    analysisSettingsUpdate: (settings: any) =>
+      this.log('DEBUG', 'STATE', 'Analysis settings updated', settings),
+    rangeAnalysis: (start: number, end: number, segmentCount: number) =>
+      this.log('INFO', 'STATE', `Re-analyzed ${start.toFixed(1)}s–${end.toFixed(1)}s: ${segmentCount} segments`),
+    takeSelected: (segmentId: string, kind: string, takeId: string) =>
+      this.log('INFO', 'STATE', `Segment ${segmentId} ${kind} take → ${takeId}`),
+    history: (action: 'undo' | 'redo', label: string) =>
+      this.log('INFO', 'STATE', `History ${action}: ${label}`),
+    trackUpdate: (trackId: string, change: string) =>
+      this.log('DEBUG', 'STATE', `Track ${trackId}: ${change}`),
+    captionsUpdate: (change: string) =>
+      this.log('DEBUG', 'STATE', `Captions: ${change}`),
+    assetLibraryUpdate: (change: string) =>
+      this.log('INFO', 'STATE', `Asset library: ${change}`),
   };
 
   // Utility methods
@@ -0,0 +1,206 @@
+import { AnalysisResult, Segment, Track, TimeRange, TextOverlayKind } from '../types';
+import { TEXT_OVERLAY_PRESETS } from '../constants';
+import { formatTime } from './videoUtils';
+import { getSegmentTrack } from './tracks';
+import { sortKeyframes, getTransformAtTime } from './keyframes';
+import { isTimedFromRangeStart, toAbsoluteTranscript } from './transcript';
+
+// Neither half of a split may be shorter than this
+export const MIN_SEGMENT_DURATION = 0.5;
+const DEFAULT_SEGMENT_DURATION = 5;
+
+const roundTime = (seconds: number) => Math.round(seconds * 100) / 100;
+
+const getDuration = (segment: Segment) => segment.duration || DEFAULT_SEGMENT_DURATION;
+
+/**
+ * A blank segment at `timestamp`, ready for prompts to be written and generated.
+ */
+export const createSegment = (timestamp: number, trackId?: string): Segment => {
+  const time = roundTime(Math.max(0, timestamp));
+  return {
+    id: crypto.randomUUID(),
+    timestamp: time,
+    formattedTime: formatTime(time),
+    topic: 'New segment',
+    description: '',
+    prompt: '',
+    animationPrompt: '',
+    status: 'idle',
+    duration: DEFAULT_SEGMENT_DURATION,
+    trackId
+  };
+};
+
+/**
+ * A text segment at `timestamp` starting from the preset for its kind.
+ */
+export const createTextSegment = (kind: TextOverlayKind, timestamp: number, trackId?: string): Segment => {
+  const textOverlay = { ...TEXT_OVERLAY_PRESETS[kind] };
+  return { ...createSegment(timestamp, trackId), topic: textOverlay.text, textOverlay };
+};
+
+/**
+ * Whether the segment has anything to show: generated media, or text to draw.
+ */
+export const hasOverlayContent = (segment: Segment): boolean => {
+  return !!(segment.videoUrl || segment.imageUrl || segment.textOverlay);
+};
+
+export const canSplitAt = (segment: Segment, time: number): boolean => {
+  const offset = time - segment.timestamp;
+  return offset >= MIN_SEGMENT_DURATION && getDuration(segment) - offset >= MIN_SEGMENT_DURATION;
+};
+
+/**
+ * Split a segment at `time` (seconds on the timeline). The first half keeps the segment's id and
+ * generated media; the second half is a new idle segment with the same prompts and settings, so
+ * it can be generated on its own. Keyframed motion continues across the cut.
+ */
+export const splitSegment = (segment: Segment, time: number): [Segment, Segment] => {
+  const offset = roundTime(time - segment.timestamp);
+  const splitTime = roundTime(segment.timestamp + offset);
+
+  let firstKeyframes = segment.keyframes;
+  let secondKeyframes = segment.keyframes;
+  let secondTransform = segment.overlayTransform;
+  if (segment.keyframes?.length) {
+    const keyframes = sortKeyframes(segment.keyframes);
+    const atCut = getTransformAtTime(segment, offset);
+    const easingAtCut = [...keyframes].reverse().find(k => k.time <= offset)?.easing ?? keyframes[0].easing;
+    firstKeyframes = [
+      ...keyframes.filter(k => k.time < offset),
+      { id: crypto.randomUUID(), time: offset, transform: atCut, easing: easingAtCut }
+    ];
+    secondKeyframes = [
+      { id: crypto.randomUUID(), time: 0, transform: atCut, easing: easingAtCut },
+      ...keyframes.filter(k => k.time > offset).map(k => ({ ...k, id: crypto.randomUUID(), time: roundTime(k.time - offset) }))
+    ];
+    secondTransform = atCut;
+  }
+
+  const first: Segment = {
+    ...segment,
+    duration: offset,
+    keyframes: firstKeyframes,
+    transitionOut: undefined
+  };
+  const second: Segment = {
+    id: crypto.randomUUID(),
+    timestamp: splitTime,
+    formattedTime: formatTime(splitTime),
+    topic: segment.topic,
+    description: segment.description,
+    prompt: segment.prompt,
+    animationPrompt: segment.animationPrompt,
+    status: 'idle',
+    duration: roundTime(getDuration(segment) - offset),
+    chromaKey: segment.chromaKey,
+    overlayTransform: secondTransform,
+    keyframes: secondKeyframes,
+    transitionOut: segment.transitionOut,
+    trackId: segment.trackId,
+    textOverlay: segment.textOverlay
+  };
+  return [first, second];
+};
+
+/**
+ * Join `second` onto `first`: the result keeps the first segment's content and runs until
+ * the later of the two ends, leaving with the second segment's out-transition.
+ */
+export const mergeSegments = (first: Segment, second: Segment): Segment => {
+  const end = Math.max(first.timestamp + getDuration(first), second.timestamp + getDuration(second));
+  return {
+    ...first,
+    duration: roundTime(end - first.timestamp),
+    transitionOut: second.transitionOut
+  };
+};
+
+/**
+ * The segment that follows `segment` on the same track, if any.
+ */
+export const getNextSegmentOnTrack = (segments: Segment[], segment: Segment, tracks: Track[]): Segment | undefined => {
+  const trackId = getSegmentTrack(segment, tracks).id;
+  return segments
+    .filter(s => s.id !== segment.id && s.timestamp >= segment.timestamp && getSegmentTrack(s, tracks).id === trackId)
+    .sort((a, b) => a.timestamp - b.timestamp)[0];
+};
+
+/**
+ * Whether a segment has work in it that re-analysis must not throw away: generated media or takes,
+ * text, or a generation still running.
+ */
+export const isSegmentFinished = (segment: Segment): boolean => {
+  return !!(segment.imageUrl || segment.videoUrl || segment.imageTakes?.length || segment.videoTakes?.length || segment.textOverlay)
+    || segment.status === 'generating-image'
+    || segment.status === 'generating-video';
+};
+
+/**
+ * Merge segments from re-analyzing `range` into the timeline. Analysis segments live on the bottom
+ * track; its unfinished segments starting inside the range are replaced, everything else is kept.
+ * New segments that start inside a kept bottom-track segment are dropped, and the rest are
+ * shortened so they end before the next one.
+ */
+export const replaceSegmentsInRange = (
+  segments: Segment[],
+  incoming: Segment[],
+  range: TimeRange,
+  tracks: Track[]
+): Segment[] => {
+  const bottomTrack = tracks[0];
+  const isReplaced = (segment: Segment) =>
+    !bottomTrack.locked &&
+    getSegmentTrack(segment, tracks).id === bottomTrack.id &&
+    segment.timestamp >= range.start &&
+    segment.timestamp < range.end &&
+    !isSegmentFinished(segment);
+
+  const kept = segments.filter(s => !isReplaced(s));
+  const blockers = kept.filter(s => getSegmentTrack(s, tracks).id === bottomTrack.id);
+
+  const added: Segment[] = [];
+  for (const segment of [...incoming].sort((a, b) => a.timestamp - b.timestamp)) {
+    const occupied = [...blockers, ...added];
+    if (occupied.some(s => segment.timestamp >= s.timestamp && segment.timestamp < s.timestamp + getDuration(s))) continue;
+    const nextStart = Math.min(...occupied.map(s => s.timestamp).filter(t => t > segment.timestamp));
+    const duration = roundTime(Math.min(getDuration(segment), nextStart - segment.timestamp));
+    if (duration < MIN_SEGMENT_DURATION) continue;
+    added.push({ ...segment, duration });
+  }
+
+  return [...kept, ...added].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Put a model's analysis on the full video timeline with default status and durations. For a
+ * range, the model sometimes counts from the range start instead of the video start; that is
+ * decided once for the whole response, so its segments and transcript are shifted together,
+ * and segments are kept inside the range.
+ */
+export const placeAnalysisOnTimeline = (result: AnalysisResult, range?: TimeRange): AnalysisResult => {
+  const offset = range && isTimedFromRangeStart(
+    [...result.segments.map(s => s.timestamp), ...(result.transcript || []).map(cue => cue.start)],
+    range
+  ) ? range.start : 0;
+
+  const segments = result.segments.map((s): Segment => {
+    if (!range) return { ...s, formattedTime: formatTime(s.timestamp), status: 'idle', duration: DEFAULT_SEGMENT_DURATION };
+    const timestamp = Math.min(Math.max(s.timestamp + offset, range.start), range.end);
+    return {
+      ...s,
+      timestamp,
+      formattedTime: formatTime(timestamp),
+      status: 'idle',
+      duration: Math.max(MIN_SEGMENT_DURATION, Math.min(DEFAULT_SEGMENT_DURATION, range.end - timestamp))
+    };
+  });
+
+  return {
+    ...result,
+    segments,
+    ...(result.transcript ? { transcript: toAbsoluteTranscript(result.transcript, offset) } : {})
+  };
+};
@@ -0,0 +1,117 @@
+import { Segment, GenerationTake, TakeKind } from '../types';
+
+// Model recorded for results generated before takes were kept
+const UNKNOWN_MODEL = 'unknown';
+// Model recorded for files the user uploaded instead of generating
+export const UPLOAD_MODEL = 'upload';
+// Model recorded for media placed from the asset library
+export const LIBRARY_MODEL = 'library';
+
+export const getTakes = (segment: Segment, kind: TakeKind): GenerationTake[] => {
+  return (kind === 'image' ? segment.imageTakes : segment.videoTakes) || [];
+};
+
+const getActiveUrl = (segment: Segment, kind: TakeKind) => kind === 'image' ? segment.imageUrl : segment.videoUrl;
+
+export const getActiveTake = (segment: Segment, kind: TakeKind): GenerationTake | undefined => {
+  const url = getActiveUrl(segment, kind);
+  return url ? getTakes(segment, kind).find(t => t.url === url) : undefined;
+};
+
+export const createTake = (url: string, prompt: string, model: string, sourceImageTakeId?: string): GenerationTake => ({
+  id: crypto.randomUUID(),
+  url,
+  prompt,
+  model,
+  createdAt: Date.now(),
+  sourceImageTakeId
+});
+
+/**
+ * Takes for the results of one generation. Several results are variants of each other and share a group.
+ */
+export const createVariantTakes = (urls: string[], prompt: string, model: string): GenerationTake[] => {
+  const variantGroupId = urls.length > 1 ? crypto.randomUUID() : undefined;
+  return urls.map(url => ({ ...createTake(url, prompt, model), variantGroupId }));
+};
+
+/**
+ * The candidates from the segment's most recent generation, if it produced more than one.
+ */
+export const getLatestVariants = (segment: Segment, kind: TakeKind): GenerationTake[] => {
+  const takes = getTakes(segment, kind);
+  const groupId = takes[takes.length - 1]?.variantGroupId;
+  return groupId ? takes.filter(t => t.variantGroupId === groupId) : [];
+};
+
+const withTakes = (segment: Segment, kind: TakeKind, takes: GenerationTake[]): Segment => {
+  return kind === 'image' ? { ...segment, imageTakes: takes } : { ...segment, videoTakes: takes };
+};
+
+/**
+ * Add a finished generation's takes to the segment and make the first one active.
+ */
+export const addTakes = (segment: Segment, kind: TakeKind, takes: GenerationTake[]): Segment => {
+  if (takes.length === 0) return segment;
+  const updated = withTakes(segment, kind, [...getTakes(segment, kind), ...takes]);
+  return kind === 'image' ? { ...updated, imageUrl: takes[0].url } : { ...updated, videoUrl: takes[0].url };
+};
+
+/**
+ * Keep media from before takes existed (or from an import) as takes, so regenerating can't lose it.
+ */
+export const withCurrentMediaAsTakes = (segment: Segment): Segment => {
+  let updated = segment;
+  if (segment.imageUrl && !getActiveTake(segment, 'image')) {
+    updated = withTakes(updated, 'image', [createTake(segment.imageUrl, segment.prompt, UNKNOWN_MODEL), ...getTakes(segment, 'image')]);
+  }
+  if (segment.videoUrl && !getActiveTake(segment, 'video')) {
+    const sourceImageTakeId = getActiveTake(updated, 'image')?.id;
+    const take = createTake(segment.videoUrl, segment.animationPrompt, UNKNOWN_MODEL, sourceImageTakeId);
+    updated = withTakes(updated, 'video', [take, ...getTakes(segment, 'video')]);
+  }
+  return updated;
+};
+
+const reconcileStatus = (segment: Segment): Segment => ({
+  ...segment,
+  status: segment.videoUrl ? 'video-success' : segment.imageUrl ? 'image-success' : 'idle',
+  error: undefined,
+  errorKind: undefined
+});
+
+/**
+ * Make a take active. Image and clip stay paired: picking an image brings back the latest clip
+ * animated from it (or none), and picking a clip brings back the image it was animated from.
+ */
+export const selectTake = (segment: Segment, kind: TakeKind, takeId: string): Segment => {
+  const take = getTakes(segment, kind).find(t => t.id === takeId);
+  if (!take) return segment;
+
+  if (kind === 'image') {
+    const clip = [...getTakes(segment, 'video')].reverse().find(t => t.sourceImageTakeId === take.id);
+    return reconcileStatus({ ...segment, imageUrl: take.url, videoUrl: clip?.url });
+  }
+
+  const sourceImage = getTakes(segment, 'image').find(t => t.id === take.sourceImageTakeId);
+  return reconcileStatus({ ...segment, videoUrl: take.url, imageUrl: sourceImage?.url ?? segment.imageUrl });
+};
+
+/**
+ * Remove an inactive take. The active take can't be deleted; select another one first.
+ */
+export const deleteTake = (segment: Segment, kind: TakeKind, takeId: string): Segment => {
+  if (getActiveTake(segment, kind)?.id === takeId) return segment;
+  return withTakes(segment, kind, getTakes(segment, kind).filter(t => t.id !== takeId));
+};
+
+export const isUnknownModel = (take: GenerationTake): boolean => take.model === UNKNOWN_MODEL;
+
+/**
+ * Where a take came from, for display: the model that generated it, or how it got there otherwise.
+ */
+export const getTakeSourceLabel = (take: GenerationTake): string => {
+  if (isUnknownModel(take)) return 'Earlier result';
+  if (take.model === UPLOAD_MODEL) return 'Uploaded';
+  return take.model === LIBRARY_MODEL ? 'From library' : take.model;
+};
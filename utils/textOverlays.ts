@@ -0,0 +1,238 @@
+import { TextOverlay } from '../types';
+import { TEXT_FONT_FAMILIES, TEXT_ANIMATION_SEC, TEXT_COUNTER_SEC, TYPEWRITER_CHARS_PER_SEC } from '../constants';
+
+// Text overlays are drawn onto a canvas the size of the video frame, so they go through the same
+// object-contain, transform and transition path as generated overlays in the preview and the render.
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+// Overshoots past full size before settling, for the pop build-in
+const easeOutBack = (t: number) => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2);
+
+interface BuildIn {
+  opacity: number;
+  scale: number;
+  offsetY: number; // Fraction of the frame height
+  visibleChars: number; // Characters typed so far (text first, then subtitle)
+}
+
+const getBuildIn = (overlay: TextOverlay, time: number): BuildIn => {
+  const progress = clamp01(time / TEXT_ANIMATION_SEC);
+  const identity: BuildIn = { opacity: 1, scale: 1, offsetY: 0, visibleChars: Infinity };
+  switch (overlay.animationIn) {
+    case 'fade':
+      return { ...identity, opacity: easeOutCubic(progress) };
+    case 'pop':
+      return { ...identity, opacity: clamp01(progress * 3), scale: Math.max(0, easeOutBack(progress)) };
+    case 'slide-up':
+      return { ...identity, opacity: easeOutCubic(progress), offsetY: (1 - easeOutCubic(progress)) * 0.05 };
+    case 'typewriter':
+      return { ...identity, visibleChars: Math.floor(Math.max(0, time) * TYPEWRITER_CHARS_PER_SEC) };
+    default:
+      return identity;
+  }
+};
+
+/**
+ * Whether the overlay changes over time (build-in animation or a running counter), so the
+ * preview has to redraw it every frame during playback.
+ */
+export const isTextOverlayAnimated = (overlay?: TextOverlay): boolean => {
+  return !!overlay && (overlay.animationIn !== 'none' || (overlay.kind === 'counter' && overlay.countFrom !== overlay.countTo));
+};
+
+const countDecimals = (value: number) => (String(value).split('.')[1] || '').length;
+
+/**
+ * The counter's number `time` seconds into the segment, formatted with as many decimals as
+ * its start and end values use.
+ */
+export const getCounterText = (overlay: TextOverlay, time: number): string => {
+  const value = overlay.countFrom + (overlay.countTo - overlay.countFrom) * easeOutCubic(clamp01(time / TEXT_COUNTER_SEC));
+  const decimals = Math.max(countDecimals(overlay.countFrom), countDecimals(overlay.countTo));
+  return value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+};
+
+/**
+ * Greedy word wrap to `maxWidth` in the context's current font; line breaks in the text are kept.
+ */
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+};
+
+const setFont = (ctx: CanvasRenderingContext2D, overlay: TextOverlay, size: number, weight: 'bold' | 'normal') => {
+  ctx.font = `${weight} ${size}px ${TEXT_FONT_FAMILIES[overlay.font]}`;
+};
+
+const withShadow = (ctx: CanvasRenderingContext2D, size: number) => {
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = size * 0.2;
+  ctx.shadowOffsetY = size * 0.04;
+};
+
+const drawTitle = (ctx: CanvasRenderingContext2D, overlay: TextOverlay, text: string, subtitle: string, fontSize: number) => {
+  const { width, height } = ctx.canvas;
+  setFont(ctx, overlay, fontSize, 'bold');
+  // Lay out the full text so nothing shifts while it is typed in
+  const lines = wrapText(ctx, overlay.text, width * 0.85);
+  const lineHeight = fontSize * 1.15;
+  const top = height / 2 - (lines.length * lineHeight) / 2;
+
+  ctx.save();
+  withShadow(ctx, fontSize);
+  ctx.fillStyle = overlay.textColor;
+  wrapText(ctx, text, width * 0.85).forEach((line, index) => ctx.fillText(line, width / 2, top + lineHeight * (index + 0.5)));
+  ctx.restore();
+
+  const widest = Math.max(0, ...lines.map(line => ctx.measureText(line).width));
+  const ruleY = top + lines.length * lineHeight + fontSize * 0.15;
+  ctx.fillStyle = overlay.accentColor;
+  ctx.fillRect(width / 2 - widest * 0.2, ruleY, widest * 0.4, Math.max(2, fontSize * 0.08));
+
+  if (subtitle) {
+    const subtitleSize = fontSize * 0.45;
+    setFont(ctx, overlay, subtitleSize, 'normal');
+    ctx.save();
+    withShadow(ctx, subtitleSize);
+    ctx.fillStyle = overlay.textColor;
+    ctx.fillText(subtitle, width / 2, ruleY + fontSize * 0.2 + subtitleSize);
+    ctx.restore();
+  }
+};
+
+const drawLowerThird = (ctx: CanvasRenderingContext2D, overlay: TextOverlay, text: string, subtitle: string, fontSize: number) => {
+  const { width, height } = ctx.canvas;
+  const left = width * 0.06;
+  const padding = fontSize * 0.5;
+  const mainHeight = fontSize * 1.6;
+  const subtitleSize = fontSize * 0.6;
+  const subtitleHeight = overlay.subtitle ? subtitleSize * 1.7 : 0;
+  const top = height * 0.86 - mainHeight - subtitleHeight;
+
+  ctx.textAlign = 'left';
+  setFont(ctx, overlay, fontSize, 'bold');
+  const mainWidth = ctx.measureText(overlay.text).width + padding * 2;
+  ctx.fillStyle = overlay.accentColor;
+  ctx.fillRect(left, top, mainWidth, mainHeight);
+  ctx.fillStyle = overlay.textColor;
+  ctx.fillText(text, left + padding, top + mainHeight / 2);
+
+  if (overlay.subtitle) {
+    setFont(ctx, overlay, subtitleSize, 'normal');
+    const subtitleWidth = ctx.measureText(overlay.subtitle).width + padding * 2;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(left, top + mainHeight, subtitleWidth, subtitleHeight);
+    ctx.fillStyle = overlay.textColor;
+    ctx.fillText(subtitle, left + padding, top + mainHeight + subtitleHeight / 2);
+  }
+};
+
+const drawCallout = (ctx: CanvasRenderingContext2D, overlay: TextOverlay, text: string, subtitle: string, fontSize: number) => {
+  const { width, height } = ctx.canvas;
+  setFont(ctx, overlay, fontSize, 'bold');
+  // As with titles, the box is sized for the full text
+  const lines = wrapText(ctx, overlay.text, width * 0.5);
+  const visibleLines = wrapText(ctx, text, width * 0.5);
+  const lineHeight = fontSize * 1.2;
+  const subtitleSize = fontSize * 0.6;
+  const padding = fontSize * 0.6;
+  const contentHeight = lines.length * lineHeight + (overlay.subtitle ? subtitleSize * 1.5 : 0);
+  const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width), fontSize) + padding * 2;
+  const boxHeight = contentHeight + padding * 2;
+  const x = (width - boxWidth) / 2;
+  const y = (height - boxHeight) / 2;
+  const pointer = fontSize * 0.5;
+
+  ctx.save();
+  withShadow(ctx, fontSize);
+  ctx.fillStyle = overlay.accentColor;
+  ctx.beginPath();
+  ctx.roundRect(x, y, boxWidth, boxHeight, fontSize * 0.3);
+  ctx.moveTo(width / 2 - pointer, y + boxHeight);
+  ctx.lineTo(width / 2, y + boxHeight + pointer);
+  ctx.lineTo(width / 2 + pointer, y + boxHeight);
+  ctx.fill();
+  ctx.restore();
+
+  ctx.fillStyle = overlay.textColor;
+  visibleLines.forEach((line, index) => ctx.fillText(line, width / 2, y + padding + lineHeight * (index + 0.5)));
+  if (subtitle) {
+    setFont(ctx, overlay, subtitleSize, 'normal');
+    ctx.fillText(subtitle, width / 2, y + padding + lines.length * lineHeight + subtitleSize * 0.75);
+  }
+};
+
+const drawCounter = (ctx: CanvasRenderingContext2D, overlay: TextOverlay, text: string, fontSize: number, time: number) => {
+  const { width, height } = ctx.canvas;
+  const labelSize = fontSize * 0.3;
+
+  ctx.save();
+  withShadow(ctx, fontSize);
+  setFont(ctx, overlay, fontSize, 'bold');
+  ctx.fillStyle = overlay.accentColor;
+  ctx.fillText(getCounterText(overlay, time), width / 2, height / 2);
+  if (text) {
+    setFont(ctx, overlay, labelSize, 'bold');
+    ctx.fillStyle = overlay.textColor;
+    ctx.fillText(text.toUpperCase(), width / 2, height / 2 + fontSize * 0.5 + labelSize);
+  }
+  ctx.restore();
+};
+
+/**
+ * Clear the canvas and draw the text overlay as it looks `time` seconds into its segment.
+ */
+export const renderTextOverlay = (canvas: HTMLCanvasElement, overlay: TextOverlay, time: number) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+
+  const buildIn = getBuildIn(overlay, time);
+  if (buildIn.opacity <= 0 || buildIn.scale <= 0) return;
+  const text = overlay.text.slice(0, buildIn.visibleChars);
+  const subtitle = overlay.subtitle.slice(0, Math.max(0, buildIn.visibleChars - overlay.text.length));
+  const fontSize = Math.max(8, (overlay.size / 100) * height);
+
+  // Pop scales around the text's anchor: the frame center, or the lower third's left edge
+  const anchorX = overlay.kind === 'lower-third' ? width * 0.06 : width / 2;
+  const anchorY = overlay.kind === 'lower-third' ? height * 0.8 : height / 2;
+
+  ctx.save();
+  ctx.globalAlpha = buildIn.opacity;
+  ctx.translate(anchorX, anchorY + buildIn.offsetY * height);
+  ctx.scale(buildIn.scale, buildIn.scale);
+  ctx.translate(-anchorX, -anchorY);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  switch (overlay.kind) {
+    case 'title':
+      drawTitle(ctx, overlay, text, subtitle, fontSize);
+      break;
+    case 'lower-third':
+      drawLowerThird(ctx, overlay, text, subtitle, fontSize);
+      break;
+    case 'callout':
+      drawCallout(ctx, overlay, text, subtitle, fontSize);
+      break;
+    case 'counter':
+      drawCounter(ctx, overlay, text, fontSize, time);
+      break;
+  }
+  ctx.restore();
+};
@@ -0,0 +1,358 @@
+import { Segment, Track, ChromaKeySettings, OverlayTransform, CaptionTrack } from '../types';
+import { createChromaKeyCanvas } from './chromaKey';
+import { getTracks, getCompositeSegments } from './tracks';
+import { getTransformAtTime, normalizeTransform } from './keyframes';
+import { getTransitionEffect, TransitionEffect, IDENTITY_EFFECT } from './transitions';
+import { drawCaption, findCaptionAt } from './captions';
+import { renderTextOverlay } from './textOverlays';
+import { logger } from './logger';
+
+export interface RenderProgress {
+  currentTime: number;
+  duration: number;
+  percent: number; // 0-100
+}
+
+export interface RenderOptions {
+  fps?: number;
+  videoBitsPerSecond?: number;
+  signal?: AbortSignal;
+  // Overlay tracks (bottom to top); controls stacking order and which overlays are included
+  tracks?: Track[];
+  // Burned in over every overlay when visible
+  captions?: CaptionTrack;
+  onProgress?: (progress: RenderProgress) => void;
+}
+
+export interface RenderResult {
+  blob: Blob;
+  mimeType: string;
+  extension: 'webm' | 'mp4';
+}
+
+// Loaded overlay source for a segment, prepared before rendering starts
+interface OverlaySource {
+  segment: Segment;
+  // Text segments draw into a frame-sized canvas every frame
+  element: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+  // Static images are keyed once up-front; videos are keyed per frame
+  keyedImage?: HTMLCanvasElement;
+}
+
+// Preferred recording formats, best first
+const RECORDER_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4'
+];
+
+export const getSupportedRecorderMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+/**
+ * Fit a source of the given size inside a destination box (CSS object-fit: contain).
+ */
+export const getContainRect = (srcWidth: number, srcHeight: number, dstWidth: number, dstHeight: number) => {
+  const scale = Math.min(dstWidth / srcWidth, dstHeight / srcHeight);
+  const width = srcWidth * scale;
+  const height = srcHeight * scale;
+  return { x: (dstWidth - width) / 2, y: (dstHeight - height) / 2, width, height };
+};
+
+/**
+ * Draw an overlay onto the canvas the same way the preview lays it out:
+ * object-contain inside the frame, translated by a percentage of the frame,
+ * rotated and scaled around the frame center, faded by its opacity. An in/out
+ * transition effect adds its own offset, scale, fade and clip on top.
+ */
+export const drawOverlayFrame = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: OverlayTransform,
+  effect: TransitionEffect = IDENTITY_EFFECT
+) => {
+  const { width, height } = ctx.canvas;
+  if (!sourceWidth || !sourceHeight) return;
+
+  const rect = getContainRect(sourceWidth, sourceHeight, width, height);
+  const { rotation, opacity } = normalizeTransform(transform);
+  const { clip } = effect;
+
+  ctx.save();
+  ctx.globalAlpha *= opacity * effect.opacity;
+  ctx.translate(
+    width / 2 + ((transform.x + effect.offsetX) / 100) * width,
+    height / 2 + ((transform.y + effect.offsetY) / 100) * height
+  );
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.scale(transform.scale * effect.scale, transform.scale * effect.scale);
+  // Clip in the overlay's own frame box, like CSS clip-path on the preview element
+  ctx.beginPath();
+  ctx.rect(
+    -width / 2 + clip.left * width,
+    -height / 2 + clip.top * height,
+    width * (1 - clip.left - clip.right),
+    height * (1 - clip.top - clip.bottom)
+  );
+  ctx.clip();
+  ctx.drawImage(source, rect.x - width / 2, rect.y - height / 2, rect.width, rect.height);
+  ctx.restore();
+};
+
+const getSourceSize = (element: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement) => {
+  if (element instanceof HTMLVideoElement) return { width: element.videoWidth, height: element.videoHeight };
+  if (element instanceof HTMLImageElement) return { width: element.naturalWidth, height: element.naturalHeight };
+  return { width: element.width, height: element.height };
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
+};
+
+const loadVideo = (url: string, muted: boolean): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = muted;
+    video.playsInline = true;
+    video.preload = 'auto';
+    if (!url.startsWith('blob:') && !url.startsWith('data:')) {
+      video.crossOrigin = 'anonymous';
+    }
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('Failed to load video for rendering'));
+    video.src = url;
+  });
+};
+
+const isChromaEnabled = (settings?: ChromaKeySettings): settings is ChromaKeySettings => !!settings?.enabled;
+
+const loadOverlaySources = async (segments: Segment[], width: number, height: number): Promise<OverlaySource[]> => {
+  const sources: OverlaySource[] = [];
+  for (const segment of segments) {
+    if (segment.textOverlay) {
+      const element = document.createElement('canvas');
+      element.width = width;
+      element.height = height;
+      sources.push({ segment, element });
+    } else if (segment.videoUrl) {
+      const element = await loadVideo(segment.videoUrl, true);
+      element.loop = true;
+      sources.push({ segment, element });
+    } else if (segment.imageUrl) {
+      const element = await loadImage(segment.imageUrl);
+      const keyedImage = isChromaEnabled(segment.chromaKey)
+        ? createChromaKeyCanvas(element, segment.chromaKey)
+        : undefined;
+      sources.push({ segment, element, keyedImage });
+    }
+  }
+  return sources;
+};
+
+/**
+ * Draw every overlay active at `time` onto the canvas, bottom track first. Overlay videos
+ * are kept in sync with the base timeline and chroma keyed frame-by-frame.
+ */
+const drawOverlaysAtTime = (ctx: CanvasRenderingContext2D, sources: OverlaySource[], tracks: Track[], time: number) => {
+  const active = getCompositeSegments(sources.map(s => s.segment), tracks, time);
+  const activeIds = new Set(active.map(s => s.id));
+
+  for (const source of sources) {
+    if (source.element instanceof HTMLVideoElement && !source.element.paused && !activeIds.has(source.segment.id)) {
+      source.element.pause();
+    }
+  }
+
+  for (const activeSegment of active) {
+    const source = sources.find(s => s.segment.id === activeSegment.id);
+    if (!source) continue;
+    const { segment, element } = source;
+
+    const transform = getTransformAtTime(segment, time - segment.timestamp);
+    const effect = getTransitionEffect(segment, time - segment.timestamp);
+
+    if (element instanceof HTMLCanvasElement && segment.textOverlay) {
+      renderTextOverlay(element, segment.textOverlay, time - segment.timestamp);
+      drawOverlayFrame(ctx, element, element.width, element.height, transform, effect);
+    } else if (element instanceof HTMLVideoElement) {
+      const segmentTime = element.duration ? (time - segment.timestamp) % element.duration : 0;
+      if (Math.abs(element.currentTime - segmentTime) > 0.3) {
+        element.currentTime = segmentTime;
+      }
+      if (element.paused) element.play().catch(() => {});
+
+      if (isChromaEnabled(segment.chromaKey)) {
+        const keyed = createChromaKeyCanvas(element, segment.chromaKey);
+        drawOverlayFrame(ctx, keyed, keyed.width, keyed.height, transform, effect);
+      } else {
+        const { width, height } = getSourceSize(element);
+        ctx.save();
+        ctx.globalCompositeOperation = 'screen';
+        drawOverlayFrame(ctx, element, width, height, transform, effect);
+        ctx.restore();
+      }
+    } else if (source.keyedImage) {
+      drawOverlayFrame(ctx, source.keyedImage, source.keyedImage.width, source.keyedImage.height, transform, effect);
+    } else {
+      const { width, height } = getSourceSize(element);
+      ctx.save();
+      ctx.globalCompositeOperation = 'screen';
+      drawOverlayFrame(ctx, element, width, height, transform, effect);
+      ctx.restore();
+    }
+  }
+};
+
+/**
+ * Render the base video with every segment overlay (and the captions, when shown) composited
+ * on top into a single recorded file. Playback runs in real time, so rendering takes as long as the video.
+ */
+export const renderTimelineVideo = async (
+  videoUrl: string,
+  segments: Segment[],
+  options: RenderOptions = {}
+): Promise<RenderResult> => {
+  const { fps = 30, videoBitsPerSecond = 8_000_000, signal, captions, onProgress } = options;
+  const tracks = getTracks(options.tracks);
+
+  const mimeType = getSupportedRecorderMimeType();
+  if (!mimeType) {
+    throw new Error('This browser cannot record video (MediaRecorder is unavailable).');
+  }
+
+  const baseVideo = await loadVideo(videoUrl, false);
+  const overlaySources = await loadOverlaySources(segments, baseVideo.videoWidth, baseVideo.videoHeight);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = baseVideo.videoWidth;
+  canvas.height = baseVideo.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  // Route the original audio into the recording instead of the speakers
+  const audioContext = new AudioContext();
+  const audioSource = audioContext.createMediaElementSource(baseVideo);
+  const audioDestination = audioContext.createMediaStreamDestination();
+  audioSource.connect(audioDestination);
+
+  const stream = canvas.captureStream(fps);
+  audioDestination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  logger.render.start(segments.length, mimeType);
+
+  // Frames follow the base video rather than requestAnimationFrame, which stops in background
+  // tabs while the video and the recorder keep going. Without video frame callbacks, a timer.
+  const hasVideoFrameCallback = 'requestVideoFrameCallback' in baseVideo;
+  let frameHandle = 0;
+  let frameTimer: ReturnType<typeof setTimeout> | undefined;
+  const scheduleFrame = (draw: () => void) => {
+    if (hasVideoFrameCallback) frameHandle = baseVideo.requestVideoFrameCallback(draw);
+    else frameTimer = setTimeout(draw, 1000 / fps);
+  };
+  const cleanup = () => {
+    if (hasVideoFrameCallback) baseVideo.cancelVideoFrameCallback(frameHandle);
+    clearTimeout(frameTimer);
+    baseVideo.pause();
+    overlaySources.forEach(s => {
+      if (s.element instanceof HTMLVideoElement) s.element.pause();
+    });
+    stream.getTracks().forEach(track => track.stop());
+    audioContext.close().catch(() => {});
+  };
+
+  return new Promise<RenderResult>((resolve, reject) => {
+    const handleAbort = () => {
+      logger.render.cancelled();
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      cleanup();
+      reject(new DOMException('Render cancelled', 'AbortError'));
+    };
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const drawFrame = () => {
+      const time = baseVideo.currentTime;
+      ctx.drawImage(baseVideo, 0, 0, canvas.width, canvas.height);
+      drawOverlaysAtTime(ctx, overlaySources, tracks, time);
+      const caption = captions?.visible ? findCaptionAt(captions.cues, time) : undefined;
+      if (caption && captions) drawCaption(ctx, caption.text, captions.style);
+
+      onProgress?.({
+        currentTime: time,
+        duration: baseVideo.duration,
+        percent: baseVideo.duration ? Math.min(100, (time / baseVideo.duration) * 100) : 0
+      });
+
+      if (!baseVideo.ended) {
+        scheduleFrame(drawFrame);
+      }
+    };
+
+    recorder.onstop = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      cleanup();
+      const blob = new Blob(chunks, { type: mimeType });
+      logger.render.complete(blob.size);
+      resolve({ blob, mimeType, extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm' });
+    };
+
+    recorder.onerror = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      cleanup();
+      logger.render.error('MediaRecorder error');
+      reject(new Error('Recording failed'));
+    };
+
+    baseVideo.onended = () => {
+      // Draw the last frame before closing the recording
+      drawFrame();
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+
+    // Start recording only once the video is back at the start, so no frame comes from where it was
+    new Promise<void>(resolveSeek => {
+      if (baseVideo.currentTime === 0 && !baseVideo.seeking) {
+        resolveSeek();
+        return;
+      }
+      baseVideo.addEventListener('seeked', () => resolveSeek(), { once: true });
+      baseVideo.currentTime = 0;
+    })
+      .then(() => {
+        // Cancelled while seeking: handleAbort has already cleaned up
+        if (signal?.aborted) return;
+        recorder.start(1000);
+        return audioContext.resume().then(() => baseVideo.play()).then(() => drawFrame());
+      })
+      .catch((err) => {
+        signal?.removeEventListener('abort', handleAbort);
+        recorder.onstop = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+        cleanup();
+        logger.render.error(err);
+        reject(err);
+      });
+  });
+};
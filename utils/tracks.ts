@@ -0,0 +1,53 @@
+import { Segment, Track, DEFAULT_TRACK } from '../types';
+
+/**
+ * Tracks of an analysis, bottom to top. Projects saved before tracks existed get the default track.
+ */
+export const getTracks = (tracks?: Track[]): Track[] => {
+  return tracks && tracks.length > 0 ? tracks : [DEFAULT_TRACK];
+};
+
+/**
+ * The track a segment sits on. Segments without a known track belong to the bottom track.
+ */
+export const getSegmentTrack = (segment: Segment, tracks: Track[]): Track => {
+  return tracks.find(t => t.id === segment.trackId) || tracks[0];
+};
+
+/**
+ * Whether a track's overlays are shown. Soloing any track hides every track that isn't soloed.
+ */
+export const isTrackShown = (track: Track, tracks: Track[]): boolean => {
+  return tracks.some(t => t.solo) ? track.solo : track.visible;
+};
+
+/**
+ * Returns every segment whose time range contains the given time, in timeline order.
+ */
+export const getSegmentsAtTime = (segments: Segment[], time: number): Segment[] => {
+  return segments.filter(s => time >= s.timestamp && time < s.timestamp + (s.duration || 5));
+};
+
+/**
+ * Segments to composite at the given time, bottom-most first: ordered by track, then by
+ * start time within a track. Segments on hidden (or non-soloed) tracks are left out.
+ */
+export const getCompositeSegments = (segments: Segment[], tracks: Track[], time: number): Segment[] => {
+  const trackIndex = (segment: Segment) => tracks.indexOf(getSegmentTrack(segment, tracks));
+  return getSegmentsAtTime(segments, time)
+    .filter(s => isTrackShown(getSegmentTrack(s, tracks), tracks))
+    .sort((a, b) => trackIndex(a) - trackIndex(b) || a.timestamp - b.timestamp);
+};
+
+export const createTrack = (tracks: Track[]): Track => {
+  const existingNames = new Set(tracks.map(t => t.name));
+  let n = tracks.length + 1;
+  while (existingNames.has(`Overlay ${n}`)) n++;
+  return {
+    id: `track-${Date.now()}`,
+    name: `Overlay ${n}`,
+    visible: true,
+    locked: false,
+    solo: false
+  };
+};
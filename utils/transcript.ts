@@ -0,0 +1,70 @@
+import { TranscriptCue, TranscriptWord, TimeRange } from '../types';
+
+/**
+ * A cue's words with timings. When the model only timed the whole line, the line's time is
+ * shared out between its words by length.
+ */
+export const getCueWords = (cue: TranscriptCue): TranscriptWord[] => {
+  if (cue.words && cue.words.length > 0) return cue.words;
+
+  const texts = cue.text.split(/\s+/).filter(Boolean);
+  const totalLength = texts.reduce((sum, text) => sum + text.length, 0) || 1;
+  const span = Math.max(0, cue.end - cue.start);
+  let time = cue.start;
+  return texts.map(text => {
+    const start = time;
+    time += (text.length / totalLength) * span;
+    return { text, start, end: time };
+  });
+};
+
+/**
+ * Index of the cue being spoken at `time`, or -1 between cues.
+ */
+export const findCueIndexAt = (transcript: TranscriptCue[], time: number): number => {
+  return transcript.findIndex(cue => time >= cue.start && time < cue.end);
+};
+
+// Slack for times the model puts just past the end of the range
+const RANGE_END_TOLERANCE_SEC = 1;
+
+/**
+ * Whether the model counted a response's times from the start of an analyzed range instead of
+ * the full video. Decided once for all of a response's times (segments and cues together), so
+ * they are all shifted alike: counted from the range start, every one fits within its length.
+ */
+export const isTimedFromRangeStart = (times: number[], range: TimeRange): boolean => {
+  const length = range.end - range.start;
+  return range.start > 0 && times.length > 0 && times.every(time => time <= length + RANGE_END_TOLERANCE_SEC);
+};
+
+/**
+ * Move cues onto the full video timeline by `offset` seconds (the range start, for cues timed
+ * from it).
+ */
+export const toAbsoluteTranscript = (transcript: TranscriptCue[], offset: number): TranscriptCue[] => {
+  if (offset === 0) return transcript;
+  const shift = (time: number) => time + offset;
+  return transcript.map(cue => ({
+    ...cue,
+    start: shift(cue.start),
+    end: shift(cue.end),
+    words: cue.words?.map(word => ({ ...word, start: shift(word.start), end: shift(word.end) }))
+  }));
+};
+
+/**
+ * Replace the part of a transcript that starts inside `range` with newly transcribed cues.
+ */
+export const replaceTranscriptRange = (
+  transcript: TranscriptCue[] | undefined,
+  incoming: TranscriptCue[] | undefined,
+  range: TimeRange
+): TranscriptCue[] | undefined => {
+  if (!incoming || incoming.length === 0) return transcript;
+  const inRange = (cue: TranscriptCue) => cue.start >= range.start && cue.start < range.end;
+  return [
+    ...(transcript || []).filter(cue => !inRange(cue)),
+    ...incoming.filter(inRange)
+  ].sort((a, b) => a.start - b.start);
+};
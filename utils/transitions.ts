@@ -0,0 +1,97 @@
+import { Segment, SegmentTransition, TransitionDirection } from '../types';
+import { EASING_FUNCTIONS } from './keyframes';
+
+// How far into its in/out transition an overlay is, applied on top of its keyframed transform
+export interface TransitionEffect {
+  opacity: number; // Multiplier, 0-1
+  offsetX: number; // Extra translation as a percentage of the frame
+  offsetY: number;
+  scale: number; // Multiplier
+  // Visible part of the overlay's frame box, as fractions from each edge (CSS inset order)
+  clip: { top: number; right: number; bottom: number; left: number };
+}
+
+const NO_CLIP = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const IDENTITY_EFFECT: TransitionEffect = { opacity: 1, offsetX: 0, offsetY: 0, scale: 1, clip: NO_CLIP };
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const DIRECTION_VECTORS: Record<TransitionDirection, { x: number; y: number }> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 }
+};
+
+// Wipes reveal from the named edge, so the hidden part is on the opposite side
+const getWipeClip = (direction: TransitionDirection, visible: number) => {
+  const hidden = 1 - visible;
+  switch (direction) {
+    case 'left': return { ...NO_CLIP, right: hidden };
+    case 'right': return { ...NO_CLIP, left: hidden };
+    case 'up': return { ...NO_CLIP, bottom: hidden };
+    case 'down': return { ...NO_CLIP, top: hidden };
+  }
+};
+
+/**
+ * Apply one transition at `progress` (0 = fully hidden, 1 = fully shown) to an effect.
+ * The same geometry works for both edges: an in-transition runs it forwards, an out-transition backwards.
+ */
+const applyTransition = (effect: TransitionEffect, transition: SegmentTransition, progress: number): TransitionEffect => {
+  const p = EASING_FUNCTIONS['ease-in-out'](clamp01(progress));
+  switch (transition.type) {
+    case 'fade':
+      return { ...effect, opacity: effect.opacity * p };
+    case 'slide': {
+      const vector = DIRECTION_VECTORS[transition.direction];
+      return { ...effect, offsetX: effect.offsetX + vector.x * (1 - p) * 100, offsetY: effect.offsetY + vector.y * (1 - p) * 100 };
+    }
+    case 'scale':
+      return { ...effect, scale: effect.scale * p };
+    case 'wipe': {
+      const clip = getWipeClip(transition.direction, p);
+      return {
+        ...effect,
+        clip: {
+          top: Math.max(effect.clip.top, clip.top),
+          right: Math.max(effect.clip.right, clip.right),
+          bottom: Math.max(effect.clip.bottom, clip.bottom),
+          left: Math.max(effect.clip.left, clip.left)
+        }
+      };
+    }
+    default:
+      return effect;
+  }
+};
+
+export const hasTransitions = (segment: Segment): boolean => {
+  return (!!segment.transitionIn && segment.transitionIn.type !== 'none')
+    || (!!segment.transitionOut && segment.transitionOut.type !== 'none');
+};
+
+/**
+ * The combined in/out transition effect `segmentTime` seconds into the segment.
+ */
+export const getTransitionEffect = (segment: Segment, segmentTime: number): TransitionEffect => {
+  const segmentDuration = segment.duration || 5;
+  let effect = IDENTITY_EFFECT;
+
+  const { transitionIn, transitionOut } = segment;
+  if (transitionIn && transitionIn.type !== 'none' && transitionIn.duration > 0 && segmentTime < transitionIn.duration) {
+    effect = applyTransition(effect, transitionIn, segmentTime / transitionIn.duration);
+  }
+  const timeLeft = segmentDuration - segmentTime;
+  if (transitionOut && transitionOut.type !== 'none' && transitionOut.duration > 0 && timeLeft < transitionOut.duration) {
+    effect = applyTransition(effect, transitionOut, timeLeft / transitionOut.duration);
+  }
+
+  return effect;
+};
+
+export const toCssClipPath = (clip: TransitionEffect['clip']): string | undefined => {
+  if (!clip.top && !clip.right && !clip.bottom && !clip.left) return undefined;
+  return `inset(${clip.top * 100}% ${clip.right * 100}% ${clip.bottom * 100}% ${clip.left * 100}%)`;
+};
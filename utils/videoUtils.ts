@@ -88,6 +88,26 @@ export const extractFrameFromVideo = (videoUrl: string, time = 0): Promise<{ bas
   });
 };
 
+/**
+ * Length of a video in seconds, read from its metadata. Resolves 0 when the browser can't tell.
+ * A Blob gets a temporary object URL, released once the metadata is read.
+ */
+export const getVideoDuration = (source: string | Blob): Promise<number> => {
+  return new Promise((resolve) => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    const done = (duration: number) => {
+      video.src = "";
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    video.onloadedmetadata = () => done(isFinite(video.duration) ? video.duration : 0);
+    video.onerror = () => done(0);
+    video.src = url;
+  });
+};
+
 export const getClosestAspectRatio = (width: number, height: number): string => {
   const ratio = width / height;
   
@@ -112,3 +132,27 @@ export const formatTime = (seconds: number): string => {
   const secs = Math.floor(seconds % 60);
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
+
+/**
+ * Downscale an image data URL into a small JPEG thumbnail.
+ */
+export const createThumbnail = (dataUrl: string, maxWidth = 320): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxWidth / img.width);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Could not get canvas context"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => reject(new Error("Failed to load image for thumbnail"));
+    img.src = dataUrl;
+  });
+};